@@ -0,0 +1,164 @@
+// SPDX-License-Identifier: GPL-3.0
+
+pragma solidity ^0.8.4;
+
+import "./BlindAuction.sol";
+import "./SimpleAuction.sol";
+
+/// @title Deploys auctions and keeps a registry of them.
+contract AuctionFactory {
+  enum AuctionType {
+    Simple,
+    Blind
+  }
+
+  // Registry entry of an auction, end times are the
+  // ones at creation: a soft close can extend a
+  // SimpleAuction afterwards.
+  struct AuctionInfo {
+    address auction;
+    AuctionType auctionType;
+    address creator;
+    address beneficiary;
+    uint256 createdAt;
+    uint256 biddingEnd;
+    uint256 revealEnd; // 0 for a SimpleAuction
+  }
+
+  // Every auction, in creation order.
+  AuctionInfo[] private auctions;
+
+  // Index of an auction in `auctions`, plus one.
+  mapping(address => uint256) private auctionIndexes;
+
+  event AuctionCreated(
+    address indexed auction,
+    AuctionType indexed auctionType,
+    address indexed creator,
+    address beneficiary,
+    uint256 biddingEnd,
+    uint256 revealEnd
+  );
+
+  /// The address is not an auction of this factory.
+  error UnknownAuction(address auction);
+
+  /// Create a SimpleAuction, see its constructor
+  /// for the parameters.
+  function createSimpleAuction(
+    uint256 biddingTime,
+    address payable beneficiaryAddress,
+    uint256 reservePrice,
+    uint256 minIncrement,
+    uint256 minIncrementPercent,
+    uint256 softCloseWindow
+  ) external returns (address) {
+    SimpleAuction auction = new SimpleAuction(
+      biddingTime,
+      beneficiaryAddress,
+      reservePrice,
+      minIncrement,
+      minIncrementPercent,
+      softCloseWindow
+    );
+    _register(
+      address(auction),
+      AuctionType.Simple,
+      beneficiaryAddress,
+      auction.auctionEndTime(),
+      0
+    );
+    return address(auction);
+  }
+
+  /// Create a BlindAuction, see its constructor
+  /// for the parameters.
+  function createBlindAuction(
+    uint256 biddingTime,
+    uint256 revealTime,
+    address payable beneficiaryAddress
+  ) external returns (address) {
+    BlindAuction auction = new BlindAuction(
+      biddingTime,
+      revealTime,
+      beneficiaryAddress
+    );
+    _register(
+      address(auction),
+      AuctionType.Blind,
+      beneficiaryAddress,
+      auction.biddingEnd(),
+      auction.revealEnd()
+    );
+    return address(auction);
+  }
+
+  /// Number of auctions created.
+  function auctionCount() external view returns (uint256) {
+    return auctions.length;
+  }
+
+  /// At most `limit` auctions from index `offset`,
+  /// in creation order. `limit` can be the max uint256
+  /// to read every auction.
+  function getAuctions(uint256 offset, uint256 limit)
+    external
+    view
+    returns (AuctionInfo[] memory page)
+  {
+    if (offset >= auctions.length) return new AuctionInfo[](0);
+    // clamped before adding, so a huge limit cannot overflow
+    if (limit > auctions.length - offset) limit = auctions.length - offset;
+    uint256 end = offset + limit;
+
+    page = new AuctionInfo[](end - offset);
+    for (uint256 i = offset; i < end; i++) {
+      page[i - offset] = auctions[i];
+    }
+  }
+
+  /// Registry entry of `auction`.
+  function getAuction(address auction)
+    external
+    view
+    returns (AuctionInfo memory)
+  {
+    uint256 index = auctionIndexes[auction];
+    if (index == 0) revert UnknownAuction(auction);
+    return auctions[index - 1];
+  }
+
+  /// Whether `auction` was created by this factory.
+  function isAuction(address auction) external view returns (bool) {
+    return auctionIndexes[auction] != 0;
+  }
+
+  function _register(
+    address auction,
+    AuctionType auctionType,
+    address beneficiary,
+    uint256 biddingEnd,
+    uint256 revealEnd
+  ) private {
+    auctions.push(
+      AuctionInfo({
+        auction: auction,
+        auctionType: auctionType,
+        creator: msg.sender,
+        beneficiary: beneficiary,
+        createdAt: block.timestamp,
+        biddingEnd: biddingEnd,
+        revealEnd: revealEnd
+      })
+    );
+    auctionIndexes[auction] = auctions.length;
+    emit AuctionCreated(
+      auction,
+      auctionType,
+      msg.sender,
+      beneficiary,
+      biddingEnd,
+      revealEnd
+    );
+  }
+}
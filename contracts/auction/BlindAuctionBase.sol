@@ -0,0 +1,155 @@
+// SPDX-License-Identifier: GPL-3.0
+
+pragma solidity ^0.8.4;
+
+/// @title Bidding and reveal rules of BlindAuction, whatever pays
+/// the deposits. Variants take the deposits and implement the payments.
+abstract contract BlindAuctionBase {
+  struct Bid {
+    bytes32 blindedBid;
+    uint256 deposit;
+  }
+
+  address payable public beneficiary;
+  uint256 public biddingEnd;
+  uint256 public revealEnd;
+  bool public ended;
+
+  mapping(address => Bid[]) public bids;
+
+  address public highestBidder;
+  uint256 public highestBid;
+
+  // Allowed withdrawals of previous bids
+  mapping(address => uint256) pendingReturns;
+
+  event AuctionEnded(address winner, uint256 highestBid);
+
+  // Errors that describe failures.
+
+  /// The function has been called too early.
+  /// Try again at `time`.
+  error TooEarly(uint256 time);
+  /// The function has been called too late.
+  /// It cannot be called after `time`.
+  error TooLate(uint256 time);
+  /// The function auctionEnd has already been called.
+  error AuctionEndAlreadyCalled();
+
+  // Modifiers are a convenient way to validate inputs to
+  // functions. `onlyBefore` is applied to `_bid` below:
+  // The new function body is the modifier's body where
+  // `_` is replaced by the old function body.
+  modifier onlyBefore(uint256 time) {
+    if (block.timestamp >= time) revert TooLate(time);
+    _;
+  }
+  modifier onlyAfter(uint256 time) {
+    if (block.timestamp <= time) revert TooEarly(time);
+    _;
+  }
+
+  constructor(
+    uint256 biddingTime,
+    uint256 revealTime,
+    address payable beneficiaryAddress
+  ) {
+    beneficiary = beneficiaryAddress;
+    biddingEnd = block.timestamp + biddingTime;
+    revealEnd = biddingEnd + revealTime;
+  }
+
+  /// Record a blinded bid of the sender with a
+  /// `deposit`, the variant takes the funds.
+  function _bid(bytes32 blindedBid, uint256 deposit)
+    internal
+    onlyBefore(biddingEnd)
+  {
+    bids[msg.sender].push(Bid({blindedBid: blindedBid, deposit: deposit}));
+  }
+
+  /// Reveal your blinded bids. You will get a refund for all
+  /// correctly blinded invalid bids and for all bids except for
+  /// the totally highest.
+  function reveal(
+    uint256[] calldata values,
+    bool[] calldata fakes,
+    bytes32[] calldata secrets
+  ) external onlyAfter(biddingEnd) onlyBefore(revealEnd) {
+    uint256 length = bids[msg.sender].length;
+    require(values.length == length);
+    require(fakes.length == length);
+    require(secrets.length == length);
+
+    uint256 refund;
+    for (uint256 i = 0; i < length; i++) {
+      Bid storage bidToCheck = bids[msg.sender][i];
+      (uint256 value, bool fake, bytes32 secret) = (
+        values[i],
+        fakes[i],
+        secrets[i]
+      );
+      if (
+        bidToCheck.blindedBid !=
+        keccak256(abi.encodePacked(value, fake, secret))
+      ) {
+        // Bid was not actually revealed.
+        // Do not refund deposit.
+        continue;
+      }
+      refund += bidToCheck.deposit;
+      if (!fake && bidToCheck.deposit >= value) {
+        if (placeBid(msg.sender, value)) refund -= value;
+      }
+      // Make it impossible for the sender to re-claim
+      // the same deposit.
+      bidToCheck.blindedBid = bytes32(0);
+    }
+    _send(payable(msg.sender), refund);
+  }
+
+  /// Withdraw a bid that was overbid.
+  function withdraw() external {
+    uint256 amount = pendingReturns[msg.sender];
+    if (amount > 0) {
+      // It is important to set this to zero because the recipient
+      // can call this function again as part of the receiving call
+      // before `transfer` returns (see the remark above about
+      // conditions -> effects -> interaction).
+      pendingReturns[msg.sender] = 0;
+
+      _send(payable(msg.sender), amount);
+    }
+  }
+
+  /// End the auction and send the highest bid
+  /// to the beneficiary.
+  function auctionEnd() external onlyAfter(revealEnd) {
+    if (ended) revert AuctionEndAlreadyCalled();
+    emit AuctionEnded(highestBidder, highestBid);
+    ended = true;
+    _send(beneficiary, highestBid);
+  }
+
+  // This is an "internal" function which means that it
+  // can only be called from the contract itself (or from
+  // derived contracts).
+  function placeBid(address bidder, uint256 value)
+    internal
+    returns (bool success)
+  {
+    if (value <= highestBid) {
+      return false;
+    }
+    if (highestBidder != address(0)) {
+      // Refund the previously highest bidder.
+      pendingReturns[highestBidder] += highestBid;
+    }
+    highestBid = value;
+    highestBidder = bidder;
+    return true;
+  }
+
+  /// Send `amount` to `to`, revert on failure.
+  function _send(address payable to, uint256 amount) internal virtual;
+}
@@ -0,0 +1,119 @@
+// SPDX-License-Identifier: GPL-3.0
+
+pragma solidity ^0.8.4;
+
+/// @title Descending price auction, sold to the first buyer.
+contract DutchAuction {
+  // Parameters of the auction. Times are either
+  // absolute unix timestamps (seconds since 1970-01-01)
+  // or time periods in seconds.
+  address payable public beneficiary;
+  uint256 public startTime;
+  // The price falls from `startPrice` to `floorPrice` in
+  // `duration` seconds, then stays at `floorPrice`.
+  uint256 public startPrice;
+  uint256 public floorPrice;
+  uint256 public duration;
+  // Number of equal price drops over the duration,
+  // the price falls linearly when zero.
+  uint256 public steps;
+
+  // Set at the sale, disallows any change.
+  address public buyer;
+  uint256 public soldPrice;
+  bool public ended;
+  // Sale price not withdrawn by the beneficiary yet.
+  uint256 public proceeds;
+
+  // Same event as the other auctions.
+  event AuctionEnded(address winner, uint256 amount);
+
+  /// The floor price is above the start price.
+  error InvalidPrices();
+  /// The price has to fall over a duration.
+  error InvalidDuration();
+  /// The auction has already ended.
+  error AuctionAlreadyEnded();
+  /// The sent value is below the current price.
+  error PriceNotMet(uint256 price);
+
+  /// Create a dutch auction on behalf of the
+  /// beneficiary address `beneficiaryAddress`,
+  /// starting now at `startPrice_`.
+  constructor(
+    uint256 startPrice_,
+    uint256 floorPrice_,
+    uint256 duration_,
+    uint256 steps_,
+    address payable beneficiaryAddress
+  ) {
+    if (floorPrice_ > startPrice_) revert InvalidPrices();
+    if (duration_ == 0) revert InvalidDuration();
+    beneficiary = beneficiaryAddress;
+    startTime = block.timestamp;
+    startPrice = startPrice_;
+    floorPrice = floorPrice_;
+    duration = duration_;
+    steps = steps_;
+  }
+
+  /// The price of the auction at `timestamp`.
+  function priceAt(uint256 timestamp) public view returns (uint256) {
+    if (timestamp <= startTime) return startPrice;
+    uint256 elapsed = timestamp - startTime;
+    if (elapsed >= duration) return floorPrice;
+
+    uint256 drop = startPrice - floorPrice;
+    if (steps == 0) return startPrice - (drop * elapsed) / duration;
+    // The price drops at the end of each of the `steps` periods.
+    uint256 dropped = (elapsed * steps) / duration;
+    return startPrice - (drop * dropped) / steps;
+  }
+
+  /// The price of the auction in the current block.
+  function currentPrice() external view returns (uint256) {
+    return priceAt(block.timestamp);
+  }
+
+  /// Buy at the current price with the value sent
+  /// together with this transaction. The value above
+  /// the price is refunded.
+  function buy() external payable {
+    // 1. Conditions
+    if (ended) revert AuctionAlreadyEnded();
+    uint256 price = priceAt(block.timestamp);
+    if (msg.value < price) revert PriceNotMet(price);
+
+    // 2. Effects
+    ended = true;
+    buyer = msg.sender;
+    soldPrice = price;
+    // The beneficiary withdraws the price, so a beneficiary
+    // refusing ether cannot block the sale.
+    proceeds = price;
+    emit AuctionEnded(msg.sender, price);
+
+    // 3. Interaction
+    if (msg.value > price) {
+      payable(msg.sender).transfer(msg.value - price);
+    }
+  }
+
+  /// Send the proceeds of the sale to the beneficiary.
+  function withdraw() external returns (bool) {
+    uint256 amount = proceeds;
+    if (amount > 0) {
+      // It is important to set this to zero because the recipient
+      // can call this function again as part of the receiving call
+      // before `send` returns.
+      proceeds = 0;
+
+      if (!beneficiary.send(amount)) {
+        // No need to call throw here, just reset the amount owing
+        proceeds = amount;
+        return false;
+      }
+    }
+    return true;
+  }
+}
@@ -3,52 +3,29 @@
 pragma solidity ^0.8.4;
 
 import "hardhat/console.sol";
+import "./SimpleAuctionBase.sol";
 
-contract SimpleAuction {
-  // Parameters of the auction. Times are either
-  // absolute unix timestamps (seconds since 1970-01-01)
-  // or time periods in seconds.
-  address payable public beneficiary;
-  uint256 public auctionEndTime;
-
-  // Current state of the auction.
-  address public highestBidder;
-  uint256 public highestBid;
-
-  // Allowed withdrawals of previous bids
-  mapping(address => uint256) pendingReturns;
-
-  // Set to true at the end, disallows any change.
-  // By default initialized to `false`.
-  bool ended;
-
-  // Events that will be emitted on changes.
-  event HighestBidIncreased(address bidder, uint256 amount);
-  event AuctionEnded(address winner, uint256 amount);
-
-  // Errors that describe failures.
-
-  // The triple-slash comments are so-called natspec
-  // comments. They will be shown when the user
-  // is asked to confirm a transaction or
-  // when an error is displayed.
-
-  /// The auction has already ended.
-  error AuctionAlreadyEnded();
-  /// There is already a higher or equal bid.
-  error BidNotHighEnough(uint256 highestBid);
-  /// The auction has not ended yet.
-  error AuctionNotYetEnded();
-  /// The function auctionEnd has already been called.
-  error AuctionEndAlreadyCalled();
-
+contract SimpleAuction is SimpleAuctionBase {
   /// Create a simple auction with `biddingTime`
   /// seconds bidding time on behalf of the
   /// beneficiary address `beneficiaryAddress`.
-  constructor(uint256 biddingTime, address payable beneficiaryAddress) {
-    beneficiary = beneficiaryAddress;
-    auctionEndTime = block.timestamp + biddingTime;
-  }
+  constructor(
+    uint256 biddingTime,
+    address payable beneficiaryAddress,
+    uint256 reservePrice_,
+    uint256 minIncrement_,
+    uint256 minIncrementPercent_,
+    uint256 softCloseWindow_
+  )
+    SimpleAuctionBase(
+      biddingTime,
+      beneficiaryAddress,
+      reservePrice_,
+      minIncrement_,
+      minIncrementPercent_,
+      softCloseWindow_
+    )
+  {}
 
   /// Bid on the auction with the value sent
   /// together with this transaction.
@@ -60,77 +37,18 @@ contract SimpleAuction {
     // the transaction. The keyword payable
     // is required for the function to
     // be able to receive Ether.
-
-    // Revert the call if the bidding
-    // period is over.
-    if (block.timestamp > auctionEndTime) revert AuctionAlreadyEnded();
-
-    // If the bid is not higher, send the
-    // money back (the revert statement
-    // will revert all changes in this
-    // function execution including
-    // it having received the money).
-    if (msg.value <= highestBid) revert BidNotHighEnough(highestBid);
-
-    if (highestBid != 0) {
-      // Sending back the money by simply using
-      // highestBidder.send(highestBid) is a security risk
-      // because it could execute an untrusted contract.
-      // It is always safer to let the recipients
-      // withdraw their money themselves.
-      pendingReturns[highestBidder] += highestBid;
-    }
-    highestBidder = msg.sender;
-    highestBid = msg.value;
-    emit HighestBidIncreased(msg.sender, msg.value);
+    _bid(msg.value);
   }
 
-  /// Withdraw a bid that was overbid.
-  function withdraw() external returns (bool) {
-    uint256 amount = pendingReturns[msg.sender];
-    if (amount > 0) {
-      // It is important to set this to zero because the recipient
-      // can call this function again as part of the receiving call
-      // before `send` returns.
-      pendingReturns[msg.sender] = 0;
-
-      // msg.sender is not of type `address payable` and must be
-      // explicitly converted using `payable(msg.sender)` in order
-      // use the member function `send()`.
-      if (!payable(msg.sender).send(amount)) {
-        // No need to call throw here, just reset the amount owing
-        pendingReturns[msg.sender] = amount;
-        return false;
-      }
-    }
-    return true;
+  function _send(address payable to, uint256 amount) internal override {
+    to.transfer(amount);
   }
 
-  /// End the auction and send the highest bid
-  /// to the beneficiary.
-  function auctionEnd() external {
-    // It is a good guideline to structure functions that interact
-    // with other contracts (i.e. they call functions or send Ether)
-    // into three phases:
-    // 1. checking conditions
-    // 2. performing actions (potentially changing conditions)
-    // 3. interacting with other contracts
-    // If these phases are mixed up, the other contract could call
-    // back into the current contract and modify the state or cause
-    // effects (ether payout) to be performed multiple times.
-    // If functions called internally include interaction with external
-    // contracts, they also have to be considered interaction with
-    // external contracts.
-
-    // 1. Conditions
-    if (block.timestamp < auctionEndTime) revert AuctionNotYetEnded();
-    if (ended) revert AuctionEndAlreadyCalled();
-
-    // 2. Effects
-    ended = true;
-    emit AuctionEnded(highestBidder, highestBid);
-
-    // 3. Interaction
-    beneficiary.transfer(highestBid);
+  function _trySend(address payable to, uint256 amount)
+    internal
+    override
+    returns (bool)
+  {
+    return to.send(amount);
   }
 }
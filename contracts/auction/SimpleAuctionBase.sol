@@ -0,0 +1,192 @@
+// SPDX-License-Identifier: GPL-3.0
+
+pragma solidity ^0.8.4;
+
+/// @title Bidding rules of SimpleAuction, whatever pays the bids.
+/// Variants take the bids and implement the payments.
+abstract contract SimpleAuctionBase {
+  // Parameters of the auction. Times are either
+  // absolute unix timestamps (seconds since 1970-01-01)
+  // or time periods in seconds.
+  address payable public beneficiary;
+  uint256 public auctionEndTime;
+
+  // Rules of the bids, each one is disabled when zero.
+  // The highest bid is only sold at the reserve price or above.
+  uint256 public reservePrice;
+  // A new bid adds the larger of `minIncrement` wei and
+  // `minIncrementPercent` percent of the highest bid.
+  uint256 public minIncrement;
+  uint256 public minIncrementPercent;
+  // A bid less than `softCloseWindow` seconds before the end
+  // moves the end to `softCloseWindow` seconds after the bid.
+  uint256 public softCloseWindow;
+
+  // Current state of the auction.
+  address public highestBidder;
+  uint256 public highestBid;
+
+  // Allowed withdrawals of previous bids
+  mapping(address => uint256) public pendingReturns;
+
+  // Set to true at the end, disallows any change.
+  // By default initialized to `false`.
+  bool public ended;
+
+  // Events that will be emitted on changes.
+  event HighestBidIncreased(address bidder, uint256 amount);
+  event AuctionEnded(address winner, uint256 amount);
+  event AuctionExtended(uint256 auctionEndTime);
+  event ReserveNotMet(address highestBidder, uint256 highestBid);
+
+  // Errors that describe failures.
+
+  // The triple-slash comments are so-called natspec
+  // comments. They will be shown when the user
+  // is asked to confirm a transaction or
+  // when an error is displayed.
+
+  /// The auction has already ended.
+  error AuctionAlreadyEnded();
+  /// There is already a higher or equal bid.
+  error BidNotHighEnough(uint256 highestBid);
+  /// The bid does not add the minimum increment.
+  error BidIncrementTooLow(uint256 minimumBid);
+  /// The auction has not ended yet.
+  error AuctionNotYetEnded();
+  /// The function auctionEnd has already been called.
+  error AuctionEndAlreadyCalled();
+
+  /// Create a simple auction with `biddingTime`
+  /// seconds bidding time on behalf of the
+  /// beneficiary address `beneficiaryAddress`.
+  /// Bids below `reservePrice_` are accepted but
+  /// refunded at the end, the other rules are
+  /// described with their state variables.
+  constructor(
+    uint256 biddingTime,
+    address payable beneficiaryAddress,
+    uint256 reservePrice_,
+    uint256 minIncrement_,
+    uint256 minIncrementPercent_,
+    uint256 softCloseWindow_
+  ) {
+    beneficiary = beneficiaryAddress;
+    auctionEndTime = block.timestamp + biddingTime;
+    reservePrice = reservePrice_;
+    minIncrement = minIncrement_;
+    minIncrementPercent = minIncrementPercent_;
+    softCloseWindow = softCloseWindow_;
+  }
+
+  /// The lowest value accepted by `bid`.
+  function minimumBid() public view returns (uint256) {
+    if (highestBid == 0) return 1;
+    uint256 increment = (highestBid * minIncrementPercent) / 100;
+    if (increment < minIncrement) increment = minIncrement;
+    return highestBid + (increment == 0 ? 1 : increment);
+  }
+
+  /// Whether the highest bid reaches the reserve price.
+  function reserveMet() public view returns (bool) {
+    return highestBid >= reservePrice;
+  }
+
+  /// Record a bid of `amount` from the sender,
+  /// the variant takes the funds.
+  function _bid(uint256 amount) internal {
+    // Revert the call if the bidding
+    // period is over.
+    if (block.timestamp > auctionEndTime || ended)
+      revert AuctionAlreadyEnded();
+
+    // If the bid is not higher, send the
+    // money back (the revert statement
+    // will revert all changes in this
+    // function execution including
+    // it having received the money).
+    if (amount <= highestBid) revert BidNotHighEnough(highestBid);
+    uint256 minimum = minimumBid();
+    if (amount < minimum) revert BidIncrementTooLow(minimum);
+
+    if (highestBid != 0) {
+      // Sending back the money by simply using
+      // highestBidder.send(highestBid) is a security risk
+      // because it could execute an untrusted contract.
+      // It is always safer to let the recipients
+      // withdraw their money themselves.
+      pendingReturns[highestBidder] += highestBid;
+    }
+    highestBidder = msg.sender;
+    highestBid = amount;
+    emit HighestBidIncreased(msg.sender, amount);
+
+    // Bids near the end leave time for the others to answer.
+    if (auctionEndTime - block.timestamp < softCloseWindow) {
+      auctionEndTime = block.timestamp + softCloseWindow;
+      emit AuctionExtended(auctionEndTime);
+    }
+  }
+
+  /// Withdraw a bid that was overbid.
+  function withdraw() external returns (bool) {
+    uint256 amount = pendingReturns[msg.sender];
+    if (amount > 0) {
+      // It is important to set this to zero because the recipient
+      // can call this function again as part of the receiving call
+      // before `send` returns.
+      pendingReturns[msg.sender] = 0;
+
+      if (!_trySend(payable(msg.sender), amount)) {
+        // No need to call throw here, just reset the amount owing
+        pendingReturns[msg.sender] = amount;
+        return false;
+      }
+    }
+    return true;
+  }
+
+  /// End the auction and send the highest bid
+  /// to the beneficiary. Below the reserve price
+  /// the highest bidder withdraws the bid instead.
+  function auctionEnd() external {
+    // It is a good guideline to structure functions that interact
+    // with other contracts (i.e. they call functions or send Ether)
+    // into three phases:
+    // 1. checking conditions
+    // 2. performing actions (potentially changing conditions)
+    // 3. interacting with other contracts
+    // If these phases are mixed up, the other contract could call
+    // back into the current contract and modify the state or cause
+    // effects (ether payout) to be performed multiple times.
+    // If functions called internally include interaction with external
+    // contracts, they also have to be considered interaction with
+    // external contracts.
+
+    // 1. Conditions
+    if (block.timestamp < auctionEndTime) revert AuctionNotYetEnded();
+    if (ended) revert AuctionEndAlreadyCalled();
+
+    // 2. Effects
+    ended = true;
+    if (!reserveMet()) {
+      pendingReturns[highestBidder] += highestBid;
+      emit ReserveNotMet(highestBidder, highestBid);
+      emit AuctionEnded(address(0), 0);
+      return;
+    }
+    emit AuctionEnded(highestBidder, highestBid);
+
+    // 3. Interaction
+    _send(beneficiary, highestBid);
+  }
+
+  /// Send `amount` to `to`, revert on failure.
+  function _send(address payable to, uint256 amount) internal virtual;
+
+  /// Send `amount` to `to`, return whether it succeeded.
+  function _trySend(address payable to, uint256 amount)
+    internal
+    virtual
+    returns (bool);
+}
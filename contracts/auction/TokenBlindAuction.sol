@@ -0,0 +1,36 @@
+// SPDX-License-Identifier: GPL-3.0
+
+pragma solidity ^0.8.4;
+
+import "./BlindAuctionBase.sol";
+import "../token/SafeERC20.sol";
+
+/// @title BlindAuction with deposits paid in an ERC-20 token.
+contract TokenBlindAuction is BlindAuctionBase {
+  using SafeERC20 for IERC20;
+
+  IERC20 public token;
+
+  /// Create a blind auction paid in `token_`,
+  /// see BlindAuction for the other parameters.
+  constructor(
+    IERC20 token_,
+    uint256 biddingTime,
+    uint256 revealTime,
+    address payable beneficiaryAddress
+  ) BlindAuctionBase(biddingTime, revealTime, beneficiaryAddress) {
+    token = token_;
+  }
+
+  /// Place a blinded bid like BlindAuction.bid, with
+  /// a `deposit` of tokens approved to the auction
+  /// beforehand instead of ether.
+  function bid(bytes32 blindedBid, uint256 deposit) external {
+    _bid(blindedBid, deposit);
+    token.safeTransferIn(msg.sender, deposit);
+  }
+
+  function _send(address payable to, uint256 amount) internal override {
+    token.safeTransfer(to, amount);
+  }
+}
@@ -0,0 +1,56 @@
+// SPDX-License-Identifier: GPL-3.0
+
+pragma solidity ^0.8.4;
+
+import "./SimpleAuctionBase.sol";
+import "../token/SafeERC20.sol";
+
+/// @title SimpleAuction with bids paid in an ERC-20 token.
+contract TokenSimpleAuction is SimpleAuctionBase {
+  using SafeERC20 for IERC20;
+
+  IERC20 public token;
+
+  /// Create a simple auction paid in `token_`,
+  /// see SimpleAuction for the other parameters.
+  constructor(
+    IERC20 token_,
+    uint256 biddingTime,
+    address payable beneficiaryAddress,
+    uint256 reservePrice_,
+    uint256 minIncrement_,
+    uint256 minIncrementPercent_,
+    uint256 softCloseWindow_
+  )
+    SimpleAuctionBase(
+      biddingTime,
+      beneficiaryAddress,
+      reservePrice_,
+      minIncrement_,
+      minIncrementPercent_,
+      softCloseWindow_
+    )
+  {
+    token = token_;
+  }
+
+  /// Bid `amount` tokens, approved to the auction
+  /// beforehand. The tokens will only be refunded
+  /// if the auction is not won.
+  function bid(uint256 amount) external {
+    _bid(amount);
+    token.safeTransferIn(msg.sender, amount);
+  }
+
+  function _send(address payable to, uint256 amount) internal override {
+    token.safeTransfer(to, amount);
+  }
+
+  function _trySend(address payable to, uint256 amount)
+    internal
+    override
+    returns (bool)
+  {
+    return token.trySafeTransfer(to, amount);
+  }
+}
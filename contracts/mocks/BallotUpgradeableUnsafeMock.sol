@@ -0,0 +1,13 @@
+// SPDX-License-Identifier: GPL-3.0
+
+pragma solidity ^0.8.4;
+
+import "../proxy/Initializable.sol";
+
+/// @title Upgrade of BallotUpgradeable corrupting its storage: a variable is
+/// inserted first, `voters` changes type and `proposals` is removed.
+contract BallotUpgradeableUnsafeMock is Initializable {
+  uint256 public deadline;
+  address public chairperson;
+  mapping(address => uint256) public voters;
+}
@@ -0,0 +1,15 @@
+// SPDX-License-Identifier: GPL-3.0
+
+pragma solidity ^0.8.4;
+
+import "../voting/BallotUpgradeable.sol";
+
+/// @title Upgrade of BallotUpgradeable appending a state variable.
+contract BallotUpgradeableV2Mock is BallotUpgradeable {
+  uint256 public closedAt;
+
+  function close() external {
+    require(msg.sender == chairperson, "Only chairperson can close.");
+    closedAt = block.timestamp;
+  }
+}
@@ -0,0 +1,32 @@
+// SPDX-License-Identifier: GPL-3.0
+
+pragma solidity ^0.8.4;
+
+import "./ERC20Mock.sol";
+
+/// @title ERC-20 burning a fee on every transfer, for tests.
+contract ERC20FeeOnTransferMock is ERC20Mock {
+  uint256 public feePercent;
+
+  constructor(
+    string memory name_,
+    string memory symbol_,
+    uint256 feePercent_
+  ) ERC20Mock(name_, symbol_) {
+    feePercent = feePercent_;
+  }
+
+  function _transfer(
+    address from,
+    address to,
+    uint256 amount
+  ) internal override {
+    uint256 fee = (amount * feePercent) / 100;
+    super._transfer(from, to, amount - fee);
+    if (fee > 0) {
+      balanceOf[from] -= fee;
+      totalSupply -= fee;
+      emit Transfer(from, address(0), fee);
+    }
+  }
+}
@@ -0,0 +1,70 @@
+// SPDX-License-Identifier: GPL-3.0
+
+pragma solidity ^0.8.4;
+
+import "../token/IERC20.sol";
+
+/// @title Mintable ERC-20 for tests.
+contract ERC20Mock is IERC20 {
+  string public name;
+  string public symbol;
+  uint8 public constant decimals = 18;
+  uint256 public totalSupply;
+
+  mapping(address => uint256) public balanceOf;
+  mapping(address => mapping(address => uint256)) public allowance;
+
+  // Transfers return false instead of moving tokens,
+  // like tokens which do not revert on failure.
+  bool public failTransfers;
+
+  constructor(string memory name_, string memory symbol_) {
+    name = name_;
+    symbol = symbol_;
+  }
+
+  function mint(address to, uint256 amount) external {
+    totalSupply += amount;
+    balanceOf[to] += amount;
+    emit Transfer(address(0), to, amount);
+  }
+
+  function setFailTransfers(bool failTransfers_) external {
+    failTransfers = failTransfers_;
+  }
+
+  function approve(address spender, uint256 amount) external returns (bool) {
+    allowance[msg.sender][spender] = amount;
+    emit Approval(msg.sender, spender, amount);
+    return true;
+  }
+
+  function transfer(address to, uint256 amount) external returns (bool) {
+    if (failTransfers) return false;
+    _transfer(msg.sender, to, amount);
+    return true;
+  }
+
+  function transferFrom(
+    address from,
+    address to,
+    uint256 amount
+  ) external returns (bool) {
+    if (failTransfers) return false;
+    require(allowance[from][msg.sender] >= amount, "Insufficient allowance");
+    allowance[from][msg.sender] -= amount;
+    _transfer(from, to, amount);
+    return true;
+  }
+
+  function _transfer(
+    address from,
+    address to,
+    uint256 amount
+  ) internal virtual {
+    require(balanceOf[from] >= amount, "Insufficient balance");
+    balanceOf[from] -= amount;
+    balanceOf[to] += amount;
+    emit Transfer(from, to, amount);
+  }
+}
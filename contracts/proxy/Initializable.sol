@@ -0,0 +1,40 @@
+// SPDX-License-Identifier: MIT
+
+pragma solidity ^0.8.4;
+
+/// @title Run-once initializer of contracts deployed behind a proxy.
+/// @notice The flag lives in its own slot, so inheriting this contract
+/// does not shift the storage layout of the contract it extends.
+abstract contract Initializable {
+  // bytes32(uint256(keccak256("solidity-example.initializable.initialized")) - 1)
+  bytes32 private constant INITIALIZED_SLOT =
+    0xfe9f4e263328d30fa4c8c7dc5c3f1d9602d7b0407f91308a2dcd1a5cd8b44cc7;
+
+  /// The contract has already been initialized.
+  error AlreadyInitialized();
+
+  modifier initializer() {
+    if (_initialized()) revert AlreadyInitialized();
+    _setInitialized();
+    _;
+  }
+
+  /// Lock the implementation contract, only its proxies get initialized.
+  function _disableInitializers() internal {
+    _setInitialized();
+  }
+
+  function _initialized() private view returns (bool initialized) {
+    bytes32 slot = INITIALIZED_SLOT;
+    assembly {
+      initialized := sload(slot)
+    }
+  }
+
+  function _setInitialized() private {
+    bytes32 slot = INITIALIZED_SLOT;
+    assembly {
+      sstore(slot, 1)
+    }
+  }
+}
@@ -0,0 +1,57 @@
+// SPDX-License-Identifier: MIT
+
+pragma solidity ^0.8.4;
+
+import "./TransparentUpgradeableProxy.sol";
+
+/// @title Admin of transparent proxies.
+/// @notice Proxies never forward the calls of their admin, so the admin is
+/// this contract and the deployer keeps using the proxies as any account.
+contract ProxyAdmin {
+  address public owner;
+
+  /// Only the owner can call this function.
+  error OnlyOwner();
+
+  event OwnershipTransferred(
+    address indexed previousOwner,
+    address indexed newOwner
+  );
+
+  constructor() {
+    owner = msg.sender;
+    emit OwnershipTransferred(address(0), msg.sender);
+  }
+
+  modifier onlyOwner() {
+    if (msg.sender != owner) revert OnlyOwner();
+    _;
+  }
+
+  function getProxyImplementation(TransparentUpgradeableProxy proxy)
+    external
+    returns (address)
+  {
+    return proxy.implementation();
+  }
+
+  function upgradeAndCall(
+    TransparentUpgradeableProxy proxy,
+    address implementation,
+    bytes calldata data
+  ) external payable onlyOwner {
+    proxy.upgradeToAndCall{value: msg.value}(implementation, data);
+  }
+
+  function changeProxyAdmin(TransparentUpgradeableProxy proxy, address newAdmin)
+    external
+    onlyOwner
+  {
+    proxy.changeAdmin(newAdmin);
+  }
+
+  function transferOwnership(address newOwner) external onlyOwner {
+    emit OwnershipTransferred(owner, newOwner);
+    owner = newOwner;
+  }
+}
@@ -0,0 +1,143 @@
+// SPDX-License-Identifier: MIT
+
+pragma solidity ^0.8.4;
+
+/// @title Transparent upgradeable proxy.
+/// @notice Every call is delegated to the implementation, except the calls
+/// of the admin which can only upgrade the proxy. Slots follow EIP-1967, so
+/// explorers find the implementation.
+contract TransparentUpgradeableProxy {
+  // bytes32(uint256(keccak256("eip1967.proxy.implementation")) - 1)
+  bytes32 internal constant IMPLEMENTATION_SLOT =
+    0x360894a13ba1a3210667c828492db98dca3e2076cc3735a920a3ca505d382bbc;
+  // bytes32(uint256(keccak256("eip1967.proxy.admin")) - 1)
+  bytes32 internal constant ADMIN_SLOT =
+    0xb53127684a568b3173ae13b9f8a6016e243e63b6e8ee1178d6a717850b5d6103;
+
+  /// The implementation has no code.
+  error InvalidImplementation(address implementation);
+  /// The admin cannot call the implementation through the proxy.
+  error AdminCannotFallback();
+
+  event Upgraded(address indexed implementation);
+  event AdminChanged(address previousAdmin, address newAdmin);
+
+  /// Point to `implementation_` and initialize the proxy state
+  /// by delegating `data` to it, `msg.value` included.
+  constructor(
+    address implementation_,
+    address admin_,
+    bytes memory data
+  ) payable {
+    _setAdmin(admin_);
+    _upgradeToAndCall(implementation_, data);
+  }
+
+  modifier ifAdmin() {
+    if (msg.sender == _admin()) {
+      _;
+    } else {
+      _fallback();
+    }
+  }
+
+  function admin() external ifAdmin returns (address admin_) {
+    admin_ = _admin();
+  }
+
+  function implementation() external ifAdmin returns (address implementation_) {
+    implementation_ = _implementation();
+  }
+
+  function changeAdmin(address newAdmin) external ifAdmin {
+    _setAdmin(newAdmin);
+  }
+
+  /// Upgrade to `newImplementation`, then delegate `data` to it
+  /// unless empty, e.g. to initialize new state variables.
+  function upgradeToAndCall(address newImplementation, bytes calldata data)
+    external
+    payable
+    ifAdmin
+  {
+    _upgradeToAndCall(newImplementation, data);
+  }
+
+  fallback() external payable {
+    _fallback();
+  }
+
+  receive() external payable {
+    _fallback();
+  }
+
+  function _admin() internal view returns (address admin_) {
+    bytes32 slot = ADMIN_SLOT;
+    assembly {
+      admin_ := sload(slot)
+    }
+  }
+
+  function _implementation() internal view returns (address implementation_) {
+    bytes32 slot = IMPLEMENTATION_SLOT;
+    assembly {
+      implementation_ := sload(slot)
+    }
+  }
+
+  function _setAdmin(address newAdmin) internal {
+    emit AdminChanged(_admin(), newAdmin);
+    bytes32 slot = ADMIN_SLOT;
+    assembly {
+      sstore(slot, newAdmin)
+    }
+  }
+
+  function _upgradeToAndCall(address newImplementation, bytes memory data)
+    internal
+  {
+    if (newImplementation.code.length == 0)
+      revert InvalidImplementation(newImplementation);
+    bytes32 slot = IMPLEMENTATION_SLOT;
+    assembly {
+      sstore(slot, newImplementation)
+    }
+    emit Upgraded(newImplementation);
+
+    if (data.length > 0) {
+      (bool success, bytes memory result) = newImplementation.delegatecall(
+        data
+      );
+      // bubble up the revert of the initializer
+      if (!success) {
+        assembly {
+          revert(add(result, 32), mload(result))
+        }
+      }
+    }
+  }
+
+  function _fallback() internal {
+    if (msg.sender == _admin()) revert AdminCannotFallback();
+    address implementation_ = _implementation();
+    assembly {
+      calldatacopy(0, 0, calldatasize())
+      let success := delegatecall(
+        gas(),
+        implementation_,
+        0,
+        calldatasize(),
+        0,
+        0
+      )
+      returndatacopy(0, 0, returndatasize())
+      switch success
+      case 0 {
+        revert(0, returndatasize())
+      }
+      default {
+        return(0, returndatasize())
+      }
+    }
+  }
+}
@@ -0,0 +1,314 @@
+// SPDX-License-Identifier: GPL-3.0
+
+pragma solidity ^0.8.4;
+
+/// @title Escrow rules of Purchase, whatever pays the deposits.
+/// Variants take the deposits and implement the payments.
+abstract contract PurchaseBase {
+  uint256 public value;
+  address payable public seller;
+  address payable public buyer;
+
+  enum State {
+    Created,
+    Locked,
+    Release,
+    Inactive,
+    Disputed,
+    // Only TokenPurchase, until the seller deposit is paid.
+    Unfunded
+  }
+  // The state variable has a default value of the first member, `State.created`
+  State public state;
+
+  // Seconds the seller has to deliver once the purchase
+  // is locked, 0 for no deadline.
+  uint256 public deliveryPeriod;
+  // Seconds the buyer has to confirm the reception once
+  // the item is delivered, 0 for no deadline.
+  uint256 public confirmationPeriod;
+  // Third party ruling on disputes, address(0) for none.
+  address public arbiter;
+  uint256 public lockedAt;
+  uint256 public deliveredAt;
+
+  // Funds of the buyer and seller after a timeout or a ruling.
+  mapping(address => uint256) public pendingWithdrawals;
+  // Seconds the arbiter has to rule once disputed, required
+  // with an arbiter so a dispute always ends.
+  uint256 public rulingPeriod;
+  uint256 public disputedAt;
+
+  modifier condition(bool condition_) {
+    require(condition_);
+    _;
+  }
+
+  /// Only the buyer can call this function.
+  error OnlyBuyer();
+  /// Only the seller can call this function.
+  error OnlySeller();
+  /// The function cannot be called at the current state.
+  error InvalidState();
+  /// The provided value has to be even.
+  error ValueNotEven();
+  /// Only the arbiter can call this function.
+  error OnlyArbiter();
+  /// Only the buyer or the seller can call this function.
+  error OnlyParty();
+  /// The seller or the buyer cannot be the arbiter.
+  error InvalidArbiter();
+  /// An arbiter needs a ruling period.
+  error InvalidRulingPeriod();
+  /// The purchase has no arbiter.
+  error NoArbiter();
+  /// The deadline is disabled or has not started.
+  error NoDeadline();
+  /// The item has already been delivered.
+  error AlreadyDelivered();
+  /// The function has been called too early.
+  /// Try again at `time`.
+  error TooEarly(uint256 time);
+  /// The function has been called too late.
+  /// It cannot be called after `time`.
+  error TooLate(uint256 time);
+  /// The buyer share exceeds the `lockedFunds`.
+  error InvalidSplit(uint256 lockedFunds);
+
+  modifier onlyBuyer() {
+    if (msg.sender != buyer) revert OnlyBuyer();
+    _;
+  }
+
+  modifier onlySeller() {
+    if (msg.sender != seller) revert OnlySeller();
+    _;
+  }
+
+  modifier onlyArbiter() {
+    if (msg.sender != arbiter) revert OnlyArbiter();
+    _;
+  }
+
+  modifier inState(State state_) {
+    if (state != state_) revert InvalidState();
+    _;
+  }
+
+  event Aborted();
+  event PurchaseConfirmed();
+  event ItemReceived();
+  event SellerRefunded();
+  event ItemDelivered();
+  event DeliveryTimedOut();
+  event ConfirmationTimedOut();
+  event DisputeOpened(address by);
+  event DisputeResolved(uint256 buyerAmount, uint256 sellerAmount);
+  event RulingTimedOut();
+
+  // Ensure that the `deposit` of the seller is an even number.
+  // Division will truncate if it is an odd number.
+  // Check via multiplication that it wasn't an odd number.
+  // Called by the constructor of the variants and by
+  // `PurchaseUpgradeable.initialize` to set up a proxy. The seller
+  // is explicit as `msg.sender` is the factory of a CREATE2 deployment.
+  function _createPurchase(
+    address seller_,
+    uint256 deposit,
+    uint256 deliveryPeriod_,
+    uint256 confirmationPeriod_,
+    address arbiter_,
+    uint256 rulingPeriod_
+  ) internal {
+    seller = payable(seller_);
+    value = deposit / 2;
+    if ((2 * value) != deposit) revert ValueNotEven();
+    if (arbiter_ == seller_) revert InvalidArbiter();
+    if (arbiter_ != address(0) && rulingPeriod_ == 0)
+      revert InvalidRulingPeriod();
+    deliveryPeriod = deliveryPeriod_;
+    confirmationPeriod = confirmationPeriod_;
+    arbiter = arbiter_;
+    rulingPeriod = rulingPeriod_;
+  }
+
+  /// Time until which the seller can deliver,
+  /// 0 without delivery period or before the purchase.
+  function deliveryDeadline() public view returns (uint256) {
+    if (deliveryPeriod == 0 || lockedAt == 0) return 0;
+    return lockedAt + deliveryPeriod;
+  }
+
+  /// Time until which the buyer can confirm the reception,
+  /// 0 without confirmation period or before the delivery.
+  function confirmationDeadline() public view returns (uint256) {
+    if (confirmationPeriod == 0 || deliveredAt == 0) return 0;
+    return deliveredAt + confirmationPeriod;
+  }
+
+  /// Time until which the arbiter can rule, 0 before a dispute.
+  function rulingDeadline() public view returns (uint256) {
+    if (disputedAt == 0) return 0;
+    return disputedAt + rulingPeriod;
+  }
+
+  /// Abort the purchase and reclaim the deposit.
+  /// Can only be called by the seller before
+  /// the contract is locked.
+  function abort() external onlySeller inState(State.Created) {
+    emit Aborted();
+    state = State.Inactive;
+    // Sending the funds is reentrancy-safe,
+    // because it is the
+    // last call in this function and we
+    // already changed the state.
+    _send(seller, _balance());
+  }
+
+  /// Confirm the purchase of the sender with a
+  /// `deposit` of `2 * value`, the variant takes the funds.
+  /// The deposit will be locked until confirmReceived
+  /// is called.
+  function _confirmPurchase(uint256 deposit)
+    internal
+    inState(State.Created)
+    condition(deposit == (2 * value))
+  {
+    if (msg.sender == arbiter) revert InvalidArbiter();
+    emit PurchaseConfirmed();
+    buyer = payable(msg.sender);
+    state = State.Locked;
+    lockedAt = block.timestamp;
+  }
+
+  /// Confirm that you (the seller) delivered the item.
+  /// This starts the confirmation period of the buyer.
+  function confirmDelivery() external onlySeller inState(State.Locked) {
+    if (deliveredAt != 0) revert AlreadyDelivered();
+    uint256 deadline = deliveryDeadline();
+    if (deadline != 0 && block.timestamp > deadline) revert TooLate(deadline);
+
+    emit ItemDelivered();
+    deliveredAt = block.timestamp;
+  }
+
+  /// Reclaim the deposits once the seller missed the
+  /// delivery deadline. Both parties get their deposit back,
+  /// either of them can trigger it.
+  function reclaimUndelivered() external inState(State.Locked) {
+    if (msg.sender != buyer && msg.sender != seller) revert OnlyParty();
+    if (deliveredAt != 0) revert AlreadyDelivered();
+    uint256 deadline = deliveryDeadline();
+    if (deadline == 0) revert NoDeadline();
+    if (block.timestamp <= deadline) revert TooEarly(deadline);
+
+    emit DeliveryTimedOut();
+    _settle(2 * value, 2 * value);
+    _withdraw(payable(msg.sender));
+  }
+
+  /// Release the funds once the buyer missed the
+  /// confirmation deadline, as if the buyer confirmed.
+  function claimUnconfirmed() external onlySeller inState(State.Locked) {
+    uint256 deadline = confirmationDeadline();
+    if (deadline == 0) revert NoDeadline();
+    if (block.timestamp <= deadline) revert TooEarly(deadline);
+
+    emit ConfirmationTimedOut();
+    _settle(value, 3 * value);
+    _withdraw(seller);
+  }
+
+  /// Hand the locked funds over to the arbiter, who has
+  /// `rulingPeriod` seconds to rule. Delivery and
+  /// confirmation deadlines no longer apply once disputed.
+  function dispute() external inState(State.Locked) {
+    if (arbiter == address(0)) revert NoArbiter();
+    if (msg.sender != buyer && msg.sender != seller) revert OnlyParty();
+
+    emit DisputeOpened(msg.sender);
+    state = State.Disputed;
+    disputedAt = block.timestamp;
+  }
+
+  /// Rule on the dispute: the buyer gets `buyerAmount`
+  /// of the locked funds and the seller the rest.
+  function resolveDispute(uint256 buyerAmount)
+    external
+    onlyArbiter
+    inState(State.Disputed)
+  {
+    uint256 deadline = rulingDeadline();
+    if (block.timestamp > deadline) revert TooLate(deadline);
+    uint256 lockedFunds = 4 * value;
+    if (buyerAmount > lockedFunds) revert InvalidSplit(lockedFunds);
+
+    emit DisputeResolved(buyerAmount, lockedFunds - buyerAmount);
+    _settle(buyerAmount, lockedFunds - buyerAmount);
+  }
+
+  /// Reclaim the deposits once the arbiter missed the
+  /// ruling deadline. Both parties get their deposit back.
+  function reclaimUnresolved() external inState(State.Disputed) {
+    if (msg.sender != buyer && msg.sender != seller) revert OnlyParty();
+    uint256 deadline = rulingDeadline();
+    if (block.timestamp <= deadline) revert TooEarly(deadline);
+
+    emit RulingTimedOut();
+    _settle(2 * value, 2 * value);
+    _withdraw(payable(msg.sender));
+  }
+
+  /// Withdraw the funds credited by a timeout or a ruling.
+  function withdraw() external {
+    _withdraw(payable(msg.sender));
+  }
+
+  /// Confirm that you (the buyer) received the item.
+  /// This will release the locked funds.
+  function confirmReceived() external onlyBuyer inState(State.Locked) {
+    emit ItemReceived();
+    // It is important to change the state first because
+    // otherwise, the contracts called using `send` below
+    // can call in again here.
+    state = State.Release;
+
+    _send(buyer, value);
+  }
+
+  /// This function refunds the seller, i.e.
+  /// pays back the locked funds of the seller.
+  function refundSeller() external onlySeller inState(State.Release) {
+    emit SellerRefunded();
+    // It is important to change the state first because
+    // otherwise, the contracts called using `send` below
+    // can call in again here.
+    state = State.Inactive;
+
+    _send(seller, 3 * value);
+  }
+
+  // End the purchase, crediting the locked funds. Each party
+  // withdraws its share, so one cannot block the other.
+  function _settle(uint256 buyerAmount, uint256 sellerAmount) private {
+    state = State.Inactive;
+    pendingWithdrawals[buyer] += buyerAmount;
+    pendingWithdrawals[seller] += sellerAmount;
+  }
+
+  function _withdraw(address payable to) private {
+    uint256 amount = pendingWithdrawals[to];
+    if (amount > 0) {
+      // It is important to set this to zero because the recipient
+      // can call `withdraw` again as part of the receiving call.
+      pendingWithdrawals[to] = 0;
+      _send(to, amount);
+    }
+  }
+
+  /// Send `amount` to `to`, revert on failure.
+  function _send(address payable to, uint256 amount) internal virtual;
+
+  /// Funds held by the purchase.
+  function _balance() internal view virtual returns (uint256);
+}
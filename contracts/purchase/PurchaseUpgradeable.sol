@@ -0,0 +1,32 @@
+// SPDX-License-Identifier: GPL-3.0
+
+pragma solidity ^0.8.4;
+
+import "./Purchase.sol";
+import "../proxy/Initializable.sol";
+
+/// @title Purchase deployed behind a proxy.
+contract PurchaseUpgradeable is Purchase, Initializable {
+  constructor() Purchase(payable(msg.sender), 0, 0, address(0), 0) {
+    _disableInitializers();
+  }
+
+  /// Create the purchase of the proxy, the caller deposits twice
+  /// the item value for `seller_`.
+  function initialize(
+    address payable seller_,
+    uint256 deliveryPeriod_,
+    uint256 confirmationPeriod_,
+    address arbiter_,
+    uint256 rulingPeriod_
+  ) external payable initializer {
+    _createPurchase(
+      seller_,
+      msg.value,
+      deliveryPeriod_,
+      confirmationPeriod_,
+      arbiter_,
+      rulingPeriod_
+    );
+  }
+}
@@ -0,0 +1,65 @@
+// SPDX-License-Identifier: GPL-3.0
+
+pragma solidity ^0.8.4;
+
+import "./PurchaseBase.sol";
+import "../token/SafeERC20.sol";
+
+/// @title Purchase with deposits paid in an ERC-20 token.
+contract TokenPurchase is PurchaseBase {
+  using SafeERC20 for IERC20;
+
+  IERC20 public token;
+
+  event Deposited();
+
+  /// Create a purchase paid in `token_`, Unfunded until
+  /// `seller_` pays `deposit_` tokens, twice the item
+  /// value, with `deposit`.
+  /// See Purchase for the other parameters.
+  constructor(
+    IERC20 token_,
+    address payable seller_,
+    uint256 deposit_,
+    uint256 deliveryPeriod_,
+    uint256 confirmationPeriod_,
+    address arbiter_,
+    uint256 rulingPeriod_
+  ) {
+    token = token_;
+    _createPurchase(
+      seller_,
+      deposit_,
+      deliveryPeriod_,
+      confirmationPeriod_,
+      arbiter_,
+      rulingPeriod_
+    );
+    state = State.Unfunded;
+  }
+
+  /// Pay the deposit as seller, `2 * value` tokens
+  /// approved beforehand. The purchase can be
+  /// confirmed or aborted afterwards.
+  function deposit() external onlySeller inState(State.Unfunded) {
+    emit Deposited();
+    state = State.Created;
+    token.safeTransferIn(msg.sender, 2 * value);
+  }
+
+  /// Confirm the purchase as buyer with a deposit of
+  /// `2 * value` tokens approved beforehand. The tokens
+  /// will be locked until confirmReceived is called.
+  function confirmPurchase() external {
+    _confirmPurchase(2 * value);
+    token.safeTransferIn(msg.sender, 2 * value);
+  }
+
+  function _send(address payable to, uint256 amount) internal override {
+    token.safeTransfer(to, amount);
+  }
+
+  function _balance() internal view override returns (uint256) {
+    return token.balanceOf(address(this));
+  }
+}
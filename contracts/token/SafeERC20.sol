@@ -0,0 +1,69 @@
+// SPDX-License-Identifier: GPL-3.0
+
+pragma solidity ^0.8.4;
+
+import "./IERC20.sol";
+
+/// A token call reverted or returned false.
+error TokenTransferFailed(address token);
+/// The contract received another amount than the
+/// one transferred, e.g. from a fee-on-transfer token.
+error TokenAmountMismatch(uint256 expected, uint256 received);
+
+/// @title Token transfers checking their outcome.
+/// Tokens returning nothing (e.g. USDT) are accepted,
+/// tokens returning false are not.
+library SafeERC20 {
+  /// Transfer `amount` tokens to `to`, revert on failure.
+  function safeTransfer(
+    IERC20 token,
+    address to,
+    uint256 amount
+  ) internal {
+    if (!trySafeTransfer(token, to, amount))
+      revert TokenTransferFailed(address(token));
+  }
+
+  /// Transfer `amount` tokens to `to`, return whether
+  /// the transfer succeeded.
+  function trySafeTransfer(
+    IERC20 token,
+    address to,
+    uint256 amount
+  ) internal returns (bool) {
+    return
+      _call(token, abi.encodeWithSelector(token.transfer.selector, to, amount));
+  }
+
+  /// Pull exactly `amount` tokens approved by `from`.
+  /// The balance is checked, so a fee-on-transfer token
+  /// cannot credit more than the contract received.
+  function safeTransferIn(
+    IERC20 token,
+    address from,
+    uint256 amount
+  ) internal {
+    uint256 balance = token.balanceOf(address(this));
+    if (
+      !_call(
+        token,
+        abi.encodeWithSelector(
+          token.transferFrom.selector,
+          from,
+          address(this),
+          amount
+        )
+      )
+    ) revert TokenTransferFailed(address(token));
+
+    uint256 received = token.balanceOf(address(this)) - balance;
+    if (received != amount) revert TokenAmountMismatch(amount, received);
+  }
+
+  function _call(IERC20 token, bytes memory data) private returns (bool) {
+    // A call to an address without code always succeeds.
+    if (address(token).code.length == 0) return false;
+    (bool success, bytes memory result) = address(token).call(data);
+    return success && (result.length == 0 || abi.decode(result, (bool)));
+  }
+}
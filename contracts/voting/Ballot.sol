@@ -29,10 +29,48 @@ contract Ballot {
   // A dynamically-sized array of `Proposal` structs.
   Proposal[] public proposals;
 
-  /// Create a new ballot to choose one of `proposalNames`.
-  constructor(bytes32[] memory proposalNames) {
-    chairperson = msg.sender;
+  // Votes are accepted until this unix timestamp,
+  // 0 when the ballot has no deadline.
+  uint256 public votingEndTime;
+
+  // Minimum number of votes for the result to be valid.
+  uint256 public quorum;
+
+  // Sum of the vote counts of every proposal.
+  uint256 public totalVotes;
+
+  event RightGiven(address indexed voter);
+  event Delegated(address indexed voter, address indexed to, uint256 weight);
+  event Voted(address indexed voter, uint256 indexed proposal, uint256 weight);
+
+  /// Create a new ballot to choose one of `proposalNames`,
+  /// chaired by `chairperson_`.
+  /// Voting lasts `votingTime` seconds, forever if 0, and
+  /// the result needs `quorum_` votes.
+  constructor(
+    address chairperson_,
+    bytes32[] memory proposalNames,
+    uint256 votingTime,
+    uint256 quorum_
+  ) {
+    _createBallot(chairperson_, proposalNames, votingTime, quorum_);
+  }
+
+  // Shared with `BallotUpgradeable.initialize`, the constructor
+  // does not run for the state of a proxy. The chairperson is
+  // explicit as `msg.sender` is the factory of a CREATE2 deployment.
+  function _createBallot(
+    address chairperson_,
+    bytes32[] memory proposalNames,
+    uint256 votingTime,
+    uint256 quorum_
+  ) internal {
+    chairperson = chairperson_;
     voters[chairperson].weight = 1;
+    if (votingTime > 0) {
+      votingEndTime = block.timestamp + votingTime;
+    }
+    quorum = quorum_;
 
     // For each of the provided proposal names,
     // create a new proposal object and add it
@@ -45,9 +83,26 @@ contract Ballot {
     }
   }
 
+  // Rights, delegations and votes are only accepted
+  // until the voting deadline, if any.
+  modifier beforeVotingEnd() {
+    require(!votingEnded(), "Voting has ended.");
+    _;
+  }
+
+  /// Whether the voting deadline has passed.
+  function votingEnded() public view returns (bool) {
+    return votingEndTime != 0 && block.timestamp > votingEndTime;
+  }
+
+  /// Whether enough votes were cast for the result to be valid.
+  function quorumReached() public view returns (bool) {
+    return totalVotes >= quorum;
+  }
+
   // Give `voter` the right to vote on this ballot.
   // May only be called by `chairperson`.
-  function giveRightToVote(address voter) external {
+  function giveRightToVote(address voter) external beforeVotingEnd {
     // If the first argument of `require` evaluates
     // to `false`, execution terminates and all
     // changes to the state and to Ether balances
@@ -65,10 +120,11 @@ contract Ballot {
     require(!voters[voter].voted, "The voter already voted.");
     require(voters[voter].weight == 0);
     voters[voter].weight = 1;
+    emit RightGiven(voter);
   }
 
   /// Delegate your vote to the voter `to`.
-  function delegate(address to) external {
+  function delegate(address to) external beforeVotingEnd {
     // assigns reference
     Voter storage sender = voters[msg.sender];
     require(!sender.voted, "You already voted.");
@@ -98,10 +154,12 @@ contract Ballot {
     require(delegate_.weight >= 1);
     sender.voted = true;
     sender.delegate = to;
+    emit Delegated(msg.sender, to, sender.weight);
     if (delegate_.voted) {
       // If the delegate already voted,
       // directly add to the number of votes
       proposals[delegate_.vote].voteCount += sender.weight;
+      totalVotes += sender.weight;
     } else {
       // If the delegate did not vote yet,
       // add to her weight.
@@ -111,7 +169,7 @@ contract Ballot {
 
   /// Give your vote (including votes delegated to you)
   /// to proposal `proposals[proposal].name`.
-  function vote(uint256 proposal) external {
+  function vote(uint256 proposal) external beforeVotingEnd {
     Voter storage sender = voters[msg.sender];
     require(sender.weight != 0, "Has no right to vote");
     require(!sender.voted, "Already voted.");
@@ -122,10 +180,13 @@ contract Ballot {
     // this will throw automatically and revert all
     // changes.
     proposals[proposal].voteCount += sender.weight;
+    totalVotes += sender.weight;
+    emit Voted(msg.sender, proposal, sender.weight);
   }
 
   /// @dev Computes the winning proposal taking all
-  /// previous votes into account.
+  /// previous votes into account. On a tie, this is the
+  /// lowest index, see `winningProposals` for every one.
   function winningProposal() public view returns (uint256 winningProposal_) {
     uint256 winningVoteCount = 0;
     for (uint256 p = 0; p < proposals.length; p++) {
@@ -142,4 +203,31 @@ contract Ballot {
   function winnerName() external view returns (bytes32 winnerName_) {
     winnerName_ = proposals[winningProposal()].name;
   }
+
+  /// Every proposal with the highest vote count, more than
+  /// one on a tie, and that vote count. All proposals are
+  /// tied with 0 votes before the first vote.
+  function winningProposals()
+    external
+    view
+    returns (uint256[] memory winningProposals_, uint256 winningVoteCount)
+  {
+    uint256 winnerCount = 0;
+    for (uint256 p = 0; p < proposals.length; p++) {
+      if (proposals[p].voteCount > winningVoteCount) {
+        winningVoteCount = proposals[p].voteCount;
+        winnerCount = 1;
+      } else if (proposals[p].voteCount == winningVoteCount) {
+        winnerCount++;
+      }
+    }
+
+    winningProposals_ = new uint256[](winnerCount);
+    uint256 w = 0;
+    for (uint256 p = 0; p < proposals.length; p++) {
+      if (proposals[p].voteCount == winningVoteCount) {
+        winningProposals_[w++] = p;
+      }
+    }
+  }
 }
@@ -0,0 +1,23 @@
+// SPDX-License-Identifier: GPL-3.0
+
+pragma solidity ^0.8.4;
+
+import "./Ballot.sol";
+import "../proxy/Initializable.sol";
+
+/// @title Ballot deployed behind a proxy.
+contract BallotUpgradeable is Ballot, Initializable {
+  constructor() Ballot(address(0), new bytes32[](0), 0, 0) {
+    _disableInitializers();
+  }
+
+  /// Create the ballot of the proxy, see Ballot for the parameters.
+  function initialize(
+    address chairperson_,
+    bytes32[] memory proposalNames,
+    uint256 votingTime,
+    uint256 quorum_
+  ) external initializer {
+    _createBallot(chairperson_, proposalNames, votingTime, quorum_);
+  }
+}
@@ -1,24 +1,48 @@
-import { HardhatUserConfig, NetworkUserConfig } from 'hardhat/types';
+import { HardhatUserConfig } from 'hardhat/types';
+import { HardhatPluginError } from 'hardhat/plugins';
 import '@nomiclabs/hardhat-waffle';
 import '@typechain/hardhat';
 import '@nomiclabs/hardhat-ethers';
 import 'solidity-coverage';
 import './tasks';
 import 'dotenv/config';
+import { getHardhatNetworks, loadNetworks } from './helpers/networks';
+import {
+	getTestDefaultNetwork,
+	getTestMode,
+	getTestNetworks,
+} from './helpers/testMode';
 
-const rinkeby_url = process.env.RINKEBY_URL;
-const account_private_key = process.env.ACCOUNT_PRIVATE_KEY as string;
-const rinkeby: NetworkUserConfig = {
-	url: rinkeby_url,
-	accounts: [account_private_key],
+// test networks of the `TEST_*` variables, and networks of
+// networks.config.json with values from .env
+const getNetworkConfig = (): Pick<
+	HardhatUserConfig,
+	'defaultNetwork' | 'networks'
+> => {
+	try {
+		const testMode = getTestMode();
+		return {
+			defaultNetwork: getTestDefaultNetwork(testMode),
+			networks: {
+				...getTestNetworks(testMode),
+				...getHardhatNetworks(loadNetworks()),
+			},
+		};
+	} catch (error) {
+		throw new HardhatPluginError('networks', (error as Error).message);
+	}
 };
 
 const config: HardhatUserConfig = {
-	defaultNetwork: 'hardhat',
+	...getNetworkConfig(),
 	solidity: {
 		compilers: [
 			{
 				version: '0.8.12',
+				settings: {
+					// checked before upgrading a proxy
+					outputSelection: { '*': { '*': ['storageLayout'] } },
+				},
 			},
 		],
 	},
@@ -26,16 +50,6 @@ const config: HardhatUserConfig = {
 		outDir: 'typechain',
 		target: 'ethers-v5',
 	},
-	networks: {
-		hardhat: {},
-		local: {
-			url: 'http://127.0.0.1:8545/',
-			accounts: [
-				'0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80',
-			],
-		},
-		...(rinkeby_url && account_private_key && { rinkeby }),
-	},
 };
 
 export default config;
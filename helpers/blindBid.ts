@@ -0,0 +1,340 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { BigNumber, BigNumberish, ContractTransaction, utils } from 'ethers';
+import type { BlindAuction } from '../typechain/BlindAuction';
+
+export interface BlindBidInterface {
+	value: BigNumberish;
+	fake: boolean;
+	secret: string; // bytes32 hex string
+}
+
+// arguments of `BlindAuction.reveal`, ordered like the bidder's on-chain bids
+export interface RevealArgsInterface {
+	values: BigNumberish[];
+	fakes: boolean[];
+	secrets: string[];
+}
+
+export interface BidBookEntryInterface {
+	auction: string;
+	bidder: string;
+	value: string;
+	fake: boolean;
+	secret: string;
+	deposit: string;
+	blindedBid: string;
+	// `unconfirmed` until the transaction is known to be sent, the bid may
+	// still be on chain when sending failed after the broadcast
+	status: 'unconfirmed' | 'sent';
+	transactionHash?: string;
+}
+
+export interface BidBookInterface {
+	bids: BidBookEntryInterface[];
+}
+
+interface EncryptedBidBookInterface {
+	version: number;
+	salt: string;
+	iv: string;
+	tag: string;
+	data: string;
+}
+
+const BID_BOOK_VERSION = 1;
+
+/**
+ * generate a random bytes32 secret
+ */
+export const generateSecret = () => utils.hexlify(crypto.randomBytes(32));
+
+/**
+ * commitment checked by `BlindAuction.reveal`:
+ * keccak256(abi.encodePacked(value, fake, secret))
+ * @param bid blind bid
+ */
+export const computeBlindedBid = ({ value, fake, secret }: BlindBidInterface) =>
+	utils.solidityKeccak256(
+		['uint256', 'bool', 'bytes32'],
+		[value, fake, secret]
+	);
+
+/**
+ * create a blind bid with a fresh random secret
+ * @param value bid value
+ * @param fake fake bids only hide real bids, their deposit is refunded
+ */
+export const createBlindBid = (
+	value: BigNumberish,
+	fake = false
+): BlindBidInterface => ({
+	value: BigNumber.from(value).toString(),
+	fake,
+	secret: generateSecret(),
+});
+
+const deriveKey = (password: string, salt: Buffer) =>
+	crypto.scryptSync(password, salt, 32);
+
+/**
+ * encrypt bid book with AES-256-GCM, key is derived from password by scrypt
+ * @param book bid book
+ * @param password password
+ */
+export const encryptBidBook = (
+	book: BidBookInterface,
+	password: string
+): EncryptedBidBookInterface => {
+	const salt = crypto.randomBytes(16);
+	const iv = crypto.randomBytes(12);
+	const cipher = crypto.createCipheriv(
+		'aes-256-gcm',
+		deriveKey(password, salt),
+		iv
+	);
+	const data = Buffer.concat([
+		cipher.update(JSON.stringify(book), 'utf8'),
+		cipher.final(),
+	]);
+
+	return {
+		version: BID_BOOK_VERSION,
+		salt: salt.toString('hex'),
+		iv: iv.toString('hex'),
+		tag: cipher.getAuthTag().toString('hex'),
+		data: data.toString('hex'),
+	};
+};
+
+/**
+ * decrypt bid book, throw if password is wrong or file was tampered with
+ * @param encrypted encrypted bid book
+ * @param password password
+ */
+export const decryptBidBook = (
+	encrypted: EncryptedBidBookInterface,
+	password: string
+): BidBookInterface => {
+	if (encrypted.version !== BID_BOOK_VERSION) {
+		throw new Error(`Unsupported bid book version ${encrypted.version}`);
+	}
+
+	const decipher = crypto.createDecipheriv(
+		'aes-256-gcm',
+		deriveKey(password, Buffer.from(encrypted.salt, 'hex')),
+		Buffer.from(encrypted.iv, 'hex')
+	);
+	decipher.setAuthTag(Buffer.from(encrypted.tag, 'hex'));
+
+	try {
+		const data = Buffer.concat([
+			decipher.update(Buffer.from(encrypted.data, 'hex')),
+			decipher.final(),
+		]);
+		return JSON.parse(data.toString('utf8'));
+	} catch (error) {
+		throw new Error('Cannot decrypt bid book, wrong password?');
+	}
+};
+
+/**
+ * read an encrypted bid book, return an empty book if file does not exist
+ * @param bookPath bid book file
+ * @param password password
+ */
+export const readBidBook = (
+	bookPath: string,
+	password: string
+): BidBookInterface => {
+	if (!fs.existsSync(bookPath)) {
+		return { bids: [] };
+	}
+
+	return decryptBidBook(
+		JSON.parse(fs.readFileSync(bookPath, 'utf8')),
+		password
+	);
+};
+
+/**
+ * write an encrypted bid book, the file is only readable by its owner
+ * @param bookPath bid book file
+ * @param password password
+ * @param book bid book
+ */
+export const writeBidBook = (
+	bookPath: string,
+	password: string,
+	book: BidBookInterface
+) => {
+	fs.mkdirSync(path.dirname(bookPath), { recursive: true });
+
+	// write to a temp file first, so a crash never leaves a broken book
+	const tempPath = `${bookPath}.tmp`;
+	fs.writeFileSync(
+		tempPath,
+		JSON.stringify(encryptBidBook(book, password), null, 2),
+		{ mode: 0o600 }
+	);
+	fs.renameSync(tempPath, bookPath);
+};
+
+/**
+ * bids of a bidder on an auction, in the order they were placed
+ * @param book bid book
+ * @param auction auction address
+ * @param bidder bidder address
+ */
+export const getBookBids = (
+	book: BidBookInterface,
+	auction: string,
+	bidder: string
+) =>
+	book.bids.filter(
+		(entry) =>
+			entry.auction.toLowerCase() === auction.toLowerCase() &&
+			entry.bidder.toLowerCase() === bidder.toLowerCase()
+	);
+
+/**
+ * record a blind bid in the bid book before sending it, then place it.
+ * The secret is saved first, so it is never lost even if the process dies.
+ * The entry is removed again only when the bid reverts in gas estimation,
+ * before anything is sent.
+ * @param auction BlindAuction connected to the bidder
+ * @param bid blind bid
+ * @param options deposit sent with the bid, bid book file and password
+ */
+export const placeBlindBid = async (
+	auction: BlindAuction,
+	bid: BlindBidInterface,
+	{
+		deposit,
+		bookPath,
+		password,
+	}: { deposit: BigNumberish; bookPath: string; password: string }
+): Promise<{ entry: BidBookEntryInterface; tx: ContractTransaction }> => {
+	const blindedBid = computeBlindedBid(bid);
+	const entry: BidBookEntryInterface = {
+		auction: auction.address,
+		bidder: await auction.signer.getAddress(),
+		value: BigNumber.from(bid.value).toString(),
+		fake: bid.fake,
+		secret: bid.secret,
+		deposit: BigNumber.from(deposit).toString(),
+		blindedBid,
+		status: 'unconfirmed',
+	};
+
+	const book = readBidBook(bookPath, password);
+	book.bids.push(entry);
+	writeBidBook(bookPath, password, book);
+
+	let gasLimit: BigNumber;
+	try {
+		gasLimit = await auction.estimateGas.bid(blindedBid, { value: deposit });
+	} catch (error) {
+		// the bid was not sent, drop its entry
+		book.bids.splice(book.bids.indexOf(entry), 1);
+		writeBidBook(bookPath, password, book);
+		throw error;
+	}
+
+	// a later error may come after the broadcast (timeout, provider error),
+	// the entry stays unconfirmed so a mined bid can still be revealed
+	const tx = await auction.bid(blindedBid, { value: deposit, gasLimit });
+	entry.status = 'sent';
+	entry.transactionHash = tx.hash;
+	writeBidBook(bookPath, password, book);
+
+	return { entry, tx };
+};
+
+/**
+ * build `reveal` arguments matching the on-chain bids one by one.
+ * Commitments without a known secret are filled with zeros, they are
+ * skipped by the contract and their deposit is not refunded.
+ * @param bids known bids of the bidder
+ * @param blindedBids on-chain commitments of the bidder, in order
+ */
+export const assembleRevealArgs = (
+	bids: BlindBidInterface[],
+	blindedBids: string[]
+): RevealArgsInterface & { missing: number[] } => {
+	const bidsByCommitment = new Map(
+		bids.map((bid) => [computeBlindedBid(bid), bid])
+	);
+	const revealArgs: RevealArgsInterface & { missing: number[] } = {
+		values: [],
+		fakes: [],
+		secrets: [],
+		missing: [],
+	};
+
+	blindedBids.forEach((blindedBid, index) => {
+		const bid = bidsByCommitment.get(blindedBid);
+
+		if (!bid) {
+			// already revealed commitments are reset to zero on chain
+			if (blindedBid !== utils.hexZeroPad('0x', 32)) {
+				revealArgs.missing.push(index);
+			}
+			revealArgs.values.push(0);
+			revealArgs.fakes.push(false);
+			revealArgs.secrets.push(utils.hexZeroPad('0x', 32));
+			return;
+		}
+
+		revealArgs.values.push(bid.value);
+		revealArgs.fakes.push(bid.fake);
+		revealArgs.secrets.push(bid.secret);
+	});
+
+	return revealArgs;
+};
+
+/**
+ * read the on-chain commitments of a bidder
+ * @param auction BlindAuction
+ * @param bidder bidder address
+ */
+export const getBlindedBids = async (auction: BlindAuction, bidder: string) => {
+	const blindedBids: string[] = [];
+
+	// `bids` is a public array getter without length, read until out of range.
+	// Any other error would leave bids out of the reveal and lose their deposit
+	for (let index = 0; ; index++) {
+		try {
+			const { blindedBid } = await auction.bids(bidder, index);
+			blindedBids.push(blindedBid);
+		} catch (error: any) {
+			// the getter reverts without data past the last bid
+			if (
+				error?.code === utils.Logger.errors.CALL_EXCEPTION &&
+				error.data === '0x'
+			) {
+				return blindedBids;
+			}
+			throw error;
+		}
+	}
+};
+
+/**
+ * build `reveal` arguments for the signer of `auction` from the bid book
+ * @param auction BlindAuction connected to the bidder
+ * @param book bid book
+ */
+export const getRevealArgs = async (
+	auction: BlindAuction,
+	book: BidBookInterface
+) => {
+	const bidder = await auction.signer.getAddress();
+
+	return assembleRevealArgs(
+		getBookBids(book, auction.address, bidder),
+		await getBlindedBids(auction, bidder)
+	);
+};
@@ -0,0 +1,40 @@
+import { format } from 'util';
+
+export interface CapturedConsoleInterface {
+	logs: string[]; // console.log lines, formatted as printed
+	errors: string[]; // console.error lines
+	tables: unknown[]; // data given to console.table
+	restore: () => void;
+}
+
+/**
+ * capture the console output of tasks until `restore` is called
+ */
+export const captureConsole = (): CapturedConsoleInterface => {
+	const { log, error, table } = console;
+	const captured: CapturedConsoleInterface = {
+		logs: [],
+		errors: [],
+		tables: [],
+		restore: () => Object.assign(console, { log, error, table }),
+	};
+
+	console.log = (...args: unknown[]) => {
+		captured.logs.push(format(...args));
+	};
+	console.error = (...args: unknown[]) => {
+		captured.errors.push(format(...args));
+	};
+	console.table = (data: unknown) => {
+		captured.tables.push(data);
+	};
+
+	return captured;
+};
+
+/**
+ * parse captured NDJSON lines
+ * @param logs captured console.log lines
+ */
+export const parseJsonLogs = (logs: string[]) =>
+	logs.map((line) => JSON.parse(line) as Record<string, any>);
@@ -0,0 +1,61 @@
+import { BigNumber, BigNumberish } from 'ethers';
+import type { DutchAuction } from '../typechain/DutchAuction';
+
+export interface DutchAuctionPriceParamsInterface {
+	startTime: BigNumberish;
+	startPrice: BigNumberish;
+	floorPrice: BigNumberish;
+	duration: BigNumberish; // seconds for the price to reach the floor
+	steps: BigNumberish; // equal price drops, 0 for a linear decrease
+}
+
+/**
+ * price computed by `DutchAuction.priceAt`, rounded the same way
+ * @param params price params of the auction
+ * @param timestamp unix timestamp in seconds
+ */
+export const getDutchAuctionPrice = (
+	params: DutchAuctionPriceParamsInterface,
+	timestamp: BigNumberish
+) => {
+	const startTime = BigNumber.from(params.startTime);
+	const startPrice = BigNumber.from(params.startPrice);
+	const floorPrice = BigNumber.from(params.floorPrice);
+	const duration = BigNumber.from(params.duration);
+	const steps = BigNumber.from(params.steps);
+	const time = BigNumber.from(timestamp);
+
+	if (time.lte(startTime)) {
+		return startPrice;
+	}
+	const elapsed = time.sub(startTime);
+	if (elapsed.gte(duration)) {
+		return floorPrice;
+	}
+
+	const drop = startPrice.sub(floorPrice);
+	if (steps.isZero()) {
+		return startPrice.sub(drop.mul(elapsed).div(duration));
+	}
+	const dropped = elapsed.mul(steps).div(duration);
+	return startPrice.sub(drop.mul(dropped).div(steps));
+};
+
+/**
+ * read the price params of a deployed auction
+ * @param auction DutchAuction
+ */
+export const getDutchAuctionPriceParams = async (
+	auction: DutchAuction
+): Promise<DutchAuctionPriceParamsInterface> => {
+	const [startTime, startPrice, floorPrice, duration, steps] =
+		await Promise.all([
+			auction.startTime(),
+			auction.startPrice(),
+			auction.floorPrice(),
+			auction.duration(),
+			auction.steps(),
+		]);
+
+	return { startTime, startPrice, floorPrice, duration, steps };
+};
@@ -0,0 +1,482 @@
+import { ethers } from 'hardhat';
+import { BigNumberish, constants } from 'ethers';
+import { SignerWithAddress } from '@nomiclabs/hardhat-ethers/signers';
+import { AuctionFactory } from '../typechain/AuctionFactory';
+import { Ballot } from '../typechain/Ballot';
+import { BlindAuction } from '../typechain/BlindAuction';
+import { Counter } from '../typechain/Counter';
+import { DutchAuction } from '../typechain/DutchAuction';
+import { ERC20FeeOnTransferMock } from '../typechain/ERC20FeeOnTransferMock';
+import { ERC20Mock } from '../typechain/ERC20Mock';
+import { IERC20 } from '../typechain/IERC20';
+import { Purchase } from '../typechain/Purchase';
+import { SimpleAuction } from '../typechain/SimpleAuction';
+import { TokenBlindAuction } from '../typechain/TokenBlindAuction';
+import { TokenPurchase } from '../typechain/TokenPurchase';
+import { TokenSimpleAuction } from '../typechain/TokenSimpleAuction';
+import type { PurchaseTermsInterface } from '../scripts/deploy/purchase.deploy';
+import type { SimpleAuctionRulesInterface } from '../scripts/deploy/simpleAuction.deploy';
+import { canFastForward, revert, snapshot } from './time';
+
+export interface NamedSignersInterface {
+	deployer: SignerWithAddress;
+	chairperson: SignerWithAddress; // Ballot chairperson
+	seller: SignerWithAddress; // Purchase seller
+	buyer: SignerWithAddress; // Purchase buyer
+	beneficiary: SignerWithAddress; // auctions beneficiary
+	bidders: SignerWithAddress[];
+	voters: SignerWithAddress[];
+	all: SignerWithAddress[];
+}
+
+export interface FixtureInterface {
+	signers: NamedSignersInterface;
+	counter: Counter;
+	ballot: Ballot;
+	simpleAuction: SimpleAuction;
+	blindAuction: BlindAuction;
+	dutchAuction: DutchAuction;
+	auctionFactory: AuctionFactory;
+	purchase: Purchase;
+}
+
+export interface TokenFixtureInterface {
+	signers: NamedSignersInterface;
+	token: ERC20Mock; // every signer holds `tokenBalance`
+	tokenSimpleAuction: TokenSimpleAuction;
+	tokenBlindAuction: TokenBlindAuction;
+	tokenPurchase: TokenPurchase;
+}
+
+// durations are short in real time, tests wait for them
+export const fixtureParams = {
+	proposalNames: ['name 1', 'name 2', 'name 3'],
+	ballotVotingTime: canFastForward() ? 600 : 15, // ballots with a deadline
+	simpleAuctionBiddingTime: canFastForward() ? 3600 : 20, // 1h
+	simpleAuctionSoftCloseWindow: canFastForward() ? 300 : 10, // auctions with a soft close
+	blindAuctionBiddingTime: canFastForward() ? 600 : 15,
+	blindAuctionRevealTime: canFastForward() ? 600 : 15,
+	dutchAuctionStartPrice: 1000,
+	dutchAuctionFloorPrice: 100,
+	dutchAuctionDuration: canFastForward() ? 3600 : 20, // price reaches the floor
+	purchaseValue: 5, // seller deposits 2 * value
+	purchaseDeliveryPeriod: canFastForward() ? 86400 : 15, // purchases with deadlines
+	purchaseConfirmationPeriod: canFastForward() ? 86400 : 15,
+	purchaseRulingPeriod: canFastForward() ? 86400 : 15, // purchases with an arbiter
+	tokenBalance: 1000000, // minted to every signer by the token fixture
+};
+
+/**
+ * name the hardhat accounts by their role in the contracts:
+ * signer 0 deploys everything, signers 1-5 bid and vote, signer 10 is beneficiary
+ */
+export const getNamedSigners = async (): Promise<NamedSignersInterface> => {
+	const signers = await ethers.getSigners();
+
+	return {
+		deployer: signers[0],
+		chairperson: signers[0],
+		seller: signers[0],
+		buyer: signers[1],
+		beneficiary: signers[10],
+		bidders: signers.slice(1, 6),
+		voters: signers.slice(1, 6),
+		all: signers,
+	};
+};
+
+export const deployCounter = async (signer?: SignerWithAddress) => {
+	const factory = await ethers.getContractFactory('Counter', signer);
+	const counter = (await factory.deploy()) as Counter;
+	await counter.deployed();
+	return counter;
+};
+
+export const deployBallot = async (
+	proposalNames: string[],
+	signer?: SignerWithAddress,
+	votingTime: BigNumberish = 0, // no deadline
+	quorum: BigNumberish = 0
+) => {
+	const factory = await ethers.getContractFactory('Ballot', signer);
+	const ballot = (await factory.deploy(
+		await factory.signer.getAddress(),
+		proposalNames.map((name) => ethers.utils.formatBytes32String(name)),
+		votingTime,
+		quorum
+	)) as Ballot;
+	await ballot.deployed();
+	return ballot;
+};
+
+/**
+ * @param biddingTime bidding time in seconds
+ * @param beneficiaryAddress beneficiary of the highest bid
+ * @param signer deployer
+ * @param rules rules of the bids, disabled by default
+ */
+export const deploySimpleAuction = async (
+	biddingTime: BigNumberish,
+	beneficiaryAddress: string,
+	signer?: SignerWithAddress,
+	{
+		reservePrice = 0,
+		minIncrement = 0,
+		minIncrementPercent = 0,
+		softCloseWindow = 0,
+	}: SimpleAuctionRulesInterface = {}
+) => {
+	const factory = await ethers.getContractFactory('SimpleAuction', signer);
+	const auction = (await factory.deploy(
+		biddingTime,
+		beneficiaryAddress,
+		reservePrice,
+		minIncrement,
+		minIncrementPercent,
+		softCloseWindow
+	)) as SimpleAuction;
+	await auction.deployed();
+	return auction;
+};
+
+export const deployBlindAuction = async (
+	biddingTime: BigNumberish,
+	revealTime: BigNumberish,
+	beneficiaryAddress: string,
+	signer?: SignerWithAddress
+) => {
+	const factory = await ethers.getContractFactory('BlindAuction', signer);
+	const auction = (await factory.deploy(
+		biddingTime,
+		revealTime,
+		beneficiaryAddress
+	)) as BlindAuction;
+	await auction.deployed();
+	return auction;
+};
+
+/**
+ * @param startPrice price at deployment
+ * @param floorPrice price after `duration`
+ * @param duration seconds for the price to reach the floor
+ * @param steps equal price drops, 0 for a linear decrease
+ * @param beneficiaryAddress beneficiary of the sale
+ * @param signer deployer
+ */
+export const deployDutchAuction = async (
+	startPrice: BigNumberish,
+	floorPrice: BigNumberish,
+	duration: BigNumberish,
+	steps: BigNumberish,
+	beneficiaryAddress: string,
+	signer?: SignerWithAddress
+) => {
+	const factory = await ethers.getContractFactory('DutchAuction', signer);
+	const auction = (await factory.deploy(
+		startPrice,
+		floorPrice,
+		duration,
+		steps,
+		beneficiaryAddress
+	)) as DutchAuction;
+	await auction.deployed();
+	return auction;
+};
+
+export const deployAuctionFactory = async (signer?: SignerWithAddress) => {
+	const factory = await ethers.getContractFactory('AuctionFactory', signer);
+	const auctionFactory = (await factory.deploy()) as AuctionFactory;
+	await auctionFactory.deployed();
+	return auctionFactory;
+};
+
+/**
+ * @param value item value, the seller deposits `2 * value`
+ * @param signer seller
+ * @param terms deadlines and arbiter, disabled by default except the
+ * ruling period
+ */
+export const deployPurchase = async (
+	value: BigNumberish,
+	signer?: SignerWithAddress,
+	{
+		deliveryPeriod = 0,
+		confirmationPeriod = 0,
+		arbiterAddress = constants.AddressZero,
+		rulingPeriod = fixtureParams.purchaseRulingPeriod,
+	}: PurchaseTermsInterface = {}
+) => {
+	const factory = await ethers.getContractFactory('Purchase', signer);
+	const purchase = (await factory.deploy(
+		await factory.signer.getAddress(),
+		deliveryPeriod,
+		confirmationPeriod,
+		arbiterAddress,
+		rulingPeriod,
+		{ value: ethers.BigNumber.from(value).mul(2) }
+	)) as Purchase;
+	await purchase.deployed();
+	return purchase;
+};
+
+export const deployERC20Mock = async (
+	signer?: SignerWithAddress,
+	name = 'Mock Token',
+	symbol = 'MOCK'
+) => {
+	const factory = await ethers.getContractFactory('ERC20Mock', signer);
+	const token = (await factory.deploy(name, symbol)) as ERC20Mock;
+	await token.deployed();
+	return token;
+};
+
+/**
+ * @param feePercent part of every transfer burnt by the token
+ * @param signer deployer
+ */
+export const deployERC20FeeOnTransferMock = async (
+	feePercent: BigNumberish,
+	signer?: SignerWithAddress
+) => {
+	const factory = await ethers.getContractFactory(
+		'ERC20FeeOnTransferMock',
+		signer
+	);
+	const token = (await factory.deploy(
+		'Fee Token',
+		'FEE',
+		feePercent
+	)) as ERC20FeeOnTransferMock;
+	await token.deployed();
+	return token;
+};
+
+/**
+ * @param tokenAddress ERC-20 paying the bids
+ * @param biddingTime bidding time in seconds
+ * @param beneficiaryAddress beneficiary of the highest bid
+ * @param signer deployer
+ * @param rules rules of the bids, disabled by default
+ */
+export const deployTokenSimpleAuction = async (
+	tokenAddress: string,
+	biddingTime: BigNumberish,
+	beneficiaryAddress: string,
+	signer?: SignerWithAddress,
+	{
+		reservePrice = 0,
+		minIncrement = 0,
+		minIncrementPercent = 0,
+		softCloseWindow = 0,
+	}: SimpleAuctionRulesInterface = {}
+) => {
+	const factory = await ethers.getContractFactory('TokenSimpleAuction', signer);
+	const auction = (await factory.deploy(
+		tokenAddress,
+		biddingTime,
+		beneficiaryAddress,
+		reservePrice,
+		minIncrement,
+		minIncrementPercent,
+		softCloseWindow
+	)) as TokenSimpleAuction;
+	await auction.deployed();
+	return auction;
+};
+
+export const deployTokenBlindAuction = async (
+	tokenAddress: string,
+	biddingTime: BigNumberish,
+	revealTime: BigNumberish,
+	beneficiaryAddress: string,
+	signer?: SignerWithAddress
+) => {
+	const factory = await ethers.getContractFactory('TokenBlindAuction', signer);
+	const auction = (await factory.deploy(
+		tokenAddress,
+		biddingTime,
+		revealTime,
+		beneficiaryAddress
+	)) as TokenBlindAuction;
+	await auction.deployed();
+	return auction;
+};
+
+/**
+ * deploy a purchase, then approve and pay the deposit of the seller
+ * @param tokenAddress ERC-20 paying the deposits, the seller holds `2 * value`
+ * @param value item value, the seller deposits `2 * value`
+ * @param signer seller
+ * @param terms deadlines and arbiter, disabled by default except the
+ * ruling period
+ */
+export const deployTokenPurchase = async (
+	tokenAddress: string,
+	value: BigNumberish,
+	signer: SignerWithAddress,
+	{
+		deliveryPeriod = 0,
+		confirmationPeriod = 0,
+		arbiterAddress = constants.AddressZero,
+		rulingPeriod = fixtureParams.purchaseRulingPeriod,
+	}: PurchaseTermsInterface = {}
+) => {
+	const token = (await ethers.getContractAt(
+		'IERC20',
+		tokenAddress,
+		signer
+	)) as IERC20;
+	const deposit = ethers.BigNumber.from(value).mul(2);
+
+	const factory = await ethers.getContractFactory('TokenPurchase', signer);
+	const purchase = (await factory.deploy(
+		tokenAddress,
+		signer.address,
+		deposit,
+		deliveryPeriod,
+		confirmationPeriod,
+		arbiterAddress,
+		rulingPeriod
+	)) as TokenPurchase;
+	await purchase.deployed();
+	await (await token.approve(purchase.address, deposit)).wait();
+	await (await purchase.deposit()).wait();
+	return purchase;
+};
+
+/**
+ * deploy every contract with `fixtureParams`
+ */
+export const deployFixture = async (): Promise<FixtureInterface> => {
+	const signers = await getNamedSigners();
+	const {
+		proposalNames,
+		simpleAuctionBiddingTime,
+		blindAuctionBiddingTime,
+		blindAuctionRevealTime,
+		dutchAuctionStartPrice,
+		dutchAuctionFloorPrice,
+		dutchAuctionDuration,
+		purchaseValue,
+	} = fixtureParams;
+
+	return {
+		signers,
+		counter: await deployCounter(signers.deployer),
+		ballot: await deployBallot(proposalNames, signers.chairperson),
+		simpleAuction: await deploySimpleAuction(
+			simpleAuctionBiddingTime,
+			signers.beneficiary.address,
+			signers.deployer
+		),
+		blindAuction: await deployBlindAuction(
+			blindAuctionBiddingTime,
+			blindAuctionRevealTime,
+			signers.beneficiary.address,
+			signers.deployer
+		),
+		dutchAuction: await deployDutchAuction(
+			dutchAuctionStartPrice,
+			dutchAuctionFloorPrice,
+			dutchAuctionDuration,
+			0,
+			signers.beneficiary.address,
+			signers.deployer
+		),
+		auctionFactory: await deployAuctionFactory(signers.deployer),
+		purchase: await deployPurchase(purchaseValue, signers.seller),
+	};
+};
+
+/**
+ * deploy a mock token minted to every signer and the token variants paid
+ * with it, with `fixtureParams`
+ */
+export const deployTokenFixture = async (): Promise<TokenFixtureInterface> => {
+	const signers = await getNamedSigners();
+	const {
+		simpleAuctionBiddingTime,
+		blindAuctionBiddingTime,
+		blindAuctionRevealTime,
+		purchaseValue,
+		tokenBalance,
+	} = fixtureParams;
+	const token = await deployERC20Mock(signers.deployer);
+	for (const { address } of signers.all) {
+		await (await token.mint(address, tokenBalance)).wait();
+	}
+
+	return {
+		signers,
+		token,
+		tokenSimpleAuction: await deployTokenSimpleAuction(
+			token.address,
+			simpleAuctionBiddingTime,
+			signers.beneficiary.address,
+			signers.deployer
+		),
+		tokenBlindAuction: await deployTokenBlindAuction(
+			token.address,
+			blindAuctionBiddingTime,
+			blindAuctionRevealTime,
+			signers.beneficiary.address,
+			signers.deployer
+		),
+		tokenPurchase: await deployTokenPurchase(
+			token.address,
+			purchaseValue,
+			signers.seller
+		),
+	};
+};
+
+/**
+ * register mocha hooks which run `deploy` once per `describe` block and
+ * revert the chain to the deployed state before every test.
+ * In real time, or on a node without snapshots, `deploy` runs before every
+ * test instead, since a reverted chain keeps the time spent by earlier tests.
+ * Values are available inside hooks and tests through the returned getter.
+ * @param deploy fixture function, default deploys every contract
+ */
+export const useFixture = <T = FixtureInterface>(
+	deploy: () => Promise<T> = deployFixture as unknown as () => Promise<T>
+) => {
+	let fixture: T;
+	let snapshotId: string | undefined;
+	let fresh = false; // deployed and not used by a test yet
+
+	const trySnapshot = async () => {
+		try {
+			return await snapshot();
+		} catch {
+			return undefined; // evm_snapshot is not supported
+		}
+	};
+
+	before(async () => {
+		fixture = await deploy();
+		fresh = true;
+		snapshotId = canFastForward() ? await trySnapshot() : undefined;
+	});
+
+	beforeEach(async () => {
+		if (snapshotId === undefined) {
+			if (!fresh) {
+				fixture = await deploy();
+			}
+			fresh = false;
+			return;
+		}
+		// a snapshot can only be reverted once, take a new one right after
+		await revert(snapshotId);
+		snapshotId = await snapshot();
+	});
+
+	after(async () => {
+		if (snapshotId !== undefined) {
+			await revert(snapshotId);
+		}
+	});
+
+	return () => fixture;
+};
@@ -0,0 +1,272 @@
+import fs from 'fs';
+import path from 'path';
+import { BigNumber, ContractReceipt, ContractTransaction, utils } from 'ethers';
+import * as typechain from '../typechain';
+
+export const GAS_BUDGETS_PATH = path.join(__dirname, '../gas-budgets.json');
+export const GAS_REPORT_PATH = path.join(__dirname, '../gas-report.json');
+
+export interface GasStatsInterface {
+	calls: number;
+	min: number;
+	max: number;
+	avg: number;
+}
+
+export interface GasBudgetsInterface {
+	tolerance: number; // allowed ratio above budget, e.g. 0.05 for 5%
+	budgets: Record<string, number>; // `Contract.method` or sized key => gas
+}
+
+export interface GasBudgetResultInterface {
+	key: string;
+	budget: number;
+	max?: number; // undefined when the key was not measured
+	status: 'ok' | 'over' | 'missing';
+}
+
+interface RequestProviderInterface {
+	request: (args: { method: string; params?: any[] }) => Promise<any>;
+	send: (method: string, params?: any[]) => Promise<any>;
+}
+
+// gas used by every call, by `Contract.method`
+const gasUsage: Record<string, number[]> = {};
+
+/**
+ * record the gas used by a transaction
+ * @param key `Contract.method`, or a sized key such as `Ballot.delegate(chain=3)`
+ * @param gasUsed gas used
+ */
+export const recordGas = (key: string, gasUsed: BigNumber | number) => {
+	gasUsage[key] = (gasUsage[key] ?? []).concat(
+		BigNumber.from(gasUsed).toNumber()
+	);
+};
+
+/**
+ * wait for a transaction and record its gas under an explicit key, to
+ * measure a function at several input sizes
+ * @param key sized key, e.g. `BlindAuction.reveal(bids=5)`
+ * @param tx sent transaction
+ */
+export const measureGas = async (
+	key: string,
+	tx: ContractTransaction | Promise<ContractTransaction>
+): Promise<ContractReceipt> => {
+	const receipt = await (await tx).wait();
+	recordGas(key, receipt.gasUsed);
+	return receipt;
+};
+
+/**
+ * interfaces and creation bytecodes of every compiled contract
+ */
+const getCompiledContracts = () =>
+	Object.entries(typechain)
+		.filter(([name]) => name.endsWith('__factory'))
+		.map(([name, factory]) => {
+			const { abi, bytecode } = factory as unknown as {
+				abi: any[];
+				bytecode?: string;
+			};
+			return {
+				contractName: name.slice(0, -'__factory'.length),
+				iface: new utils.Interface(abi),
+				// abstract contracts have no bytecode
+				bytecode: bytecode?.toLowerCase(),
+			};
+		});
+
+/**
+ * record the gas of every mined transaction sent through a hardhat provider,
+ * contracts are named from their deployment or from the function selector
+ * @param provider `hre.network.provider`
+ * @return function restoring the provider
+ */
+export const startGasTracking = (provider: RequestProviderInterface) => {
+	const contracts = getCompiledContracts();
+	const deployedContracts: Record<string, string> = {}; // address => name
+	const { request, send } = provider;
+
+	const getFunctionKey = (to: string | null, input: string) => {
+		if (to === null) {
+			const deployed = contracts.find(
+				({ bytecode }) =>
+					bytecode !== undefined && input.toLowerCase().startsWith(bytecode)
+			);
+			return deployed && `${deployed.contractName}.deploy`;
+		}
+
+		const selector = input.slice(0, 10);
+		const contractName = deployedContracts[to.toLowerCase()];
+		for (const { contractName: name, iface } of contracts) {
+			if (contractName !== undefined && name !== contractName) {
+				continue;
+			}
+			try {
+				return `${name}.${iface.getFunction(selector).name}`;
+			} catch {
+				// selector not in this contract
+			}
+		}
+		return undefined;
+	};
+
+	const track = async (method: string, result: any) => {
+		if (
+			method !== 'eth_sendTransaction' &&
+			method !== 'eth_sendRawTransaction'
+		) {
+			return;
+		}
+
+		const [tx, receipt] = await Promise.all([
+			request.call(provider, {
+				method: 'eth_getTransactionByHash',
+				params: [result],
+			}),
+			request.call(provider, {
+				method: 'eth_getTransactionReceipt',
+				params: [result],
+			}),
+		]);
+		// not mined yet (automine disabled) or plain ether transfer
+		if (!receipt || !tx || tx.input === '0x') {
+			return;
+		}
+
+		const key = getFunctionKey(tx.to, tx.input);
+		if (key === undefined) {
+			return;
+		}
+		if (receipt.contractAddress) {
+			deployedContracts[receipt.contractAddress.toLowerCase()] = key.slice(
+				0,
+				-'.deploy'.length
+			);
+		}
+		recordGas(key, BigNumber.from(receipt.gasUsed));
+	};
+
+	provider.request = async (args) => {
+		const result = await request.call(provider, args);
+		await track(args.method, result);
+		return result;
+	};
+	provider.send = async (method, params) => {
+		const result = await send.call(provider, method, params);
+		await track(method, result);
+		return result;
+	};
+
+	return () => {
+		provider.request = request;
+		provider.send = send;
+	};
+};
+
+/**
+ * min/max/average gas of every recorded key
+ */
+export const getGasStats = () =>
+	Object.keys(gasUsage)
+		.sort()
+		.reduce<Record<string, GasStatsInterface>>((stats, key) => {
+			const values = gasUsage[key];
+			stats[key] = {
+				calls: values.length,
+				min: Math.min(...values),
+				max: Math.max(...values),
+				avg: Math.round(
+					values.reduce((sum, value) => sum + value, 0) / values.length
+				),
+			};
+			return stats;
+		}, {});
+
+export const readGasBudgets = (
+	budgetsPath = GAS_BUDGETS_PATH
+): GasBudgetsInterface =>
+	fs.existsSync(budgetsPath)
+		? JSON.parse(fs.readFileSync(budgetsPath, 'utf8'))
+		: { tolerance: 0.05, budgets: {} };
+
+/**
+ * compare the max gas of every budgeted key with its budget
+ * @param stats gas stats
+ * @param budgets gas budgets
+ */
+export const checkGasBudgets = (
+	stats: Record<string, GasStatsInterface>,
+	{ tolerance, budgets }: GasBudgetsInterface
+): GasBudgetResultInterface[] =>
+	Object.keys(budgets).map((key) => {
+		const budget = budgets[key];
+		const max = stats[key]?.max;
+		if (max === undefined) {
+			return { key, budget, status: 'missing' };
+		}
+		return {
+			key,
+			budget,
+			max,
+			status: max > budget * (1 + tolerance) ? 'over' : 'ok',
+		};
+	});
+
+/**
+ * print the gas table, write the JSON snapshot and check the budgets
+ * @param options `update` rewrites the budgets with the measured max gas
+ * @return keys above their budget
+ */
+export const reportGas = ({
+	budgetsPath = GAS_BUDGETS_PATH,
+	reportPath = GAS_REPORT_PATH,
+	update = false,
+} = {}) => {
+	const stats = getGasStats();
+	const gasBudgets = readGasBudgets(budgetsPath);
+
+	if (update) {
+		gasBudgets.budgets = Object.keys(stats).reduce<Record<string, number>>(
+			(budgets, key) => {
+				budgets[key] = stats[key].max;
+				return budgets;
+			},
+			{}
+		);
+		fs.writeFileSync(budgetsPath, JSON.stringify(gasBudgets, null, 2) + '\n');
+	}
+
+	const results = checkGasBudgets(stats, gasBudgets);
+	const budgetOf = (key: string) =>
+		results.find((result) => result.key === key);
+
+	console.log('\n### Gas usage ###');
+	console.table(
+		Object.keys(stats).map((key) => ({
+			function: key,
+			...stats[key],
+			budget: budgetOf(key)?.budget ?? '-',
+			status: budgetOf(key)?.status ?? '-',
+		}))
+	);
+	fs.writeFileSync(reportPath, JSON.stringify(stats, null, 2) + '\n');
+	console.log(`Gas report: ${reportPath}`);
+
+	results
+		.filter(({ status }) => status === 'missing')
+		.forEach(({ key }) => console.warn(`No gas measured for budget ${key}`));
+
+	const over = results.filter(({ status }) => status === 'over');
+	over.forEach(({ key, max, budget }) =>
+		console.error(
+			`Gas of ${key} is ${max}, above its budget ${budget} by more than ${
+				gasBudgets.tolerance * 100
+			}%`
+		)
+	);
+
+	return over;
+};
@@ -0,0 +1,360 @@
+import fs from 'fs';
+import path from 'path';
+import { utils } from 'ethers';
+import { HttpNetworkUserConfig, Network } from 'hardhat/types';
+
+declare module 'hardhat/types/config' {
+	interface HttpNetworkUserConfig {
+		confirmations?: number;
+		verify?: NetworkVerifyInterface;
+	}
+	interface HttpNetworkConfig {
+		confirmations?: number;
+		verify?: NetworkVerifyInterface;
+	}
+}
+
+export const NETWORKS_CONFIG_PATH = path.join(
+	__dirname,
+	'../networks.config.json'
+);
+
+// names of the networks provided by hardhat
+const reservedNetworkNames = ['hardhat', 'localhost'];
+
+export interface NetworkMnemonicAccountsInterface {
+	mnemonic: string;
+	path?: string; // HD path, hardhat default `m/44'/60'/0'/0`
+	initialIndex?: number;
+	count?: number;
+	passphrase?: string;
+}
+
+// `remote` uses the accounts of the node, an array holds private keys
+export type NetworkAccountsType =
+	| 'remote'
+	| string[]
+	| NetworkMnemonicAccountsInterface;
+
+// Etherscan-compatible API used by the `verify` task
+export interface NetworkVerifyInterface {
+	apiUrl: string;
+	apiKeyEnv?: string; // variable holding the API key, `ETHERSCAN_API_KEY` by default
+}
+
+export interface NetworkEntryInterface {
+	url: string;
+	chainId?: number; // checked by hardhat against the node
+	accounts?: NetworkAccountsType;
+	confirmations?: number; // blocks waited by deploy scripts and tasks
+	gas?: 'auto' | number;
+	gasPrice?: 'auto' | number; // in wei
+	gasMultiplier?: number;
+	timeout?: number; // in ms
+	verify?: NetworkVerifyInterface;
+}
+
+export interface NetworkRegistryInterface {
+	networks: Record<string, NetworkEntryInterface>;
+}
+
+export interface LoadedNetworkInterface {
+	name: string;
+	entry?: NetworkEntryInterface; // undefined when the network has errors
+	errors: string[];
+}
+
+type ValidatorType = (value: unknown, key: string) => string[];
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+	typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isString: ValidatorType = (value, key) =>
+	typeof value === 'string' ? [] : [`${key} must be a string`];
+
+const isInteger =
+	(min: number): ValidatorType =>
+	(value, key) =>
+		Number.isInteger(value) && (value as number) >= min
+			? []
+			: [`${key} must be an integer >= ${min}`];
+
+const isPositiveNumber: ValidatorType = (value, key) =>
+	typeof value === 'number' && value > 0
+		? []
+		: [`${key} must be a positive number`];
+
+const isAutoOr =
+	(validator: ValidatorType): ValidatorType =>
+	(value, key) =>
+		value === 'auto' ? [] : validator(value, key).map((e) => `${e} or "auto"`);
+
+/**
+ * validate an object against a schema, every key is optional unless listed
+ * as required and unknown keys are rejected
+ */
+const validateObject = <T>(
+	value: unknown,
+	key: string,
+	schema: Record<keyof T, ValidatorType>,
+	required: (keyof T)[] = []
+) => {
+	if (!isPlainObject(value)) {
+		return [`${key} must be an object`];
+	}
+
+	return [
+		...required
+			.filter((name) => value[name as string] === undefined)
+			.map((name) => `${key}.${String(name)} is required`),
+		...Object.keys(value).reduce<string[]>(
+			(errors, name) =>
+				errors.concat(
+					schema[name as keyof T]
+						? schema[name as keyof T](value[name], `${key}.${name}`)
+						: [`${key}.${name} is not a known setting`]
+				),
+			[]
+		),
+	];
+};
+
+const mnemonicAccountsSchema: Record<
+	keyof NetworkMnemonicAccountsInterface,
+	ValidatorType
+> = {
+	mnemonic: isString,
+	path: isString,
+	initialIndex: isInteger(0),
+	count: isInteger(1),
+	passphrase: isString,
+};
+
+const isAccounts: ValidatorType = (value, key) => {
+	if (value === 'remote') {
+		return [];
+	}
+	if (Array.isArray(value)) {
+		return value.reduce<string[]>(
+			(errors, privateKey, index) =>
+				errors.concat(isString(privateKey, `${key}[${index}]`)),
+			[]
+		);
+	}
+	if (isPlainObject(value)) {
+		return validateObject<NetworkMnemonicAccountsInterface>(
+			value,
+			key,
+			mnemonicAccountsSchema,
+			['mnemonic']
+		);
+	}
+	return [`${key} must be "remote", a list of private keys or a mnemonic`];
+};
+
+const verifySchema: Record<keyof NetworkVerifyInterface, ValidatorType> = {
+	apiUrl: isString,
+	apiKeyEnv: isString,
+};
+
+const networkSchema: Record<keyof NetworkEntryInterface, ValidatorType> = {
+	url: isString,
+	chainId: isInteger(1),
+	accounts: isAccounts,
+	confirmations: isInteger(1),
+	gas: isAutoOr(isInteger(21000)),
+	gasPrice: isAutoOr(isInteger(0)),
+	gasMultiplier: isPositiveNumber,
+	timeout: isInteger(1),
+	verify: (value, key) =>
+		validateObject<NetworkVerifyInterface>(value, key, verifySchema, [
+			'apiUrl',
+		]),
+};
+
+/**
+ * replace `${VAR}` in every string of a value with the environment
+ * @param value value of the config file
+ * @param env environment variables
+ * @param missing names of the variables not set, filled by the function
+ */
+const resolveEnv = (
+	value: unknown,
+	env: NodeJS.ProcessEnv,
+	missing: string[]
+): unknown => {
+	if (typeof value === 'string') {
+		return value.replace(/\$\{(\w+)\}/g, (_, name: string) => {
+			if (!env[name]) {
+				missing.push(name);
+				return '';
+			}
+			return env[name] as string;
+		});
+	}
+	if (Array.isArray(value)) {
+		return value.map((item) => resolveEnv(item, env, missing));
+	}
+	if (isPlainObject(value)) {
+		return Object.keys(value).reduce<Record<string, unknown>>(
+			(resolved, key) => {
+				resolved[key] = resolveEnv(value[key], env, missing);
+				return resolved;
+			},
+			{}
+		);
+	}
+	return value;
+};
+
+/**
+ * check the values once the environment is resolved
+ */
+const validateValues = (name: string, entry: NetworkEntryInterface) => {
+	const errors: string[] = [];
+	const key = `networks.${name}`;
+
+	if (!/^https?:\/\/.+/.test(entry.url)) {
+		errors.push(`${key}.url must be an http(s) URL`);
+	}
+
+	const { accounts } = entry;
+	if (Array.isArray(accounts)) {
+		accounts.forEach((privateKey, index) => {
+			if (!utils.isHexString(privateKey, 32)) {
+				errors.push(
+					`${key}.accounts[${index}] must be a 0x-prefixed 32 bytes private key`
+				);
+			}
+		});
+	} else if (
+		typeof accounts === 'object' &&
+		!utils.isValidMnemonic(accounts.mnemonic)
+	) {
+		errors.push(`${key}.accounts.mnemonic is not a valid mnemonic`);
+	}
+
+	return errors;
+};
+
+/**
+ * read and validate the network registry. The structure of the file must be
+ * valid, a network whose environment variables are missing or whose values
+ * are invalid is returned with its errors
+ * @param options config file path and environment variables
+ */
+export const loadNetworks = ({
+	configPath = process.env.NETWORKS_CONFIG ?? NETWORKS_CONFIG_PATH,
+	env = process.env,
+} = {}): LoadedNetworkInterface[] => {
+	if (!fs.existsSync(configPath)) {
+		return [];
+	}
+
+	let registry: unknown;
+	try {
+		registry = JSON.parse(fs.readFileSync(configPath, 'utf8'));
+	} catch (error) {
+		throw new Error(
+			`Invalid network config ${configPath}: ${(error as Error).message}`
+		);
+	}
+
+	const errors = validateObject<NetworkRegistryInterface>(
+		registry,
+		'config',
+		{
+			networks: (networks, key) =>
+				isPlainObject(networks)
+					? Object.keys(networks).reduce<string[]>(
+							(errors, name) =>
+								errors.concat(
+									reservedNetworkNames.indexOf(name) >= 0
+										? [`${key}.${name} is reserved by hardhat`]
+										: validateObject<NetworkEntryInterface>(
+												networks[name],
+												`${key}.${name}`,
+												networkSchema,
+												['url']
+										  )
+								),
+							[]
+					  )
+					: [`${key} must be an object`],
+		},
+		['networks']
+	);
+	if (errors.length > 0) {
+		throw new Error(
+			`Invalid network config ${configPath}:\n  ${errors.join('\n  ')}`
+		);
+	}
+
+	const { networks } = registry as NetworkRegistryInterface;
+	return Object.keys(networks).map((name) => {
+		const missing: string[] = [];
+		const entry = resolveEnv(
+			networks[name],
+			env,
+			missing
+		) as NetworkEntryInterface;
+		const networkErrors =
+			missing.length > 0
+				? missing
+						.filter((variable, index) => missing.indexOf(variable) === index)
+						.map((variable) => `${variable} is not set`)
+				: validateValues(name, entry);
+
+		return networkErrors.length > 0
+			? { name, errors: networkErrors }
+			: { name, entry, errors: [] };
+	});
+};
+
+/**
+ * network selected on the command line, `--network <name>` or
+ * `HARDHAT_NETWORK`
+ * @param argv command line arguments
+ */
+export const getSelectedNetwork = (argv = process.argv) => {
+	const index = argv.indexOf('--network');
+	return index >= 0 ? argv[index + 1] : process.env.HARDHAT_NETWORK;
+};
+
+/**
+ * hardhat config of the valid networks of the registry. Networks with errors
+ * are left out, unless selected, so a missing key of one network does not
+ * break commands on others
+ * @param networks loaded networks
+ * @param selectedNetwork network selected on the command line
+ */
+export const getHardhatNetworks = (
+	networks: LoadedNetworkInterface[],
+	selectedNetwork = getSelectedNetwork()
+) => {
+	const selected = networks.find(({ name }) => name === selectedNetwork);
+	if (selected && selected.errors.length > 0) {
+		throw new Error(
+			`Network ${selected.name} is not configured:\n  ${selected.errors.join(
+				'\n  '
+			)}`
+		);
+	}
+
+	return networks.reduce<Record<string, HttpNetworkUserConfig>>(
+		(config, { name, entry }) => {
+			if (entry) {
+				config[name] = entry;
+			}
+			return config;
+		},
+		{}
+	);
+};
+
+/**
+ * blocks to wait for a transaction on a network, 1 unless configured
+ * @param network `hre.network`
+ */
+export const getConfirmations = ({ config }: Network) =>
+	('confirmations' in config && config.confirmations) || 1;
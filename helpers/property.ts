@@ -0,0 +1,131 @@
+import fc from 'fast-check';
+import { ContractTransaction } from 'ethers';
+import { decodeRevert, formatRevert } from './revert';
+import {
+	latestTimestamp,
+	revert,
+	setNextBlockTimestamp,
+	snapshot,
+} from './time';
+
+/**
+ * fast-check params, `PROPERTY_RUNS` sets the number of sequences and a failure
+ * is replayed with the `PROPERTY_SEED`/`PROPERTY_PATH` printed by fast-check
+ */
+export const propertyParams: fc.Parameters<unknown> = {
+	numRuns: Number(process.env.PROPERTY_RUNS ?? 20),
+	...(process.env.PROPERTY_SEED && {
+		seed: Number(process.env.PROPERTY_SEED),
+	}),
+	...(process.env.PROPERTY_PATH && { path: process.env.PROPERTY_PATH }),
+};
+
+/**
+ * command of a random action sequence, the description is printed in the
+ * (shrunk) counterexample
+ * @param description readable action, e.g. `bid(bidder 1, 10 wei)`
+ * @param run send the action and check its outcome
+ * @param check whether the action can run in the current model
+ */
+export const chainCommand = <Model extends object, Real>(
+	description: string,
+	run: (model: Model, real: Real) => Promise<void>,
+	check: (model: Readonly<Model>) => boolean = () => true
+): fc.AsyncCommand<Model, Real> => ({
+	check,
+	run,
+	toString: () => description,
+});
+
+/**
+ * property over random sequences of commands, the invariant is checked after
+ * every command. Each sequence starts from the chain state at the time the
+ * property runs and is reverted afterwards, so sequences never interfere.
+ * On failure fast-check shrinks the sequence to a minimal reproduction.
+ * @param commands command arbitraries
+ * @param setup initial model and real system of a sequence
+ * @param invariant assertion on the real system
+ * @param maxCommands max commands in a sequence
+ */
+export const chainProperty = <Model extends object, Real>(
+	commands: fc.Arbitrary<fc.AsyncCommand<Model, Real>>[],
+	setup: () => Promise<{ model: Model; real: Real }>,
+	invariant: (model: Model, real: Real) => Promise<void>,
+	maxCommands = 20
+) =>
+	fc.asyncProperty(
+		fc.commands(
+			commands.map((command) =>
+				command.map((action) =>
+					chainCommand<Model, Real>(
+						action.toString(),
+						async (model, real) => {
+							await action.run(model, real);
+							await invariant(model, real);
+						},
+						(model) => action.check(model)
+					)
+				)
+			),
+			{ maxCommands }
+		),
+		async (sequence) => {
+			const snapshotId = await snapshot();
+			try {
+				await fc.asyncModelRun(setup, sequence);
+			} finally {
+				await revert(snapshotId);
+			}
+		}
+	);
+
+/**
+ * fix the timestamp of the next block, so a command can predict time checks
+ * @return timestamp of the next block
+ */
+export const nextBlockTimestamp = async () => {
+	const timestamp = (await latestTimestamp()) + 1;
+	await setNextBlockTimestamp(timestamp);
+	return timestamp;
+};
+
+/**
+ * send a transaction and check it succeeds or reverts as the command predicts
+ * @param send function sending the transaction
+ * @param expectedError undefined if the transaction must succeed, `true` for
+ * any revert, otherwise the decoded error name (`Error` for require, `Panic`
+ * for panics)
+ */
+export const expectOutcome = async (
+	send: () => Promise<ContractTransaction>,
+	expectedError?: string | true
+) => {
+	try {
+		await (await send()).wait();
+	} catch (error) {
+		const decoded = decodeRevert(error);
+		if (expectedError === undefined) {
+			throw new Error(
+				`Expected success, transaction ${
+					decoded ? formatRevert(decoded) : (error as Error).message
+				}`
+			);
+		}
+		if (expectedError !== true && decoded?.errorName !== expectedError) {
+			throw new Error(
+				`Expected revert with ${expectedError}, transaction ${
+					decoded ? formatRevert(decoded) : (error as Error).message
+				}`
+			);
+		}
+		return;
+	}
+
+	if (expectedError !== undefined) {
+		throw new Error(
+			`Expected revert${
+				expectedError === true ? '' : ` with ${expectedError}`
+			}, transaction succeeded`
+		);
+	}
+};
@@ -0,0 +1,204 @@
+import { BigNumber, utils } from 'ethers';
+import * as typechain from '../typechain';
+
+export type RevertKind = 'custom' | 'require' | 'panic';
+
+export interface DecodedRevertInterface {
+	kind: RevertKind;
+	contract?: string; // contract declaring the custom error
+	errorName: string; // custom error name, `Error` for require, `Panic` for panics
+	args: utils.Result;
+	argNames: string[];
+	signature: string; // e.g. `BidNotHighEnough(uint256)`
+	data: string; // raw revert data
+}
+
+export interface DecodeRevertOptionsInterface {
+	contractName?: string; // preferred contract when several declare the error
+}
+
+// `ErrorFragment` refuses these names, they are built into solidity
+const builtinErrors: Record<
+	string,
+	{ name: string; signature: string; input: utils.ParamType }
+> = {
+	[utils.id('Error(string)').slice(0, 10)]: {
+		name: 'Error',
+		signature: 'Error(string)',
+		input: utils.ParamType.from('string reason'),
+	},
+	[utils.id('Panic(uint256)').slice(0, 10)]: {
+		name: 'Panic',
+		signature: 'Panic(uint256)',
+		input: utils.ParamType.from('uint256 code'),
+	},
+};
+
+/**
+ * panic codes of solidity >= 0.8
+ */
+export const panicReasons: Record<number, string> = {
+	0x00: 'generic compiler panic',
+	0x01: 'assertion failed',
+	0x11: 'arithmetic overflow or underflow',
+	0x12: 'division or modulo by zero',
+	0x21: 'invalid enum value',
+	0x22: 'invalid storage byte array encoding',
+	0x31: 'pop on empty array',
+	0x32: 'array index out of bounds',
+	0x41: 'out of memory',
+	0x51: 'call to zero-initialized function',
+};
+
+let customErrors:
+	| Record<string, { contractName: string; iface: utils.Interface }[]>
+	| undefined;
+
+/**
+ * custom errors of every compiled contract, by selector
+ */
+const getCustomErrors = () => {
+	if (customErrors) {
+		return customErrors;
+	}
+
+	customErrors = {};
+	for (const [name, factory] of Object.entries(typechain)) {
+		if (!name.endsWith('__factory')) {
+			continue;
+		}
+		const contractName = name.slice(0, -'__factory'.length);
+		const iface = new utils.Interface(
+			(factory as unknown as { abi: any[] }).abi
+		);
+
+		Object.values(iface.errors).forEach((fragment) => {
+			const selector = iface.getSighash(fragment);
+			customErrors![selector] = (customErrors![selector] ?? []).concat({
+				contractName,
+				iface,
+			});
+		});
+	}
+
+	return customErrors;
+};
+
+/**
+ * find revert data (`0x` + selector + args) inside an ethers/hardhat error
+ * @param error error thrown by a transaction or call
+ */
+export const getRevertData = (error: any): string | undefined => {
+	const seen = new Set<any>();
+	const search = (value: any): string | undefined => {
+		if (!value || typeof value !== 'object' || seen.has(value)) {
+			return undefined;
+		}
+		seen.add(value);
+
+		if (typeof value.data === 'string' && /^0x[0-9a-f]{8}/i.test(value.data)) {
+			return value.data;
+		}
+		for (const key of ['error', 'data', 'cause']) {
+			const found = search(value[key]);
+			if (found) {
+				return found;
+			}
+		}
+		return undefined;
+	};
+
+	return search(error);
+};
+
+/**
+ * decode the revert of a transaction or call: custom errors of every compiled
+ * contract, `require` reason strings and panic codes
+ * @param errorOrData error thrown by ethers/hardhat, or raw revert data
+ * @param options decode options
+ * @return undefined when there is no revert data or the selector is unknown
+ */
+export const decodeRevert = (
+	errorOrData: any,
+	{ contractName }: DecodeRevertOptionsInterface = {}
+): DecodedRevertInterface | undefined => {
+	const data =
+		typeof errorOrData === 'string' ? errorOrData : getRevertData(errorOrData);
+	if (!data || !utils.isHexString(data) || data.length < 10) {
+		return undefined;
+	}
+	const selector = data.slice(0, 10).toLowerCase();
+
+	const builtin = builtinErrors[selector];
+	if (builtin) {
+		return {
+			kind: builtin.name === 'Error' ? 'require' : 'panic',
+			errorName: builtin.name,
+			args: utils.defaultAbiCoder.decode(
+				[builtin.input],
+				utils.hexDataSlice(data, 4)
+			),
+			argNames: [builtin.input.name],
+			signature: builtin.signature,
+			data,
+		};
+	}
+
+	const candidates = getCustomErrors()[selector];
+	if (!candidates) {
+		return undefined;
+	}
+	const { contractName: contract, iface } =
+		candidates.find((candidate) => candidate.contractName === contractName) ??
+		candidates[0];
+
+	try {
+		const fragment = iface.getError(selector);
+		return {
+			kind: 'custom',
+			contract,
+			errorName: fragment.name,
+			args: iface.decodeErrorResult(fragment, data),
+			argNames: fragment.inputs.map(({ name }) => name),
+			signature: fragment.format(),
+			data,
+		};
+	} catch {
+		// selector matched but args do not decode
+		return undefined;
+	}
+};
+
+const formatValue = (value: any): string =>
+	BigNumber.isBigNumber(value)
+		? value.toString()
+		: Array.isArray(value)
+		? `[${value.map(formatValue).join(', ')}]`
+		: String(value);
+
+/**
+ * readable description of a decoded revert
+ * @param decoded decoded revert
+ */
+export const formatRevert = ({
+	kind,
+	contract,
+	errorName,
+	args,
+	argNames,
+}: DecodedRevertInterface) => {
+	if (kind === 'require') {
+		return `reverted with reason "${args.reason}"`;
+	}
+	if (kind === 'panic') {
+		const code = BigNumber.from(args.code).toNumber();
+		return `panicked with code 0x${code.toString(16).padStart(2, '0')} (${
+			panicReasons[code] ?? 'unknown panic'
+		})`;
+	}
+
+	const formattedArgs = args.map(
+		(arg, index) => `${argNames[index] || index}: ${formatValue(arg)}`
+	);
+	return `reverted with ${contract}.${errorName}(${formattedArgs.join(', ')})`;
+};
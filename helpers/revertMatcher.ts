@@ -0,0 +1,86 @@
+import { BigNumber } from 'ethers';
+import { decodeRevert, formatRevert } from './revert';
+
+declare global {
+	namespace Chai {
+		interface Assertion {
+			/**
+			 * assert a transaction reverts with a decoded error, `Error` for
+			 * require reasons and `Panic` for panic codes
+			 * @param errorName error name
+			 * @param args expected error args, numbers are compared by value
+			 */
+			revertedWithError(errorName: string, args?: unknown[]): PromisedAssertion;
+		}
+	}
+}
+
+const normalizeArg = (value: any): any =>
+	BigNumber.isBigNumber(value) || typeof value === 'number'
+		? BigNumber.from(value).toString()
+		: Array.isArray(value)
+		? value.map(normalizeArg)
+		: value;
+
+/**
+ * chai plugin adding `revertedWithError`, based on `decodeRevert`
+ * ```
+ * chai.use(revertMatcher);
+ * await expect(auction.bid({ value: 5 })).to.be.revertedWithError('BidNotHighEnough', [10]);
+ * ```
+ */
+export const revertMatcher = (
+	chai: Chai.ChaiStatic,
+	chaiUtils: Chai.ChaiUtils
+) => {
+	chai.Assertion.addMethod(
+		'revertedWithError',
+		function (this: Chai.AssertionStatic, errorName: string, args?: unknown[]) {
+			const subject = chaiUtils.flag(this, 'object');
+			const negate = chaiUtils.flag(this, 'negate');
+
+			const promise = Promise.resolve(
+				typeof subject === 'function' ? subject() : subject
+			)
+				// without automine, a sent transaction only fails when mined
+				.then((tx) => (typeof tx?.wait === 'function' ? tx.wait() : tx))
+				.then(
+					() => {
+						this.assert(
+							false,
+							`Expected transaction to be reverted with ${errorName}, but it was not reverted`,
+							`Expected transaction not to be reverted with ${errorName}`,
+							errorName
+						);
+					},
+					(error) => {
+						const decoded = decodeRevert(error);
+						const actual = decoded
+							? formatRevert(decoded)
+							: `an undecoded error: ${error?.message ?? error}`;
+
+						this.assert(
+							decoded?.errorName === errorName,
+							`Expected transaction to be reverted with ${errorName}, but it ${actual}`,
+							`Expected transaction not to be reverted with ${errorName}, but it ${actual}`,
+							errorName,
+							decoded?.errorName
+						);
+
+						if (decoded && args !== undefined && !negate) {
+							new chai.Assertion(
+								normalizeArg(Array.from(decoded.args)),
+								`${errorName} args`
+							).to.deep.eq(normalizeArg(args));
+						}
+					}
+				);
+
+			// make the assertion awaitable, like the waffle matchers
+			return Object.assign(this, {
+				then: promise.then.bind(promise),
+				catch: promise.catch.bind(promise),
+			});
+		}
+	);
+};
@@ -0,0 +1,164 @@
+import { HardhatNetworkUserConfig, HttpNetworkUserConfig } from 'hardhat/types';
+import { sleep } from './timer';
+
+// network of an external node in `TEST_NETWORK=node` mode
+export const TEST_NODE_NETWORK = 'testNode';
+
+export interface TestModeInterface {
+	network: 'hardhat' | 'node' | 'fork';
+	nodeUrl: string; // external node, `node` network
+	forkUrl?: string; // archive node or snapshot served over RPC, `fork` network
+	forkBlockNumber?: number; // latest block when undefined
+	miningInterval: number; // ms between blocks, 0 for automine
+	realTime: boolean; // wait for the chain clock instead of moving it
+}
+
+const parseInteger = (name: string, value: string | undefined) => {
+	if (value === undefined || value === '') {
+		return undefined;
+	}
+	if (!/^\d+$/.test(value)) {
+		throw new Error(`${name} must be a positive integer, got "${value}"`);
+	}
+	return Number(value);
+};
+
+/**
+ * test mode from the environment:
+ * - `TEST_NETWORK`: `hardhat` (default), `node` for an external node at
+ * `TEST_NODE_URL`, `fork` for an in-process fork of `TEST_FORK_URL` at
+ * `TEST_FORK_BLOCK`
+ * - `TEST_MINING`: `auto` (default) or the interval between blocks in ms
+ * - `TEST_TIME`: `fast` (default) to move the chain clock, `real` to wait
+ * @param env environment variables
+ */
+export const getTestMode = (env = process.env): TestModeInterface => {
+	const network = env.TEST_NETWORK || 'hardhat';
+	if (network !== 'hardhat' && network !== 'node' && network !== 'fork') {
+		throw new Error(
+			`TEST_NETWORK must be hardhat, node or fork, got "${network}"`
+		);
+	}
+	if (network === 'fork' && !env.TEST_FORK_URL) {
+		throw new Error('TEST_NETWORK=fork needs TEST_FORK_URL');
+	}
+
+	const mining = env.TEST_MINING || 'auto';
+	const time = env.TEST_TIME || 'fast';
+	if (time !== 'fast' && time !== 'real') {
+		throw new Error(`TEST_TIME must be fast or real, got "${time}"`);
+	}
+
+	return {
+		network,
+		nodeUrl: env.TEST_NODE_URL || 'http://127.0.0.1:8545',
+		forkUrl: env.TEST_FORK_URL,
+		forkBlockNumber: parseInteger('TEST_FORK_BLOCK', env.TEST_FORK_BLOCK),
+		miningInterval:
+			mining === 'auto' ? 0 : (parseInteger('TEST_MINING', mining) as number),
+		realTime: time === 'real',
+	};
+};
+
+/**
+ * hardhat networks of the test mode: the in-process network, forked in
+ * `fork` mode, and the external node in `node` mode. The mining of an
+ * external node is set when the tests start
+ * @param mode test mode
+ */
+export const getTestNetworks = (mode = getTestMode()) => {
+	// set on the network config, so parallel workers mine the same way
+	const hardhat: HardhatNetworkUserConfig = {
+		...(mode.network === 'fork' && {
+			forking: {
+				url: mode.forkUrl as string,
+				blockNumber: mode.forkBlockNumber,
+			},
+		}),
+		...(mode.miningInterval > 0 && {
+			mining: { auto: false, interval: mode.miningInterval },
+		}),
+		// otherwise every automined block takes a second, and the chain clock
+		// runs ahead of the real time tests wait for
+		...(mode.realTime && { allowBlocksWithSameTimestamp: true }),
+	};
+	const node: HttpNetworkUserConfig = {
+		url: mode.nodeUrl,
+		accounts: 'remote',
+	};
+
+	return {
+		hardhat,
+		...(mode.network === 'node' && { [TEST_NODE_NETWORK]: node }),
+	};
+};
+
+/**
+ * network used when no `--network` is given, the external node in `node` mode
+ * @param mode test mode
+ */
+export const getTestDefaultNetwork = (mode = getTestMode()) =>
+	mode.network === 'node' ? TEST_NODE_NETWORK : 'hardhat';
+
+interface RequestProviderInterface {
+	request: (args: { method: string; params?: any[] }) => Promise<any>;
+	send: (method: string, params?: any[]) => Promise<any>;
+}
+
+/**
+ * make sent transactions resolve once mined, so tests written for automine
+ * read the state after their transaction on a node mining at an interval.
+ * Without automine a reverting transaction is mined without its revert data,
+ * so gas is estimated first and the revert is thrown as a wallet would
+ * @param provider `hre.network.provider`
+ * @param pollingInterval ms between receipt requests
+ * @return function restoring the provider
+ */
+export const waitForMinedTransactions = (
+	provider: RequestProviderInterface,
+	pollingInterval = 50
+) => {
+	const { request, send } = provider;
+
+	// even with a gas limit, hardhat-ethers sets it from the network config
+	const estimateGas = async (method: string, params?: any[]) => {
+		if (method === 'eth_sendTransaction') {
+			await request.call(provider, { method: 'eth_estimateGas', params });
+		}
+	};
+
+	const waitForReceipt = async (method: string, result: any) => {
+		if (
+			method !== 'eth_sendTransaction' &&
+			method !== 'eth_sendRawTransaction'
+		) {
+			return;
+		}
+		while (
+			!(await request.call(provider, {
+				method: 'eth_getTransactionReceipt',
+				params: [result],
+			}))
+		) {
+			await sleep(pollingInterval);
+		}
+	};
+
+	provider.request = async (args) => {
+		await estimateGas(args.method, args.params);
+		const result = await request.call(provider, args);
+		await waitForReceipt(args.method, result);
+		return result;
+	};
+	provider.send = async (method, params) => {
+		await estimateGas(method, params);
+		const result = await send.call(provider, method, params);
+		await waitForReceipt(method, result);
+		return result;
+	};
+
+	return () => {
+		provider.request = request;
+		provider.send = send;
+	};
+};
@@ -0,0 +1,129 @@
+import { ethers } from 'hardhat';
+import { BigNumber, BigNumberish } from 'ethers';
+import { getTestMode } from './testMode';
+import { sleep } from './timer';
+
+// with `TEST_TIME=real` the helpers wait for the chain clock instead of
+// moving it, e.g. on a node mining at an interval
+const { realTime, miningInterval } = getTestMode();
+
+/**
+ * whether the chain clock can be moved, otherwise tests wait for it
+ */
+export const canFastForward = () => !realTime;
+
+/**
+ * whether the next transaction is mined at the timestamp set by
+ * `setNextBlockTimestamp`, which needs automine and a movable clock
+ */
+export const hasExactTimestamps = () => !realTime && miningInterval === 0;
+
+/**
+ * timestamp of the latest block, in seconds
+ */
+export const latestTimestamp = async () =>
+	(await ethers.provider.getBlock('latest')).timestamp;
+
+/**
+ * mine blocks
+ * @param blocks number of blocks to mine
+ */
+export const mine = async (blocks = 1) => {
+	for (let i = 0; i < blocks; i++) {
+		await ethers.provider.send('evm_mine', []);
+	}
+};
+
+/**
+ * in real time, mine blocks until the chain clock reaches a timestamp, the
+ * clock of a node may differ from the local one
+ * @param timestamp unix timestamp in seconds
+ */
+const waitForTimestamp = async (timestamp: BigNumberish) => {
+	const target = BigNumber.from(timestamp).toNumber();
+	for (;;) {
+		await mine();
+		const remaining = target - (await latestTimestamp());
+		if (remaining <= 0) {
+			return;
+		}
+		await sleep(Math.min(remaining * 1000, 1000));
+	}
+};
+
+/**
+ * set the timestamp of the next block, without mining it. In real time,
+ * wait until the next block is at or after the timestamp
+ * @param timestamp unix timestamp in seconds
+ */
+export const setNextBlockTimestamp = async (timestamp: BigNumberish) => {
+	if (realTime) {
+		return waitForTimestamp(timestamp);
+	}
+	await ethers.provider.send('evm_setNextBlockTimestamp', [
+		BigNumber.from(timestamp).toNumber(),
+	]);
+};
+
+/**
+ * move the chain time forward and mine a block
+ * @param seconds seconds to move forward
+ */
+export const increaseTime = async (seconds: BigNumberish) => {
+	if (realTime) {
+		return waitForTimestamp(
+			BigNumber.from(seconds).add(await latestTimestamp())
+		);
+	}
+	await ethers.provider.send('evm_increaseTime', [
+		BigNumber.from(seconds).toNumber(),
+	]);
+	await mine();
+};
+
+/**
+ * mine a block at `timestamp`, so the next transaction runs strictly after it,
+ * e.g. `advanceTo(auction.biddingEnd())`
+ * @param timestamp unix timestamp in seconds, or a promise of it
+ */
+export const advanceTo = async (
+	timestamp: BigNumberish | Promise<BigNumberish>
+) => {
+	const target = BigNumber.from(await timestamp);
+	const latest = await latestTimestamp();
+
+	if (target.lte(latest)) {
+		throw new Error(
+			`Cannot advance to ${target}, latest block is already at ${latest}`
+		);
+	}
+
+	if (realTime) {
+		// the next transaction may share the second of the latest block
+		return waitForTimestamp(target.add(1));
+	}
+
+	await setNextBlockTimestamp(target);
+	await mine();
+};
+
+/**
+ * take a snapshot of the chain state
+ * @returns snapshot id, used by `revert`
+ */
+export const snapshot = async (): Promise<string> =>
+	ethers.provider.send('evm_snapshot', []);
+
+/**
+ * revert the chain state to a snapshot, a snapshot can only be reverted once
+ * @param snapshotId id returned by `snapshot`
+ */
+export const revert = async (snapshotId: string) => {
+	const reverted: boolean = await ethers.provider.send('evm_revert', [
+		snapshotId,
+	]);
+
+	if (!reverted) {
+		throw new Error(`Cannot revert to snapshot ${snapshotId}`);
+	}
+};
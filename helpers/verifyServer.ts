@@ -0,0 +1,110 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+
+export interface MockVerifyServerOptionsInterface {
+	outcome?: 'pass' | 'fail' | 'already verified';
+	unindexedSubmissions?: number; // submissions answered with a contract not found
+	pendingChecks?: number; // status requests answered as pending before the outcome
+	apiKey?: string; // key expected from clients
+}
+
+export interface MockVerifyServerInterface {
+	url: string;
+	submissions: Record<string, string>[]; // form fields, with the `chainid` query param
+	statusChecks: number;
+	close: () => Promise<void>;
+}
+
+const readForm = (request: http.IncomingMessage) =>
+	new Promise<Record<string, string>>((resolve, reject) => {
+		let body = '';
+		request.on('data', (chunk) => (body += chunk));
+		request.on('error', reject);
+		request.on('end', () => {
+			const fields: Record<string, string> = {};
+			new URLSearchParams(body).forEach((value, key) => (fields[key] = value));
+			resolve(fields);
+		});
+	});
+
+/**
+ * local Etherscan-compatible verification API, answering `verifysourcecode`
+ * and `checkverifystatus` as the explorers do, for tests without network
+ * @param options outcome of the verification and delays before it
+ */
+export const startMockVerifyServer = async ({
+	outcome = 'pass',
+	unindexedSubmissions = 0,
+	pendingChecks = 1,
+	apiKey = 'mock-api-key',
+}: MockVerifyServerOptionsInterface = {}): Promise<MockVerifyServerInterface> => {
+	const server = http.createServer();
+	const state: MockVerifyServerInterface = {
+		url: '',
+		submissions: [],
+		statusChecks: 0,
+		close: () =>
+			new Promise((resolve, reject) =>
+				server.close((error) => (error ? reject(error) : resolve()))
+			),
+	};
+	const guid = 'mockguid0123456789abcdefghijklmnopqrstuvwxyz012345';
+
+	server.on('request', async (request, response) => {
+		const reply = (status: '0' | '1', result: string) =>
+			response
+				.writeHead(200, { 'content-type': 'application/json' })
+				.end(
+					JSON.stringify({
+						status,
+						message: status === '1' ? 'OK' : 'NOTOK',
+						result,
+					})
+				);
+
+		const fields = await readForm(request);
+		if (request.method !== 'POST' || fields.apikey !== apiKey) {
+			return reply('0', 'Invalid API Key');
+		}
+
+		if (fields.module === 'contract' && fields.action === 'verifysourcecode') {
+			const { searchParams } = new URL(request.url ?? '/', state.url);
+			state.submissions.push({
+				...fields,
+				chainid: searchParams.get('chainid') ?? '',
+			});
+			if (state.submissions.length <= unindexedSubmissions) {
+				return reply(
+					'0',
+					`Unable to locate ContractCode at ${fields.contractaddress}`
+				);
+			}
+			return outcome === 'already verified'
+				? reply('0', 'Contract source code already verified')
+				: reply('1', guid);
+		}
+
+		if (fields.module === 'contract' && fields.action === 'checkverifystatus') {
+			state.statusChecks += 1;
+			if (fields.guid !== guid) {
+				return reply('0', 'Unknown UID');
+			}
+			if (state.statusChecks <= pendingChecks) {
+				return reply('0', 'Pending in queue');
+			}
+			return outcome === 'fail'
+				? reply('0', 'Fail - Unable to verify')
+				: reply('1', 'Pass - Verified');
+		}
+
+		reply('0', `Unknown action ${fields.module}.${fields.action}`);
+	});
+
+	await new Promise<void>((resolve) =>
+		server.listen(0, '127.0.0.1', () => resolve())
+	);
+	const { port } = server.address() as AddressInfo;
+	state.url = `http://127.0.0.1:${port}/api`;
+
+	return state;
+};
@@ -0,0 +1,241 @@
+import { ContractReceipt, providers, Signer, utils } from 'ethers';
+import type { AuctionFactory } from '../../typechain/AuctionFactory';
+import type { BlindAuction } from '../../typechain/BlindAuction';
+import type { SimpleAuction } from '../../typechain/SimpleAuction';
+import { AuctionFactory__factory } from '../../typechain/factories/AuctionFactory__factory';
+import { BlindAuction__factory } from '../../typechain/factories/BlindAuction__factory';
+import { SimpleAuction__factory } from '../../typechain/factories/SimpleAuction__factory';
+import type { BlindAuctionDeployParamsInterface } from '../deploy/blindAuction.deploy';
+import type { SimpleAuctionDeployParamsInterface } from '../deploy/simpleAuction.deploy';
+
+// auctions read per `getAuctions` call
+const PAGE_SIZE = 100;
+
+// same order as `AuctionFactory.AuctionType`
+export const auctionTypes = ['SimpleAuction', 'BlindAuction'] as const;
+
+export type AuctionTypeNameType = (typeof auctionTypes)[number];
+
+export type AuctionStatusType = 'active' | 'ended';
+
+interface AuctionListingBaseInterface {
+	address: string;
+	creator: string;
+	beneficiary: string;
+	createdAt: number;
+	biddingEnd: number; // at creation, a soft close can extend a SimpleAuction
+	revealEnd?: number; // BlindAuction only
+	endTime: number; // current end of the last phase
+	status: AuctionStatusType;
+}
+
+// registry entry with the typed contract of its auction type
+export type AuctionListingType =
+	| (AuctionListingBaseInterface & {
+			auctionType: 'SimpleAuction';
+			contract: SimpleAuction;
+	  })
+	| (AuctionListingBaseInterface & {
+			auctionType: 'BlindAuction';
+			contract: BlindAuction;
+	  });
+
+export interface AuctionFilterInterface {
+	status?: AuctionStatusType;
+	beneficiary?: string;
+	creator?: string;
+	auctionType?: AuctionTypeNameType;
+}
+
+const isSameAddress = (a: string, b: string) =>
+	utils.getAddress(a) === utils.getAddress(b);
+
+/**
+ * client of an AuctionFactory, listing its auctions with typed contracts
+ * connected to the same signer or provider
+ * @param address AuctionFactory address
+ * @param signerOrProvider signer sending transactions, or read-only provider
+ */
+export const createAuctionFactoryClient = (
+	address: string,
+	signerOrProvider: Signer | providers.Provider
+) => {
+	const factory: AuctionFactory = AuctionFactory__factory.connect(
+		address,
+		signerOrProvider
+	);
+
+	/**
+	 * attach the auction of a registry entry and read its current state.
+	 * An auction ends with `auctionEnd`, or when its end time has passed
+	 * @param info registry entry
+	 * @param timestamp timestamp of the latest block
+	 */
+	const toListing = async (
+		info: AuctionFactory.AuctionInfoStructOutput,
+		timestamp: number
+	): Promise<AuctionListingType> => {
+		const base = {
+			address: info.auction,
+			creator: info.creator,
+			beneficiary: info.beneficiary,
+			createdAt: info.createdAt.toNumber(),
+			biddingEnd: info.biddingEnd.toNumber(),
+		};
+		const status = (ended: boolean, isOver: boolean): AuctionStatusType =>
+			ended || isOver ? 'ended' : 'active';
+
+		if (auctionTypes[info.auctionType] === 'SimpleAuction') {
+			const contract = SimpleAuction__factory.connect(
+				info.auction,
+				signerOrProvider
+			);
+			const [auctionEndTime, ended] = await Promise.all([
+				contract.auctionEndTime(),
+				contract.ended(),
+			]);
+			// bids are accepted at the end time
+			return {
+				...base,
+				auctionType: 'SimpleAuction',
+				contract,
+				endTime: auctionEndTime.toNumber(),
+				status: status(ended, auctionEndTime.lt(timestamp)),
+			};
+		}
+
+		const contract = BlindAuction__factory.connect(
+			info.auction,
+			signerOrProvider
+		);
+		const revealEnd = info.revealEnd.toNumber();
+		// reveals are refused from the end time
+		return {
+			...base,
+			auctionType: 'BlindAuction',
+			contract,
+			revealEnd,
+			endTime: revealEnd,
+			status: status(await contract.ended(), revealEnd <= timestamp),
+		};
+	};
+
+	const latestTimestamp = async () =>
+		(await factory.provider.getBlock('latest')).timestamp;
+
+	/**
+	 * every registry entry, in creation order
+	 */
+	const getAuctionInfos = async () => {
+		const count = (await factory.auctionCount()).toNumber();
+		const infos: AuctionFactory.AuctionInfoStructOutput[] = [];
+		for (let offset = 0; offset < count; offset += PAGE_SIZE) {
+			infos.push(...(await factory.getAuctions(offset, PAGE_SIZE)));
+		}
+		return infos;
+	};
+
+	/**
+	 * auctions of the factory matching every given field, in creation order
+	 * @param filter status, beneficiary, creator or type
+	 */
+	const list = async ({
+		status,
+		beneficiary,
+		creator,
+		auctionType,
+	}: AuctionFilterInterface = {}) => {
+		const infos = (await getAuctionInfos()).filter(
+			(info) =>
+				(beneficiary === undefined ||
+					isSameAddress(info.beneficiary, beneficiary)) &&
+				(creator === undefined || isSameAddress(info.creator, creator)) &&
+				(auctionType === undefined ||
+					auctionTypes[info.auctionType] === auctionType)
+		);
+		const timestamp = await latestTimestamp();
+		const listings = await Promise.all(
+			infos.map((info) => toListing(info, timestamp))
+		);
+
+		return listings.filter(
+			(listing) => status === undefined || listing.status === status
+		);
+	};
+
+	/**
+	 * auction of the factory at an address
+	 * @param auctionAddress auction address
+	 */
+	const get = async (auctionAddress: string) =>
+		toListing(
+			await factory.getAuction(auctionAddress),
+			await latestTimestamp()
+		);
+
+	/**
+	 * auction created by a transaction of the factory
+	 * @param receipt mined transaction
+	 */
+	const getCreated = (receipt: ContractReceipt) => {
+		const created = receipt.events?.find(
+			({ event }) => event === 'AuctionCreated'
+		);
+		if (!created?.args) {
+			throw new Error(
+				`No AuctionCreated event in transaction ${receipt.transactionHash}`
+			);
+		}
+		return get(created.args.auction);
+	};
+
+	/**
+	 * create a SimpleAuction, rules are disabled by default
+	 * @param params SimpleAuction constructor params
+	 * @param confirmations confirmations to wait for
+	 */
+	const createSimpleAuction = async (
+		{
+			biddingTime,
+			beneficiaryAddress,
+			reservePrice = 0,
+			minIncrement = 0,
+			minIncrementPercent = 0,
+			softCloseWindow = 0,
+		}: SimpleAuctionDeployParamsInterface,
+		confirmations?: number
+	) => {
+		const tx = await factory.createSimpleAuction(
+			biddingTime,
+			beneficiaryAddress,
+			reservePrice,
+			minIncrement,
+			minIncrementPercent,
+			softCloseWindow
+		);
+		return getCreated(await tx.wait(confirmations));
+	};
+
+	/**
+	 * create a BlindAuction
+	 * @param params BlindAuction constructor params
+	 * @param confirmations confirmations to wait for
+	 */
+	const createBlindAuction = async (
+		{
+			biddingTime,
+			revealTime,
+			beneficiaryAddress,
+		}: BlindAuctionDeployParamsInterface,
+		confirmations?: number
+	) => {
+		const tx = await factory.createBlindAuction(
+			biddingTime,
+			revealTime,
+			beneficiaryAddress
+		);
+		return getCreated(await tx.wait(confirmations));
+	};
+
+	return { factory, list, get, createSimpleAuction, createBlindAuction };
+};
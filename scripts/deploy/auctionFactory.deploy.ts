@@ -0,0 +1,11 @@
+import {
+	DeployFuncParamsInterface,
+	simpleDeployFunc,
+} from './helpers/deploy.base';
+
+export const getAuctionFactoryDeployParams = (): DeployFuncParamsInterface => ({
+	contractName: 'AuctionFactory',
+});
+
+export const deployAuctionFactory = async () =>
+	simpleDeployFunc(getAuctionFactoryDeployParams());
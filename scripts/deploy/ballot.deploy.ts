@@ -0,0 +1,50 @@
+import { utils } from 'ethers';
+import {
+	DeployFuncParamsInterface,
+	simpleDeployFunc,
+} from './helpers/deploy.base';
+
+export interface BallotDeployParamsInterface {
+	chairpersonAddress: string; // gives the rights to vote
+	proposalNames: string[];
+	votingTime?: number; // seconds, no deadline when 0
+	quorum?: number; // minimum number of votes
+}
+
+/**
+ * convert proposal names to bytes32, names must fit in 31 bytes of UTF-8
+ * @param proposalNames proposal names
+ */
+export const toProposalBytes32 = (proposalNames: string[]) => {
+	const invalidNames = proposalNames.filter(
+		(name) => name.length === 0 || utils.toUtf8Bytes(name).length > 31
+	);
+	if (invalidNames.length > 0) {
+		throw new Error(
+			`Proposal names must be 1 to 31 bytes long: ${invalidNames
+				.map((name) => `"${name}"`)
+				.join(', ')}`
+		);
+	}
+
+	return proposalNames.map((name) => utils.formatBytes32String(name));
+};
+
+export const getBallotDeployParams = ({
+	chairpersonAddress,
+	proposalNames,
+	votingTime = 0,
+	quorum = 0,
+}: BallotDeployParamsInterface): DeployFuncParamsInterface => ({
+	contractName: 'Ballot',
+	// proposal names are stored as bytes32 on chain
+	contractParams: [
+		chairpersonAddress,
+		toProposalBytes32(proposalNames),
+		votingTime,
+		quorum,
+	],
+});
+
+export const deployBallot = async (params: BallotDeployParamsInterface) =>
+	simpleDeployFunc(getBallotDeployParams(params));
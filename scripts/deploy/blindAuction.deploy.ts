@@ -0,0 +1,23 @@
+import {
+	DeployFuncParamsInterface,
+	simpleDeployFunc,
+} from './helpers/deploy.base';
+
+export interface BlindAuctionDeployParamsInterface {
+	biddingTime: number;
+	revealTime: number;
+	beneficiaryAddress: string;
+}
+
+export const getBlindAuctionDeployParams = ({
+	biddingTime,
+	revealTime,
+	beneficiaryAddress,
+}: BlindAuctionDeployParamsInterface): DeployFuncParamsInterface => ({
+	contractName: 'BlindAuction',
+	contractParams: [biddingTime, revealTime, beneficiaryAddress],
+});
+
+export const deployBlindAuction = async (
+	params: BlindAuctionDeployParamsInterface
+) => simpleDeployFunc(getBlindAuctionDeployParams(params));
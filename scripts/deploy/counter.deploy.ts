@@ -1,10 +1,11 @@
-import { ethers } from 'hardhat';
-import { simpleDeployFunc } from './helpers/deploy.base';
+import {
+	DeployFuncParamsInterface,
+	simpleDeployFunc,
+} from './helpers/deploy.base';
 
-export const deployCounter = async () => {
-	try {
-		simpleDeployFunc({ contractName: 'Counter' });
-	} catch (error) {
-		console.error(error);
-	}
-};
+export const getCounterDeployParams = (): DeployFuncParamsInterface => ({
+	contractName: 'Counter',
+});
+
+export const deployCounter = async () =>
+	simpleDeployFunc(getCounterDeployParams());
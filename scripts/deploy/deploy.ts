@@ -1,12 +1,20 @@
 import { ethers } from 'hardhat';
-import { deployCounter } from './counter.deploy';
+import { getCounterDeployParams } from './counter.deploy';
+import { logDeployResults, runDeployPipeline } from './helpers/deploy.pipeline';
 
 const deploy = async () => {
 	const [deployer] = await ethers.getSigners(); // get accounts
 
 	console.log(`using account ${deployer.address}`);
 
-	await deployCounter();
+	const results = await runDeployPipeline([
+		{ contractName: 'Counter', params: getCounterDeployParams },
+	]);
+	logDeployResults(results);
+
+	if (results.some(({ status }) => status === 'failed')) {
+		process.exitCode = 1;
+	}
 };
 
 deploy();
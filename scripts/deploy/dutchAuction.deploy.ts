@@ -0,0 +1,28 @@
+import { BigNumberish } from 'ethers';
+import {
+	DeployFuncParamsInterface,
+	simpleDeployFunc,
+} from './helpers/deploy.base';
+
+export interface DutchAuctionDeployParamsInterface {
+	startPrice: BigNumberish; // in wei
+	floorPrice: BigNumberish; // in wei
+	duration: number; // seconds for the price to reach the floor
+	steps?: number; // equal price drops, linear decrease by default
+	beneficiaryAddress: string;
+}
+
+export const getDutchAuctionDeployParams = ({
+	startPrice,
+	floorPrice,
+	duration,
+	steps = 0,
+	beneficiaryAddress,
+}: DutchAuctionDeployParamsInterface): DeployFuncParamsInterface => ({
+	contractName: 'DutchAuction',
+	contractParams: [startPrice, floorPrice, duration, steps, beneficiaryAddress],
+});
+
+export const deployDutchAuction = async (
+	params: DutchAuctionDeployParamsInterface
+) => simpleDeployFunc(getDutchAuctionDeployParams(params));
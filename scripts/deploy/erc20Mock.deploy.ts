@@ -0,0 +1,22 @@
+import {
+	DeployFuncParamsInterface,
+	simpleDeployFunc,
+} from './helpers/deploy.base';
+
+export interface ERC20MockDeployParamsInterface {
+	name?: string;
+	symbol?: string;
+}
+
+// mintable token paying the token variants on local networks
+export const getERC20MockDeployParams = ({
+	name = 'Mock Token',
+	symbol = 'MOCK',
+}: ERC20MockDeployParamsInterface = {}): DeployFuncParamsInterface => ({
+	contractName: 'ERC20Mock',
+	contractParams: [name, symbol],
+});
+
+export const deployERC20Mock = async (
+	params?: ERC20MockDeployParamsInterface
+) => simpleDeployFunc(getERC20MockDeployParams(params));
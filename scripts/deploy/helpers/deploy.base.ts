@@ -1,41 +1,90 @@
-import { ethers } from 'hardhat';
+import { ethers, network } from 'hardhat';
+import { PayableOverrides } from 'ethers';
+import { getConfirmations } from '../../../helpers/networks';
+import { decodeRevert, formatRevert } from '../../../helpers/revert';
+import { create2Deploy } from './deploy.create2';
 import { deployLogger } from './deploy.logger';
+import { buildDeploymentRecord, saveDeploymentRecord } from './deploy.record';
 
 export interface DeployFuncParamsInterface {
 	contractName: string;
 	contractParams?: any[];
+	overrides?: PayableOverrides;
+	salt?: string; // deploy deterministically with CREATE2 when set
+	proxy?: boolean; // deploy behind a proxy with `proxyDeployFunc`
 }
 
 export interface DeployFuncOptionsInterface {
 	verbose?: boolean;
+	save?: boolean; // write deployment record to `deployments/<network>`
+	json?: boolean; // machine-readable NDJSON output instead of human format
 }
 
 export const simpleDeployFunc = async (
-	{ contractName, contractParams = [] }: DeployFuncParamsInterface,
+	{
+		contractName,
+		contractParams = [],
+		overrides = {},
+		salt,
+	}: DeployFuncParamsInterface,
 	options: DeployFuncOptionsInterface = {}
 ) => {
-	const { verbose = true } = options;
+	const { verbose = true, save = true, json = false } = options;
+	const log = (...args) => {
+		verbose && !json && console.log(...args);
+	};
+	const banner = () => {
+		!json && console.log('============');
+	};
 
 	try {
-		const log = (...args) => {
-			verbose && console.log(...args);
-		};
-
-		console.log('============');
+		banner();
 		const Factory = await ethers.getContractFactory(contractName);
 
 		log(`Start deploy ${contractName}`);
 
-		const contract = await Factory.deploy(...contractParams);
+		const contract =
+			salt === undefined
+				? await Factory.deploy(...contractParams, overrides)
+				: await create2Deploy(contractName, contractParams, salt, overrides);
 		await contract.deployed();
-		deployLogger({ instance: contract, contractName }, { verbose });
-		console.log('============');
+		await contract.deployTransaction.wait(getConfirmations(network));
+		await deployLogger({ instance: contract, contractName }, { verbose, json });
+
+		if (save) {
+			const record = await buildDeploymentRecord(
+				contractName,
+				contract,
+				contractParams,
+				salt
+			);
+			const recordPath = saveDeploymentRecord(record);
+			log(`Deployment record: ${recordPath}`);
+		}
+		banner();
 
 		return {
 			[contractName]: contract,
 		};
 	} catch (error) {
-		console.error(`Error when deploying contract ${contractName}: `, error);
-		process.exit(1);
+		// constructor reverts are decoded, other errors are printed as is
+		const decoded = decodeRevert(error, { contractName });
+		const message = decoded
+			? `Deployment ${formatRevert(decoded)}`
+			: (error as Error).message;
+
+		console.error(
+			`Error when deploying contract ${contractName}: `,
+			decoded ? message : error
+		);
+		json &&
+			console.log(
+				JSON.stringify({
+					event: 'failed',
+					contractName,
+					error: message,
+				})
+			);
+		throw decoded ? new Error(message) : error;
 	}
 };
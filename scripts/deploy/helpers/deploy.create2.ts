@@ -0,0 +1,115 @@
+import { ethers } from 'hardhat';
+import { Contract, PayableOverrides } from 'ethers';
+
+/**
+ * Deterministic deployment proxy (https://github.com/Arachnid/deterministic-deployment-proxy).
+ * It is deployed by a pre-signed transaction without chain id, so it lives at
+ * the same address on every network. Calldata is `salt ++ initCode`, the proxy
+ * forwards `msg.value` and returns the created address.
+ */
+export const CREATE2_FACTORY_ADDRESS =
+	'0x4e59b44847b379578588920cA78FbF26c0B4956C';
+const CREATE2_FACTORY_DEPLOY_TX =
+	'0xf8a58085174876e800830186a08080b853604580600e600039806000f350fe7fffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffe03601600081602082378035828234f58015156039578182fd5b8082525050506014600cf31ba02222222222222222222222222222222222222222222222222222222222222222a02222222222222222222222222222222222222222222222222222222222222222';
+
+/**
+ * convert user salt into bytes32, plain strings are hashed
+ * @param salt bytes32 hex string or any string
+ */
+export const toSalt = (salt: string) =>
+	ethers.utils.isHexString(salt, 32) ? salt : ethers.utils.id(salt);
+
+/**
+ * creation code of a contract with encoded constructor arguments
+ * @param contractName contract name
+ * @param args constructor arguments
+ */
+export const getInitCode = async (contractName: string, args: any[] = []) => {
+	const Factory = await ethers.getContractFactory(contractName);
+	return Factory.getDeployTransaction(...args).data as string;
+};
+
+/**
+ * predict the address of a contract deployed with CREATE2
+ * @param contractName contract name
+ * @param args constructor arguments
+ * @param salt bytes32 hex string or any string
+ */
+export const predictAddress = async (
+	contractName: string,
+	args: any[] = [],
+	salt: string
+) =>
+	ethers.utils.getCreate2Address(
+		CREATE2_FACTORY_ADDRESS,
+		toSalt(salt),
+		ethers.utils.keccak256(await getInitCode(contractName, args))
+	);
+
+/**
+ * deploy the CREATE2 factory on current network if it is not there yet
+ */
+export const ensureCreate2Factory = async () => {
+	const { provider } = ethers;
+
+	if ((await provider.getCode(CREATE2_FACTORY_ADDRESS)) !== '0x') {
+		return;
+	}
+
+	// fund the one-time deployer of the pre-signed transaction
+	const { from, gasLimit, gasPrice } = ethers.utils.parseTransaction(
+		CREATE2_FACTORY_DEPLOY_TX
+	);
+	const cost = gasLimit.mul(gasPrice ?? 0);
+	const balance = await provider.getBalance(from as string);
+	if (balance.lt(cost)) {
+		const [funder] = await ethers.getSigners();
+		const fundTx = await funder.sendTransaction({
+			to: from,
+			value: cost.sub(balance),
+		});
+		await fundTx.wait();
+	}
+
+	const hash = await provider.send('eth_sendRawTransaction', [
+		CREATE2_FACTORY_DEPLOY_TX,
+	]);
+	await provider.waitForTransaction(hash);
+};
+
+/**
+ * deploy a contract through the CREATE2 factory. Note that `msg.sender` in the
+ * constructor is the factory, not the signer.
+ * @param contractName contract name
+ * @param args constructor arguments
+ * @param salt bytes32 hex string or any string
+ * @param overrides transaction overrides, `value` is forwarded to the constructor
+ */
+export const create2Deploy = async (
+	contractName: string,
+	args: any[] = [],
+	salt: string,
+	overrides: PayableOverrides = {}
+): Promise<Contract> => {
+	await ensureCreate2Factory();
+
+	const Factory = await ethers.getContractFactory(contractName);
+	const initCode = await getInitCode(contractName, args);
+	const address = await predictAddress(contractName, args, salt);
+
+	if ((await ethers.provider.getCode(address)) !== '0x') {
+		throw new Error(`${contractName} is already deployed at ${address}`);
+	}
+
+	const deployTransaction = await Factory.signer.sendTransaction({
+		...overrides,
+		to: CREATE2_FACTORY_ADDRESS,
+		data: ethers.utils.hexConcat([toSalt(salt), initCode]),
+	});
+
+	// mimic `ContractFactory.deploy` so `deployed()` and loggers keep working
+	const contract = Factory.attach(address);
+	ethers.utils.defineReadOnly(contract, 'deployTransaction', deployTransaction);
+
+	return contract;
+};
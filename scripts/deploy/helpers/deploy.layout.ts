@@ -0,0 +1,204 @@
+import { artifacts } from 'hardhat';
+import { BigNumber } from 'ethers';
+
+export interface StorageVariableInterface {
+	label: string;
+	slot: string;
+	offset: number; // bytes within the slot
+	type: string; // key of `types`
+	contract: string;
+}
+
+export interface StorageTypeInterface {
+	label: string; // e.g. `mapping(address => struct Ballot.Voter)`
+	encoding: 'inplace' | 'mapping' | 'dynamic_array' | 'bytes';
+	numberOfBytes: string;
+	key?: string; // mapping key type
+	value?: string; // mapping value type
+	base?: string; // array element type
+	members?: StorageVariableInterface[]; // struct members
+}
+
+// solc `storageLayout` output
+export interface StorageLayoutInterface {
+	storage: StorageVariableInterface[];
+	types: Record<string, StorageTypeInterface> | null;
+}
+
+/**
+ * storage layout of a compiled contract, from its hardhat build info
+ * @param contractName contract name
+ */
+export const getStorageLayout = async (
+	contractName: string
+): Promise<StorageLayoutInterface> => {
+	const { sourceName } = await artifacts.readArtifact(contractName);
+	const buildInfo = await artifacts.getBuildInfo(
+		`${sourceName}:${contractName}`
+	);
+	// hardhat types only declare the default outputs
+	const { storageLayout: layout } = (buildInfo?.output.contracts[sourceName][
+		contractName
+	] ?? {}) as { storageLayout?: StorageLayoutInterface };
+	if (!layout) {
+		throw new Error(
+			`No storage layout of ${contractName}, run \`npx hardhat compile --force\``
+		);
+	}
+	return layout;
+};
+
+const getType = (layout: StorageLayoutInterface, type: string) =>
+	(layout.types ?? {})[type];
+
+// first byte of a variable, counted from slot 0
+const getStart = ({ slot, offset }: StorageVariableInterface) =>
+	BigNumber.from(slot).mul(32).add(offset);
+
+const getEnd = (
+	layout: StorageLayoutInterface,
+	variable: StorageVariableInterface
+) => getStart(variable).add(getType(layout, variable.type).numberOfBytes);
+
+/**
+ * problems of storing a value of `newType` where `oldType` was stored.
+ * Struct members can only be appended to mapping values, elsewhere the
+ * struct size is part of the layout
+ * @param oldLayout deployed layout
+ * @param oldType deployed type
+ * @param newLayout upgraded layout
+ * @param newType upgraded type
+ * @param name variable name in messages
+ * @param canGrow whether the type may take more bytes
+ */
+const compareTypes = (
+	oldLayout: StorageLayoutInterface,
+	oldType: string,
+	newLayout: StorageLayoutInterface,
+	newType: string,
+	name: string,
+	canGrow = false
+): string[] => {
+	const before = getType(oldLayout, oldType);
+	const after = getType(newLayout, newType);
+	const changed = [
+		`\`${name}\` changed from ${before.label} to ${after.label}`,
+	];
+
+	if (before.encoding !== after.encoding) {
+		return changed;
+	}
+	if (before.encoding === 'mapping') {
+		return getType(oldLayout, before.key as string).label !==
+			getType(newLayout, after.key as string).label
+			? changed
+			: compareTypes(
+					oldLayout,
+					before.value as string,
+					newLayout,
+					after.value as string,
+					`${name}[]`,
+					true
+			  );
+	}
+	if (before.encoding === 'dynamic_array' || before.base) {
+		// static arrays keep their length, elements keep their size
+		return before.encoding === 'inplace' &&
+			before.numberOfBytes !== after.numberOfBytes
+			? changed
+			: compareTypes(
+					oldLayout,
+					before.base as string,
+					newLayout,
+					after.base as string,
+					`${name}[]`
+			  );
+	}
+	if (before.members && after.members) {
+		const members = after.members;
+		return before.members
+			.map((member, index) => {
+				const match = members[index];
+				if (!match || match.label !== member.label) {
+					return [`\`${name}.${member.label}\` was removed or moved`];
+				}
+				return match.slot !== member.slot || match.offset !== member.offset
+					? [`\`${name}.${member.label}\` moved`]
+					: compareTypes(
+							oldLayout,
+							member.type,
+							newLayout,
+							match.type,
+							`${name}.${member.label}`
+					  );
+			})
+			.reduce((errors, memberErrors) => errors.concat(memberErrors), [])
+			.concat(
+				!canGrow && before.numberOfBytes !== after.numberOfBytes
+					? [
+							`\`${name}\` changed size from ${before.numberOfBytes} to ${after.numberOfBytes} bytes`,
+					  ]
+					: []
+			);
+	}
+	// enums only need the same size, new members can be appended
+	if (before.label.startsWith('enum ') && after.label.startsWith('enum ')) {
+		return before.numberOfBytes === after.numberOfBytes ? [] : changed;
+	}
+	return before.label === after.label ? [] : changed;
+};
+
+/**
+ * problems of upgrading a proxy from a deployed layout to a new one, empty
+ * when the state is kept: every variable stays in place with a compatible
+ * type, new variables come after the existing ones
+ * @param oldLayout layout of the deployed implementation
+ * @param newLayout layout of the new implementation
+ */
+export const compareStorageLayouts = (
+	oldLayout: StorageLayoutInterface,
+	newLayout: StorageLayoutInterface
+) => {
+	const errors: string[] = [];
+
+	oldLayout.storage.forEach((variable) => {
+		const match = newLayout.storage.find(
+			({ label }) => label === variable.label
+		);
+		if (!match) {
+			errors.push(`\`${variable.label}\` was removed or renamed`);
+		} else if (!getStart(match).eq(getStart(variable))) {
+			errors.push(
+				`\`${variable.label}\` moved from slot ${variable.slot} to slot ${match.slot}`
+			);
+		} else {
+			errors.push(
+				...compareTypes(
+					oldLayout,
+					variable.type,
+					newLayout,
+					match.type,
+					variable.label
+				)
+			);
+		}
+	});
+
+	const end = oldLayout.storage.reduce((last, variable) => {
+		const variableEnd = getEnd(oldLayout, variable);
+		return variableEnd.gt(last) ? variableEnd : last;
+	}, BigNumber.from(0));
+	newLayout.storage
+		.filter(
+			({ label }) =>
+				!oldLayout.storage.some((variable) => variable.label === label)
+		)
+		.filter((variable) => getStart(variable).lt(end))
+		.forEach(({ label, slot }) =>
+			errors.push(
+				`\`${label}\` was inserted at slot ${slot}, before existing variables`
+			)
+		);
+
+	return errors;
+};
@@ -1,4 +1,4 @@
-import { Contract } from 'ethers';
+import { BigNumber, Contract, utils } from 'ethers';
 
 interface DeployLoggerParamsInterface {
 	instance: Contract;
@@ -7,25 +7,62 @@ interface DeployLoggerParamsInterface {
 
 interface DeployLoggerOptionsInterface {
 	verbose: boolean;
+	json?: boolean; // print one JSON object per line (NDJSON)
+}
+
+export interface DeployLogInterface {
+	contractName: string;
+	address: string;
+	transactionHash: string;
+	blockNumber: number;
+	gasUsed: string;
+	effectiveGasPrice?: string; // wei, missing when the network reports no price
+	cost?: string; // ether
 }
 
 export const deployLogger = async (
 	{ instance, contractName }: DeployLoggerParamsInterface,
-	{ verbose = true }: DeployLoggerOptionsInterface
+	{ verbose = true, json = false }: DeployLoggerOptionsInterface
 ) => {
-	const { address: contractAddress } = instance;
+	const { address: contractAddress, deployTransaction } = instance;
+	const receipt = await deployTransaction.wait();
+	const { gasUsed, blockNumber } = receipt;
+	// some networks leave `effectiveGasPrice` out of their receipts
+	const effectiveGasPrice: BigNumber | undefined =
+		receipt.effectiveGasPrice ?? deployTransaction.gasPrice;
 
-	if (!verbose) {
+	const deployLog: DeployLogInterface = {
+		contractName,
+		address: contractAddress,
+		transactionHash: deployTransaction.hash,
+		blockNumber,
+		gasUsed: gasUsed.toString(),
+		...(effectiveGasPrice && {
+			effectiveGasPrice: effectiveGasPrice.toString(),
+			cost: utils.formatEther(gasUsed.mul(effectiveGasPrice)),
+		}),
+	};
+
+	if (json) {
+		console.log(JSON.stringify({ event: 'deployed', ...deployLog }));
+	} else if (!verbose) {
 		console.log(`Deployed ${contractName}: ${contractAddress}`);
 	} else {
-		const {
-			deployTransaction: { hash, gasPrice, timestamp },
-		} = instance;
-
 		console.log(`### ${contractName} ###`);
 		console.log(`Address: ${contractAddress}`);
-		console.log(`Transaction hash: ${hash}`);
-		gasPrice && console.log(`Gas price: ${gasPrice}`);
-		timestamp && console.log(`Timestamp: ${timestamp}`);
+		console.log(`Transaction hash: ${deployLog.transactionHash}`);
+		console.log(`Block number: ${blockNumber}`);
+		console.log(`Gas used: ${deployLog.gasUsed}`);
+		if (effectiveGasPrice) {
+			console.log(
+				`Effective gas price: ${utils.formatUnits(
+					effectiveGasPrice,
+					'gwei'
+				)} gwei`
+			);
+			console.log(`Cost: ${deployLog.cost} ETH`);
+		}
 	}
+
+	return deployLog;
 };
@@ -0,0 +1,242 @@
+import { artifacts, ethers } from 'hardhat';
+import {
+	DeployFuncOptionsInterface,
+	DeployFuncParamsInterface,
+	simpleDeployFunc,
+} from './deploy.base';
+import { toSalt } from './deploy.create2';
+import { proxyDeployFunc } from './deploy.proxy';
+import {
+	DeploymentRecordInterface,
+	loadDeploymentRecord,
+	serializeArgs,
+} from './deploy.record';
+
+export interface DeployStepInterface {
+	contractName: string;
+	dependsOn?: string[]; // contract names which must be deployed first
+	// build deploy params, receive records of already deployed steps
+	params?: (
+		deployments: Record<string, DeploymentRecordInterface>
+	) => DeployFuncParamsInterface | Promise<DeployFuncParamsInterface>;
+}
+
+export type DeployStepStatus = 'deployed' | 'skipped' | 'failed' | 'pending';
+
+export interface DeployStepResultInterface {
+	contractName: string;
+	status: DeployStepStatus;
+	address?: string;
+	error?: Error;
+}
+
+export interface DeployPipelineOptionsInterface
+	extends DeployFuncOptionsInterface {
+	force?: boolean; // redeploy even if deployment record matches
+}
+
+/**
+ * order steps so every step comes after its dependencies,
+ * keep the given order otherwise
+ * @param steps deploy steps
+ */
+export const sortDeploySteps = (steps: DeployStepInterface[]) => {
+	const stepsByName = new Map<string, DeployStepInterface>();
+	steps.forEach((step) => {
+		if (stepsByName.has(step.contractName)) {
+			throw new Error(`Duplicated deploy step ${step.contractName}`);
+		}
+		stepsByName.set(step.contractName, step);
+	});
+
+	const sorted: DeployStepInterface[] = [];
+	const visiting = new Set<string>();
+	const visited = new Set<string>();
+
+	const visit = (step: DeployStepInterface) => {
+		if (visited.has(step.contractName)) {
+			return;
+		}
+		if (visiting.has(step.contractName)) {
+			throw new Error(`Circular dependency at ${step.contractName}`);
+		}
+		visiting.add(step.contractName);
+
+		(step.dependsOn ?? []).forEach((dependency) => {
+			const dependencyStep = stepsByName.get(dependency);
+			if (!dependencyStep) {
+				throw new Error(
+					`${step.contractName} depends on unknown step ${dependency}`
+				);
+			}
+			visit(dependencyStep);
+		});
+
+		visiting.delete(step.contractName);
+		visited.add(step.contractName);
+		sorted.push(step);
+	};
+
+	steps.forEach(visit);
+
+	return sorted;
+};
+
+/**
+ * check whether the recorded deployment is still valid: same bytecode,
+ * same constructor args and the expected code is on chain. For a proxy,
+ * the implementation code and the initializer args are checked
+ * @param record deployment record
+ * @param params deploy params of the step
+ */
+export const isDeploymentUpToDate = async (
+	record: DeploymentRecordInterface,
+	{
+		contractName,
+		contractParams = [],
+		overrides = {},
+		salt,
+		proxy = false,
+	}: DeployFuncParamsInterface
+) => {
+	const { bytecode, deployedBytecode } = await artifacts.readArtifact(
+		contractName
+	);
+	const value = await overrides.value;
+
+	if (
+		record.bytecodeHash !== ethers.utils.keccak256(bytecode) ||
+		JSON.stringify(record.args) !==
+			JSON.stringify(serializeArgs(contractParams)) ||
+		record.value !== ethers.BigNumber.from(value ?? 0).toString() ||
+		record.salt !== (salt === undefined ? undefined : toSalt(salt)) ||
+		Boolean(record.proxy) !== proxy
+	) {
+		return false;
+	}
+
+	// contracts with immutable variables never match here and are redeployed
+	const code = await ethers.provider.getCode(
+		record.proxy?.implementation ?? record.address
+	);
+	return (
+		ethers.utils.keccak256(code) === ethers.utils.keccak256(deployedBytecode)
+	);
+};
+
+/**
+ * deploy a list of steps in dependency order. Steps whose deployment record
+ * is up to date are skipped, so rerunning after a failure resumes from the
+ * failed step. A step whose record is a deployed proxy fails when it is out of
+ * date or forced, proxies are upgraded instead.
+ * @param steps deploy steps
+ * @param options pipeline options
+ */
+export const runDeployPipeline = async (
+	steps: DeployStepInterface[],
+	options: DeployPipelineOptionsInterface = {}
+): Promise<DeployStepResultInterface[]> => {
+	const { force = false, ...deployOptions } = options;
+	const sortedSteps = sortDeploySteps(steps);
+	const deployments: Record<string, DeploymentRecordInterface> = {};
+	const results: DeployStepResultInterface[] = [];
+
+	for (const step of sortedSteps) {
+		const { contractName } = step;
+
+		// stop at the first failure, the rest is resumed on next run
+		if (results.some(({ status }) => status === 'failed')) {
+			results.push({ contractName, status: 'pending' });
+			continue;
+		}
+
+		try {
+			const params = step.params
+				? { ...(await step.params(deployments)), contractName }
+				: { contractName };
+
+			const record = loadDeploymentRecord(contractName);
+			if (!force && record && (await isDeploymentUpToDate(record, params))) {
+				deployOptions.json
+					? console.log(
+							JSON.stringify({
+								event: 'skipped',
+								contractName,
+								address: record.address,
+							})
+					  )
+					: console.log(
+							`Skip ${contractName}, already deployed at ${record.address}`
+					  );
+				deployments[contractName] = record;
+				results.push({
+					contractName,
+					status: 'skipped',
+					address: record.address,
+				});
+				continue;
+			}
+
+			// a new proxy would replace the record and lose the state of the
+			// deployed one, its implementation is changed by the upgrade task
+			if (
+				record?.proxy &&
+				(await ethers.provider.getCode(record.address)) !== '0x'
+			) {
+				throw new Error(
+					`${contractName} is deployed behind the proxy ${record.address}, run \`hardhat upgrade --contract ${contractName}\` or remove its deployment record to deploy a new proxy`
+				);
+			}
+
+			const deployFunc = params.proxy ? proxyDeployFunc : simpleDeployFunc;
+			const { [contractName]: contract } = await deployFunc(params, {
+				...deployOptions,
+				save: true,
+			});
+			deployments[contractName] = loadDeploymentRecord(
+				contractName
+			) as DeploymentRecordInterface;
+			results.push({
+				contractName,
+				status: 'deployed',
+				address: contract.address,
+			});
+		} catch (error) {
+			results.push({ contractName, status: 'failed', error: error as Error });
+		}
+	}
+
+	return results;
+};
+
+/**
+ * print pipeline results as a table, or as a single NDJSON line
+ * @param results pipeline results
+ * @param json print JSON instead of table
+ */
+export const logDeployResults = (
+	results: DeployStepResultInterface[],
+	json = false
+) => {
+	if (json) {
+		console.log(
+			JSON.stringify({
+				event: 'summary',
+				results: results.map(({ error, ...result }) => ({
+					...result,
+					...(error && { error: error.message }),
+				})),
+			})
+		);
+		return;
+	}
+
+	console.table(
+		results.map(({ contractName, status, address, error }) => ({
+			contract: contractName,
+			status,
+			address: address ?? '',
+			error: error?.message ?? '',
+		}))
+	);
+};
@@ -0,0 +1,279 @@
+import { artifacts, ethers, network } from 'hardhat';
+import { Contract } from 'ethers';
+import type { ProxyAdmin } from '../../../typechain/ProxyAdmin';
+import { getConfirmations } from '../../../helpers/networks';
+import { decodeRevert, formatRevert } from '../../../helpers/revert';
+import {
+	DeployFuncOptionsInterface,
+	DeployFuncParamsInterface,
+	simpleDeployFunc,
+} from './deploy.base';
+import { compareStorageLayouts, getStorageLayout } from './deploy.layout';
+import { deployLogger } from './deploy.logger';
+import {
+	buildDeploymentRecord,
+	ImplementationRecordInterface,
+	loadDeploymentRecord,
+	saveDeploymentRecord,
+} from './deploy.record';
+
+// bytes32(uint256(keccak256("eip1967.proxy.implementation")) - 1)
+export const IMPLEMENTATION_SLOT =
+	'0x360894a13ba1a3210667c828492db98dca3e2076cc3735a920a3ca505d382bbc';
+
+export interface ProxyDeployFuncParamsInterface
+	extends DeployFuncParamsInterface {
+	initializer?: string; // receives `contractParams`, `initialize` by default
+}
+
+export interface UpgradeParamsInterface {
+	contractName: string; // deployment record of the proxy
+	implementation?: string; // new implementation contract, default is contractName
+	dryRun?: boolean; // only check the storage layout
+}
+
+/**
+ * ProxyAdmin of the current network, deployed and recorded on first use
+ * @param options deploy options
+ */
+export const getProxyAdmin = async (
+	options: DeployFuncOptionsInterface = {}
+) => {
+	const record = loadDeploymentRecord('ProxyAdmin');
+	const { deployedBytecode } = await artifacts.readArtifact('ProxyAdmin');
+	// records of a local network outlive the node
+	if (
+		record &&
+		(await ethers.provider.getCode(record.address)) === deployedBytecode
+	) {
+		return (await ethers.getContractAt(
+			'ProxyAdmin',
+			record.address
+		)) as ProxyAdmin;
+	}
+
+	const { ProxyAdmin } = await simpleDeployFunc(
+		{ contractName: 'ProxyAdmin' },
+		{ ...options, save: true }
+	);
+	return ProxyAdmin as ProxyAdmin;
+};
+
+/**
+ * implementation address of a proxy, read from its EIP-1967 slot
+ * @param proxyAddress proxy address
+ */
+export const getImplementationAddress = async (proxyAddress: string) =>
+	ethers.utils.getAddress(
+		ethers.utils.hexDataSlice(
+			await ethers.provider.getStorageAt(proxyAddress, IMPLEMENTATION_SLOT),
+			12
+		)
+	);
+
+/**
+ * deploy an implementation contract and build its history entry
+ * @param contractName implementation contract name
+ */
+const deployImplementation = async (
+	contractName: string
+): Promise<ImplementationRecordInterface> => {
+	const Factory = await ethers.getContractFactory(contractName);
+	const implementation = await Factory.deploy();
+	const receipt = await implementation.deployTransaction.wait(
+		getConfirmations(network)
+	);
+
+	return {
+		contractName,
+		address: implementation.address,
+		transactionHash: receipt.transactionHash,
+		blockNumber: receipt.blockNumber,
+		bytecodeHash: ethers.utils.keccak256(Factory.bytecode),
+		storageLayout: await getStorageLayout(contractName),
+	};
+};
+
+/**
+ * deploy a contract behind a transparent proxy administrated by the ProxyAdmin
+ * of the network. `contractParams` are given to the initializer instead of the
+ * constructor. The record holds the proxy address, the implementation ABI and
+ * the implementation history
+ * @param params deploy params
+ * @param options deploy options
+ */
+export const proxyDeployFunc = async (
+	{
+		contractName,
+		contractParams = [],
+		overrides = {},
+		salt,
+		initializer = 'initialize',
+	}: ProxyDeployFuncParamsInterface,
+	options: DeployFuncOptionsInterface = {}
+) => {
+	const { verbose = true, save = true, json = false } = options;
+	const log = (...args) => {
+		verbose && !json && console.log(...args);
+	};
+	if (salt !== undefined) {
+		throw new Error(
+			`${contractName} cannot be deployed behind a proxy with a salt`
+		);
+	}
+
+	const admin = await getProxyAdmin(options);
+	log(`Start deploy ${contractName} implementation`);
+	const implementation = await deployImplementation(contractName);
+
+	const Factory = await ethers.getContractFactory(contractName);
+	const ProxyFactory = await ethers.getContractFactory(
+		'TransparentUpgradeableProxy'
+	);
+	let proxy: Contract;
+	try {
+		proxy = await ProxyFactory.deploy(
+			implementation.address,
+			admin.address,
+			Factory.interface.encodeFunctionData(initializer, contractParams),
+			overrides
+		);
+		await proxy.deployed();
+	} catch (error) {
+		// the proxy constructor bubbles up the revert of the initializer
+		const decoded = decodeRevert(error, { contractName });
+		throw decoded
+			? new Error(`Initialization of ${contractName} ${formatRevert(decoded)}`)
+			: error;
+	}
+	await proxy.deployTransaction.wait(getConfirmations(network));
+	await deployLogger({ instance: proxy, contractName }, { verbose, json });
+	log(`Implementation: ${implementation.address}`);
+
+	if (save) {
+		const record = await buildDeploymentRecord(
+			contractName,
+			proxy,
+			contractParams
+		);
+		const recordPath = saveDeploymentRecord({
+			...record,
+			proxy: {
+				admin: admin.address,
+				implementation: implementation.address,
+				implementations: [implementation],
+			},
+		});
+		log(`Deployment record: ${recordPath}`);
+	}
+
+	return {
+		[contractName]: Factory.attach(proxy.address) as Contract,
+	};
+};
+
+/**
+ * upgrade a proxy from its deployment record. Refuses when the chain does not
+ * match the record, when the new storage layout would corrupt the state of
+ * the last implementation or when the signer does not own the ProxyAdmin
+ * @param params contract to upgrade and new implementation
+ * @param options deploy options
+ * @return the new implementation, undefined for a dry run
+ */
+export const upgradeProxy = async (
+	{
+		contractName,
+		implementation: implementationName = contractName,
+		dryRun = false,
+	}: UpgradeParamsInterface,
+	options: DeployFuncOptionsInterface = {}
+) => {
+	const { verbose = true, json = false } = options;
+	const log = (message: string) => verbose && !json && console.log(message);
+
+	const record = loadDeploymentRecord(contractName);
+	if (!record?.proxy) {
+		throw new Error(
+			`No proxy deployment record of ${contractName} on network ${network.name}`
+		);
+	}
+	const { proxy } = record;
+	const current = await getImplementationAddress(record.address);
+	if (current !== ethers.utils.getAddress(proxy.implementation)) {
+		throw new Error(
+			`${contractName} proxy points to ${current}, its record to ${proxy.implementation}`
+		);
+	}
+
+	const previous = proxy.implementations[proxy.implementations.length - 1];
+	const errors = compareStorageLayouts(
+		previous.storageLayout,
+		await getStorageLayout(implementationName)
+	);
+	if (errors.length > 0) {
+		throw new Error(
+			`Upgrade of ${contractName} to ${implementationName} would corrupt its storage:\n  ${errors.join(
+				'\n  '
+			)}`
+		);
+	}
+	log(
+		`Storage layout of ${implementationName} is compatible with ${previous.contractName}`
+	);
+	if (dryRun) {
+		return undefined;
+	}
+
+	// checked first, a refused upgrade must not leave an unused implementation
+	const admin = (await ethers.getContractAt(
+		'ProxyAdmin',
+		proxy.admin
+	)) as ProxyAdmin;
+	const [owner, signer] = await Promise.all([
+		admin.owner(),
+		admin.signer.getAddress(),
+	]);
+	if (owner !== signer) {
+		throw new Error(
+			`${signer} cannot upgrade ${contractName}, the ProxyAdmin ${proxy.admin} is owned by ${owner}`
+		);
+	}
+
+	const implementation = await deployImplementation(implementationName);
+	const tx = await admin.upgradeAndCall(
+		record.address,
+		implementation.address,
+		'0x'
+	);
+	await tx.wait(getConfirmations(network));
+
+	const { abi } = await artifacts.readArtifact(implementationName);
+	saveDeploymentRecord({
+		...record,
+		abi,
+		bytecodeHash: implementation.bytecodeHash,
+		proxy: {
+			...proxy,
+			implementation: implementation.address,
+			implementations: [
+				...proxy.implementations,
+				{ ...implementation, upgradeTransactionHash: tx.hash },
+			],
+		},
+	});
+	json
+		? console.log(
+				JSON.stringify({
+					event: 'upgraded',
+					contractName,
+					address: record.address,
+					implementation: implementation.address,
+					transactionHash: tx.hash,
+				})
+		  )
+		: log(
+				`Upgraded ${contractName} at ${record.address} to ${implementationName} ${implementation.address}`
+		  );
+
+	return implementation;
+};
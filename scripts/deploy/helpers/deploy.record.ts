@@ -0,0 +1,152 @@
+import fs from 'fs';
+import path from 'path';
+import { artifacts, ethers, network } from 'hardhat';
+import { BigNumber, Contract } from 'ethers';
+import { toSalt } from './deploy.create2';
+import { StorageLayoutInterface } from './deploy.layout';
+
+export const DEPLOYMENTS_DIR = path.join(__dirname, '../../../deployments');
+
+export interface ImplementationRecordInterface {
+	contractName: string;
+	address: string;
+	transactionHash: string; // deployment of the implementation
+	blockNumber: number;
+	bytecodeHash: string;
+	storageLayout: StorageLayoutInterface; // checked by the next upgrade
+	upgradeTransactionHash?: string; // ProxyAdmin upgrade, not set for the first one
+}
+
+export interface ProxyRecordInterface {
+	admin: string; // ProxyAdmin contract
+	implementation: string;
+	implementations: ImplementationRecordInterface[]; // oldest first
+}
+
+export interface DeploymentRecordInterface {
+	contractName: string;
+	network: string;
+	chainId: number;
+	address: string;
+	abi: any[];
+	transactionHash: string;
+	blockNumber: number;
+	deployer: string;
+	args: any[];
+	value: string; // ether sent along with the constructor, in wei
+	bytecodeHash: string; // keccak256 of the creation bytecode
+	salt?: string; // CREATE2 salt, only for deterministic deployments
+	proxy?: ProxyRecordInterface; // only for deployments behind a proxy
+}
+
+/**
+ * convert constructor arguments into JSON-safe values
+ * @param args constructor arguments
+ */
+export const serializeArgs = (args: any[]): any[] =>
+	args.map((arg) => {
+		if (BigNumber.isBigNumber(arg)) {
+			return arg.toString();
+		}
+		if (Array.isArray(arg)) {
+			return serializeArgs(arg);
+		}
+		return arg;
+	});
+
+/**
+ * path of the deployment record of a contract
+ * @param contractName contract name
+ * @param networkName network name, default is the current network
+ */
+export const getDeploymentRecordPath = (
+	contractName: string,
+	networkName: string = network.name
+) => path.join(DEPLOYMENTS_DIR, networkName, `${contractName}.json`);
+
+/**
+ * build the deployment record of a freshly deployed contract
+ * @param contractName contract name
+ * @param instance deployed contract
+ * @param args constructor arguments
+ * @param salt CREATE2 salt if contract was deployed deterministically
+ */
+export const buildDeploymentRecord = async (
+	contractName: string,
+	instance: Contract,
+	args: any[] = [],
+	salt?: string
+): Promise<DeploymentRecordInterface> => {
+	const { abi, bytecode } = await artifacts.readArtifact(contractName);
+	const { deployTransaction } = instance;
+	const receipt = await deployTransaction.wait();
+
+	return {
+		contractName,
+		network: network.name,
+		chainId: deployTransaction.chainId,
+		address: instance.address,
+		abi,
+		transactionHash: deployTransaction.hash,
+		blockNumber: receipt.blockNumber,
+		deployer: deployTransaction.from,
+		args: serializeArgs(args),
+		value: deployTransaction.value.toString(),
+		bytecodeHash: ethers.utils.keccak256(bytecode),
+		...(salt !== undefined && { salt: toSalt(salt) }),
+	};
+};
+
+/**
+ * write a deployment record to `deployments/<network>/<ContractName>.json`
+ * @param record deployment record
+ */
+export const saveDeploymentRecord = (record: DeploymentRecordInterface) => {
+	const recordPath = getDeploymentRecordPath(
+		record.contractName,
+		record.network
+	);
+
+	fs.mkdirSync(path.dirname(recordPath), { recursive: true });
+	fs.writeFileSync(recordPath, JSON.stringify(record, null, 2) + '\n');
+
+	return recordPath;
+};
+
+/**
+ * read a deployment record, return undefined if contract has not been deployed
+ * @param contractName contract name
+ * @param networkName network name, default is the current network
+ */
+export const loadDeploymentRecord = (
+	contractName: string,
+	networkName: string = network.name
+): DeploymentRecordInterface | undefined => {
+	const recordPath = getDeploymentRecordPath(contractName, networkName);
+
+	if (!fs.existsSync(recordPath)) {
+		return undefined;
+	}
+
+	return JSON.parse(fs.readFileSync(recordPath, 'utf8'));
+};
+
+/**
+ * get a deployed contract instance from its deployment record
+ * @param contractName contract name
+ * @param networkName network name, default is the current network
+ */
+export const getDeployedContract = async <T extends Contract = Contract>(
+	contractName: string,
+	networkName: string = network.name
+) => {
+	const record = loadDeploymentRecord(contractName, networkName);
+
+	if (!record) {
+		throw new Error(
+			`No deployment record of ${contractName} on network ${networkName}`
+		);
+	}
+
+	return (await ethers.getContractAt(record.abi, record.address)) as T;
+};
@@ -0,0 +1,48 @@
+import { BigNumber, BigNumberish, constants } from 'ethers';
+import {
+	DeployFuncParamsInterface,
+	simpleDeployFunc,
+} from './helpers/deploy.base';
+
+// escrow exits once locked, every term is disabled by default
+export interface PurchaseTermsInterface {
+	deliveryPeriod?: BigNumberish; // in seconds, for the seller to deliver
+	confirmationPeriod?: BigNumberish; // in seconds, for the buyer to confirm
+	arbiterAddress?: string; // rules on disputes
+	rulingPeriod?: BigNumberish; // in seconds, for the arbiter, required with one
+}
+
+export interface PurchaseDeployParamsInterface extends PurchaseTermsInterface {
+	sellerAddress: string; // delivers the item, the deployer pays the deposit
+	value: BigNumberish; // item value in wei
+}
+
+/**
+ * constructor (or initializer) params of the terms
+ * @param terms escrow terms
+ */
+export const getPurchaseTermsParams = ({
+	deliveryPeriod = 0,
+	confirmationPeriod = 0,
+	arbiterAddress = constants.AddressZero,
+	rulingPeriod = 0,
+}: PurchaseTermsInterface) => [
+	deliveryPeriod,
+	confirmationPeriod,
+	arbiterAddress,
+	rulingPeriod,
+];
+
+export const getPurchaseDeployParams = ({
+	sellerAddress,
+	value,
+	...terms
+}: PurchaseDeployParamsInterface): DeployFuncParamsInterface => ({
+	contractName: 'Purchase',
+	contractParams: [sellerAddress, ...getPurchaseTermsParams(terms)],
+	// seller has to deposit twice the item value
+	overrides: { value: BigNumber.from(value).mul(2) },
+});
+
+export const deployPurchase = async (params: PurchaseDeployParamsInterface) =>
+	simpleDeployFunc(getPurchaseDeployParams(params));
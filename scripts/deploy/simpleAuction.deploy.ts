@@ -0,0 +1,42 @@
+import { BigNumberish } from 'ethers';
+import {
+	DeployFuncParamsInterface,
+	simpleDeployFunc,
+} from './helpers/deploy.base';
+
+// rules of the bids, every rule is disabled by default
+export interface SimpleAuctionRulesInterface {
+	reservePrice?: BigNumberish; // in wei
+	minIncrement?: BigNumberish; // in wei
+	minIncrementPercent?: BigNumberish; // of the highest bid
+	softCloseWindow?: BigNumberish; // in seconds
+}
+
+export interface SimpleAuctionDeployParamsInterface
+	extends SimpleAuctionRulesInterface {
+	biddingTime: number;
+	beneficiaryAddress: string;
+}
+
+export const getSimpleAuctionDeployParams = ({
+	biddingTime,
+	beneficiaryAddress,
+	reservePrice = 0,
+	minIncrement = 0,
+	minIncrementPercent = 0,
+	softCloseWindow = 0,
+}: SimpleAuctionDeployParamsInterface): DeployFuncParamsInterface => ({
+	contractName: 'SimpleAuction',
+	contractParams: [
+		biddingTime,
+		beneficiaryAddress,
+		reservePrice,
+		minIncrement,
+		minIncrementPercent,
+		softCloseWindow,
+	],
+});
+
+export const deploySimpleAuction = async (
+	params: SimpleAuctionDeployParamsInterface
+) => simpleDeployFunc(getSimpleAuctionDeployParams(params));
@@ -0,0 +1,24 @@
+import { BlindAuctionDeployParamsInterface } from './blindAuction.deploy';
+import {
+	DeployFuncParamsInterface,
+	simpleDeployFunc,
+} from './helpers/deploy.base';
+
+export interface TokenBlindAuctionDeployParamsInterface
+	extends BlindAuctionDeployParamsInterface {
+	tokenAddress: string; // ERC-20 paying the deposits
+}
+
+export const getTokenBlindAuctionDeployParams = ({
+	tokenAddress,
+	biddingTime,
+	revealTime,
+	beneficiaryAddress,
+}: TokenBlindAuctionDeployParamsInterface): DeployFuncParamsInterface => ({
+	contractName: 'TokenBlindAuction',
+	contractParams: [tokenAddress, biddingTime, revealTime, beneficiaryAddress],
+});
+
+export const deployTokenBlindAuction = async (
+	params: TokenBlindAuctionDeployParamsInterface
+) => simpleDeployFunc(getTokenBlindAuctionDeployParams(params));
@@ -0,0 +1,76 @@
+import { ethers, network } from 'hardhat';
+import { BigNumber, BigNumberish } from 'ethers';
+import type { IERC20 } from '../../typechain/IERC20';
+import type { TokenPurchase } from '../../typechain/TokenPurchase';
+import { getConfirmations } from '../../helpers/networks';
+import {
+	getPurchaseTermsParams,
+	PurchaseTermsInterface,
+} from './purchase.deploy';
+import {
+	DeployFuncOptionsInterface,
+	DeployFuncParamsInterface,
+	simpleDeployFunc,
+} from './helpers/deploy.base';
+
+export interface TokenPurchaseDeployParamsInterface
+	extends PurchaseTermsInterface {
+	tokenAddress: string; // ERC-20 paying the deposits
+	sellerAddress: string; // delivers the item and pays the deposit
+	value: BigNumberish; // item value in token units
+}
+
+export const getTokenPurchaseDeployParams = ({
+	tokenAddress,
+	sellerAddress,
+	value,
+	...terms
+}: TokenPurchaseDeployParamsInterface): DeployFuncParamsInterface => ({
+	contractName: 'TokenPurchase',
+	// seller has to deposit twice the item value
+	contractParams: [
+		tokenAddress,
+		sellerAddress,
+		BigNumber.from(value).mul(2),
+		...getPurchaseTermsParams(terms),
+	],
+});
+
+/**
+ * approve and pay the deposit of an Unfunded purchase
+ * @param purchase TokenPurchase connected to its seller
+ */
+export const depositTokenPurchase = async (purchase: TokenPurchase) => {
+	const token = (await ethers.getContractAt(
+		'IERC20',
+		await purchase.token(),
+		purchase.signer
+	)) as IERC20;
+	const deposit = (await purchase.value()).mul(2);
+
+	await (
+		await token.approve(purchase.address, deposit)
+	).wait(getConfirmations(network));
+	const tx = await purchase.deposit();
+	await tx.wait(getConfirmations(network));
+	return tx;
+};
+
+/**
+ * deploy the purchase, then pay the deposit of the seller, who has to be the
+ * deployer. A failed deposit leaves the purchase Unfunded,
+ * `depositTokenPurchase` pays it later
+ * @param params deploy params
+ * @param options deploy options
+ */
+export const deployTokenPurchase = async (
+	params: TokenPurchaseDeployParamsInterface,
+	options?: DeployFuncOptionsInterface
+) => {
+	const deployed = await simpleDeployFunc(
+		getTokenPurchaseDeployParams(params),
+		options
+	);
+	await depositTokenPurchase(deployed.TokenPurchase as TokenPurchase);
+	return deployed;
+};
@@ -0,0 +1,35 @@
+import {
+	DeployFuncParamsInterface,
+	simpleDeployFunc,
+} from './helpers/deploy.base';
+import { SimpleAuctionDeployParamsInterface } from './simpleAuction.deploy';
+
+export interface TokenSimpleAuctionDeployParamsInterface
+	extends SimpleAuctionDeployParamsInterface {
+	tokenAddress: string; // ERC-20 paying the bids
+}
+
+export const getTokenSimpleAuctionDeployParams = ({
+	tokenAddress,
+	biddingTime,
+	beneficiaryAddress,
+	reservePrice = 0,
+	minIncrement = 0,
+	minIncrementPercent = 0,
+	softCloseWindow = 0,
+}: TokenSimpleAuctionDeployParamsInterface): DeployFuncParamsInterface => ({
+	contractName: 'TokenSimpleAuction',
+	contractParams: [
+		tokenAddress,
+		biddingTime,
+		beneficiaryAddress,
+		reservePrice,
+		minIncrement,
+		minIncrementPercent,
+		softCloseWindow,
+	],
+});
+
+export const deployTokenSimpleAuction = async (
+	params: TokenSimpleAuctionDeployParamsInterface
+) => simpleDeployFunc(getTokenSimpleAuctionDeployParams(params));
@@ -0,0 +1,220 @@
+import { BigNumber, utils } from 'ethers';
+import { IndexedEventInterface, IndexerStateInterface } from './indexer.store';
+
+export interface EventQueryInterface {
+	contractName?: string;
+	address?: string;
+	event?: string;
+	from?: string;
+}
+
+export interface BidInterface {
+	bidder: string;
+	amount: string; // in wei
+	blockNumber: number;
+	transactionHash: string;
+}
+
+export interface EscrowInterface {
+	address: string;
+	state: string; // same names as `Purchase.State`
+	buyer?: string;
+	confirmedAt?: number; // block of `PurchaseConfirmed`
+	events: string[];
+}
+
+export interface VoteTallyInterface {
+	voters: string[]; // given the right to vote, in chain order
+	voteCounts: Record<string, string>; // proposal index => vote count
+	totalVotes: string;
+}
+
+const isSameAddress = (a: string, b: string) =>
+	utils.getAddress(a) === utils.getAddress(b);
+
+/**
+ * indexed events matching every given field, in chain order
+ * @param state indexer state
+ * @param query fields to match
+ */
+export const getEvents = (
+	state: IndexerStateInterface,
+	{ contractName, address, event, from }: EventQueryInterface = {}
+) =>
+	state.events.filter(
+		(indexedEvent) =>
+			(contractName === undefined ||
+				indexedEvent.contractName === contractName) &&
+			(address === undefined || isSameAddress(indexedEvent.address, address)) &&
+			(event === undefined || indexedEvent.event === event) &&
+			(from === undefined || isSameAddress(indexedEvent.from, from))
+	);
+
+/**
+ * every highest bid of a SimpleAuction, in bid order
+ * @param state indexer state
+ * @param auctionAddress SimpleAuction address
+ */
+export const getBidHistory = (
+	state: IndexerStateInterface,
+	auctionAddress: string
+): BidInterface[] =>
+	getEvents(state, {
+		address: auctionAddress,
+		event: 'HighestBidIncreased',
+	}).map(({ args, blockNumber, transactionHash }) => ({
+		bidder: args.bidder,
+		amount: args.amount,
+		blockNumber,
+		transactionHash,
+	}));
+
+/**
+ * end time of a SimpleAuction after its last soft close extension
+ * @param state indexer state
+ * @param auctionAddress SimpleAuction address
+ * @return undefined while the auction was never extended
+ */
+export const getAuctionEndTime = (
+	state: IndexerStateInterface,
+	auctionAddress: string
+) =>
+	getEvents(state, {
+		address: auctionAddress,
+		event: 'AuctionExtended',
+	}).pop()?.args.auctionEndTime;
+
+/**
+ * winner of an ended SimpleAuction or BlindAuction. When the reserve price
+ * of a SimpleAuction is not met, there is no winner and the highest bid
+ * is refunded
+ * @param state indexer state
+ * @param auctionAddress auction address
+ * @return undefined while the auction has not ended
+ */
+export const getAuctionResult = (
+	state: IndexerStateInterface,
+	auctionAddress: string
+) => {
+	const [ended] = getEvents(state, {
+		address: auctionAddress,
+		event: 'AuctionEnded',
+	});
+	if (!ended) {
+		return undefined;
+	}
+
+	const [reserveNotMet] = getEvents(state, {
+		address: auctionAddress,
+		event: 'ReserveNotMet',
+	});
+
+	// SimpleAuction names the value `amount`, BlindAuction `highestBid`
+	return {
+		winner: ended.args.winner,
+		amount: ended.args.amount ?? ended.args.highestBid,
+		blockNumber: ended.blockNumber,
+		reserveMet: reserveNotMet === undefined,
+		...(reserveNotMet && {
+			highestBidder: reserveNotMet.args.highestBidder,
+			highestBid: reserveNotMet.args.highestBid,
+		}),
+	};
+};
+
+/**
+ * vote counts of a Ballot rebuilt from its events
+ * @param state indexer state
+ * @param ballotAddress Ballot address
+ */
+export const getVoteTally = (
+	state: IndexerStateInterface,
+	ballotAddress: string
+): VoteTallyInterface => {
+	const voters: string[] = [];
+	const votes = new Map<string, string>(); // voter => proposal
+	const voteCounts: Record<string, string> = {};
+	let totalVotes = BigNumber.from(0);
+
+	const addVotes = (proposal: string, weight: string) => {
+		voteCounts[proposal] = BigNumber.from(voteCounts[proposal] ?? 0)
+			.add(weight)
+			.toString();
+		totalVotes = totalVotes.add(weight);
+	};
+
+	getEvents(state, { address: ballotAddress }).forEach(({ event, args }) => {
+		if (event === 'RightGiven') {
+			voters.push(args.voter);
+		} else if (event === 'Voted') {
+			votes.set(args.voter, args.proposal);
+			addVotes(args.proposal, args.weight);
+		} else if (event === 'Delegated') {
+			// the weight is counted now only when the delegate already voted,
+			// otherwise it is part of the weight of its `Voted`
+			const proposal = votes.get(args.to);
+			proposal !== undefined && addVotes(proposal, args.weight);
+		}
+	});
+
+	return { voters, voteCounts, totalVotes: totalVotes.toString() };
+};
+
+/**
+ * state of a purchase after one of its events
+ */
+const escrowStates: Record<string, string> = {
+	PurchaseConfirmed: 'Locked',
+	ItemReceived: 'Release',
+	SellerRefunded: 'Inactive',
+	Aborted: 'Inactive',
+	ItemDelivered: 'Locked',
+	DeliveryTimedOut: 'Inactive',
+	ConfirmationTimedOut: 'Inactive',
+	DisputeOpened: 'Disputed',
+	DisputeResolved: 'Inactive',
+	RulingTimedOut: 'Inactive',
+};
+
+/**
+ * rebuild a Purchase escrow from its events
+ * @param address Purchase address
+ * @param events events of the purchase, in chain order
+ */
+const buildEscrow = (
+	address: string,
+	events: IndexedEventInterface[]
+): EscrowInterface => {
+	const confirmed = events.find(({ event }) => event === 'PurchaseConfirmed');
+
+	return {
+		address,
+		state:
+			events.length > 0
+				? escrowStates[events[events.length - 1].event]
+				: 'Created',
+		buyer: confirmed?.from,
+		confirmedAt: confirmed?.blockNumber,
+		events: events.map(({ event }) => event),
+	};
+};
+
+/**
+ * every indexed Purchase, optionally only the ones of a buyer
+ * @param state indexer state
+ * @param buyer buyer address
+ */
+export const getEscrows = (state: IndexerStateInterface, buyer?: string) =>
+	Object.values(state.targets)
+		.filter(({ contractName }) => contractName === 'Purchase')
+		.map(({ address }) =>
+			buildEscrow(
+				address,
+				getEvents(state, { contractName: 'Purchase', address })
+			)
+		)
+		.filter(
+			(escrow) =>
+				buyer === undefined ||
+				(escrow.buyer !== undefined && isSameAddress(escrow.buyer, buyer))
+		);
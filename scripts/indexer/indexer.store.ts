@@ -0,0 +1,80 @@
+import fs from 'fs';
+import path from 'path';
+
+export const INDEXER_DIR = path.join(__dirname, '../../indexer');
+
+export interface IndexedEventInterface {
+	contractName: string;
+	address: string;
+	event: string;
+	args: Record<string, string>; // named event args, numbers as decimal strings
+	from: string; // sender of the transaction that emitted the event
+	blockNumber: number;
+	blockHash: string;
+	transactionHash: string;
+	logIndex: number;
+}
+
+export interface IndexerTargetInterface {
+	contractName: string;
+	address: string;
+	fromBlock: number; // usually the deployment block
+}
+
+export interface IndexerStateInterface {
+	chainId?: number;
+	targets: Record<string, IndexerTargetInterface & { syncedTo: number }>;
+	blocks: Record<string, string>; // recent block number => block hash, to detect reorgs
+	events: IndexedEventInterface[];
+}
+
+export interface IndexerStoreInterface {
+	load: () => IndexerStateInterface;
+	save: (state: IndexerStateInterface) => void;
+}
+
+export const emptyIndexerState = (): IndexerStateInterface => ({
+	targets: {},
+	blocks: {},
+	events: [],
+});
+
+/**
+ * keep the indexer state in memory only, mostly for tests
+ */
+export const createMemoryStore = (): IndexerStoreInterface => {
+	let state = emptyIndexerState();
+
+	return {
+		load: () => JSON.parse(JSON.stringify(state)),
+		save: (newState) => {
+			state = JSON.parse(JSON.stringify(newState));
+		},
+	};
+};
+
+/**
+ * path of the JSON store of a network
+ * @param networkName network name
+ */
+export const getIndexerStorePath = (networkName: string) =>
+	path.join(INDEXER_DIR, `${networkName}.json`);
+
+/**
+ * keep the indexer state in a JSON file
+ * @param storePath JSON file, created on first save
+ */
+export const createJsonStore = (storePath: string): IndexerStoreInterface => ({
+	load: () =>
+		fs.existsSync(storePath)
+			? JSON.parse(fs.readFileSync(storePath, 'utf8'))
+			: emptyIndexerState(),
+	save: (state) => {
+		fs.mkdirSync(path.dirname(storePath), { recursive: true });
+
+		// write to a temp file first, so a crash never leaves a broken store
+		const tempPath = `${storePath}.tmp`;
+		fs.writeFileSync(tempPath, JSON.stringify(state, null, 2) + '\n');
+		fs.renameSync(tempPath, storePath);
+	},
+});
@@ -0,0 +1,369 @@
+import {
+	BigNumber,
+	Contract,
+	Event,
+	EventFilter,
+	providers,
+	utils,
+} from 'ethers';
+import { Ballot__factory } from '../../typechain/factories/Ballot__factory';
+import { BlindAuction__factory } from '../../typechain/factories/BlindAuction__factory';
+import { Counter__factory } from '../../typechain/factories/Counter__factory';
+import { Purchase__factory } from '../../typechain/factories/Purchase__factory';
+import { SimpleAuction__factory } from '../../typechain/factories/SimpleAuction__factory';
+import {
+	IndexedEventInterface,
+	IndexerStateInterface,
+	IndexerStoreInterface,
+	IndexerTargetInterface,
+} from './indexer.store';
+
+export interface SyncOptionsInterface {
+	blockRange?: number; // blocks per `eth_getLogs` request
+	reorgDepth?: number; // block hashes kept to detect reorgs
+}
+
+export interface FollowOptionsInterface extends SyncOptionsInterface {
+	pollingInterval?: number; // in milliseconds
+	onSync?: (result: SyncResultInterface) => void;
+	onError?: (error: Error) => void;
+}
+
+export interface SyncResultInterface {
+	head: number;
+	events: IndexedEventInterface[]; // events added by this sync
+	rolledBackTo?: number; // last block kept after a reorg, -1 for a full reindex
+}
+
+/**
+ * typechain filters of the events indexed for each contract
+ */
+const indexedContracts: Record<
+	string,
+	(
+		address: string,
+		provider: providers.Provider
+	) => { contract: Contract; filters: EventFilter[] }
+> = {
+	Counter: (address, provider) => {
+		const counter = Counter__factory.connect(address, provider);
+		return { contract: counter, filters: [counter.filters.CountTo()] };
+	},
+	SimpleAuction: (address, provider) => {
+		const auction = SimpleAuction__factory.connect(address, provider);
+		return {
+			contract: auction,
+			filters: [
+				auction.filters.HighestBidIncreased(),
+				auction.filters.AuctionExtended(),
+				auction.filters.ReserveNotMet(),
+				auction.filters.AuctionEnded(),
+			],
+		};
+	},
+	BlindAuction: (address, provider) => {
+		const auction = BlindAuction__factory.connect(address, provider);
+		return { contract: auction, filters: [auction.filters.AuctionEnded()] };
+	},
+	Ballot: (address, provider) => {
+		const ballot = Ballot__factory.connect(address, provider);
+		return {
+			contract: ballot,
+			filters: [
+				ballot.filters.RightGiven(),
+				ballot.filters.Delegated(),
+				ballot.filters.Voted(),
+			],
+		};
+	},
+	Purchase: (address, provider) => {
+		const purchase = Purchase__factory.connect(address, provider);
+		return {
+			contract: purchase,
+			filters: [
+				purchase.filters.PurchaseConfirmed(),
+				purchase.filters.ItemReceived(),
+				purchase.filters.SellerRefunded(),
+				purchase.filters.Aborted(),
+				purchase.filters.ItemDelivered(),
+				purchase.filters.DeliveryTimedOut(),
+				purchase.filters.ConfirmationTimedOut(),
+				purchase.filters.DisputeOpened(),
+				purchase.filters.DisputeResolved(),
+				purchase.filters.RulingTimedOut(),
+			],
+		};
+	},
+};
+
+export const indexedContractNames = Object.keys(indexedContracts);
+
+/**
+ * named args of a decoded event, numbers as decimal strings
+ * @param contract contract which emitted the event
+ * @param event decoded event
+ */
+const serializeEventArgs = (contract: Contract, event: Event) => {
+	const { inputs } = contract.interface.getEvent(event.event as string);
+
+	return inputs.reduce<Record<string, string>>((args, input, index) => {
+		const value = event.args?.[index];
+		args[input.name] = BigNumber.isBigNumber(value)
+			? value.toString()
+			: String(value);
+		return args;
+	}, {});
+};
+
+/**
+ * decoded events of a contract in a block range, in chain order
+ * @param provider provider
+ * @param target indexed contract
+ * @param fromBlock first block
+ * @param toBlock last block
+ */
+const fetchEvents = async (
+	provider: providers.Provider,
+	{ contractName, address }: IndexerTargetInterface,
+	fromBlock: number,
+	toBlock: number
+) => {
+	const getFilters = indexedContracts[contractName];
+	if (!getFilters) {
+		throw new Error(
+			`Cannot index ${contractName}, indexed contracts are ${indexedContractNames.join(
+				', '
+			)}`
+		);
+	}
+
+	const { contract, filters } = getFilters(address, provider);
+	const results = await Promise.all(
+		filters.map((filter) => contract.queryFilter(filter, fromBlock, toBlock))
+	);
+
+	// purchase events have no args, the sender tells who confirmed
+	const senders: Record<string, string> = {};
+	const events: IndexedEventInterface[] = [];
+	for (const event of ([] as Event[]).concat(...results)) {
+		senders[event.transactionHash] =
+			senders[event.transactionHash] ??
+			(await provider.getTransaction(event.transactionHash)).from;
+
+		events.push({
+			contractName,
+			address,
+			event: event.event as string,
+			args: serializeEventArgs(contract, event),
+			from: senders[event.transactionHash],
+			blockNumber: event.blockNumber,
+			blockHash: event.blockHash,
+			transactionHash: event.transactionHash,
+			logIndex: event.logIndex,
+		});
+	}
+
+	return events;
+};
+
+const compareEvents = (a: IndexedEventInterface, b: IndexedEventInterface) =>
+	a.blockNumber - b.blockNumber || a.logIndex - b.logIndex;
+
+/**
+ * compare stored block hashes with the chain, drop everything after the
+ * last block still on the chain
+ * @param provider provider
+ * @param state indexer state, updated in place
+ * @return last block kept, undefined if there was no reorg
+ */
+const rollbackReorg = async (
+	provider: providers.Provider,
+	state: IndexerStateInterface
+) => {
+	const blockNumbers = Object.keys(state.blocks)
+		.map(Number)
+		.sort((a, b) => b - a);
+
+	let ancestor = -1;
+	for (const blockNumber of blockNumbers) {
+		const block = await provider.getBlock(blockNumber);
+		// once a block matches, its ancestors match too
+		if (block && block.hash === state.blocks[blockNumber]) {
+			ancestor = blockNumber;
+			break;
+		}
+	}
+
+	if (blockNumbers.length === 0 || ancestor === blockNumbers[0]) {
+		return undefined;
+	}
+
+	// reorg deeper than the stored hashes, reindex everything
+	if (ancestor === -1) {
+		state.blocks = {};
+		state.events = [];
+		Object.values(state.targets).forEach((target) => {
+			target.syncedTo = target.fromBlock - 1;
+		});
+		return ancestor;
+	}
+
+	blockNumbers
+		.filter((blockNumber) => blockNumber > ancestor)
+		.forEach((blockNumber) => delete state.blocks[blockNumber]);
+	state.events = state.events.filter(
+		({ blockNumber }) => blockNumber <= ancestor
+	);
+	Object.values(state.targets).forEach((target) => {
+		target.syncedTo = Math.min(target.syncedTo, ancestor);
+	});
+
+	return ancestor;
+};
+
+/**
+ * check that blocks read by the sync are still on the chain, a reorg during
+ * the sync can return logs of a dropped fork
+ * @param provider provider
+ * @param blockHashes block number => block hash
+ */
+const isCanonical = async (
+	provider: providers.Provider,
+	blockHashes: Record<string, string>
+) => {
+	for (const blockNumber of Object.keys(blockHashes)) {
+		const block = await provider.getBlock(Number(blockNumber));
+		if (!block || block.hash !== blockHashes[blockNumber]) {
+			return false;
+		}
+	}
+	return true;
+};
+
+/**
+ * index new events of the targets up to the latest block, after rolling
+ * back any reorg, and save them to the store
+ * @param provider provider
+ * @param store indexer store
+ * @param targets contracts to index, added to the ones already in the store
+ * @param options sync options
+ * @param attempts syncs tried before giving up on a chain which keeps reorganizing
+ */
+export const syncEvents = async (
+	provider: providers.Provider,
+	store: IndexerStoreInterface,
+	targets: IndexerTargetInterface[] = [],
+	{ blockRange = 2000, reorgDepth = 64 }: SyncOptionsInterface = {},
+	attempts = 3
+): Promise<SyncResultInterface> => {
+	const state = store.load();
+	const { chainId } = await provider.getNetwork();
+	if (state.chainId !== undefined && state.chainId !== chainId) {
+		throw new Error(
+			`Indexer store belongs to chain ${state.chainId}, provider is on chain ${chainId}`
+		);
+	}
+	state.chainId = chainId;
+
+	const rolledBackTo = await rollbackReorg(provider, state);
+
+	targets.forEach((target) => {
+		const address = utils.getAddress(target.address);
+		state.targets[address] = state.targets[address] ?? {
+			...target,
+			address,
+			syncedTo: target.fromBlock - 1,
+		};
+	});
+
+	const head = await provider.getBlock('latest');
+	const events: IndexedEventInterface[] = [];
+
+	for (const target of Object.values(state.targets)) {
+		for (
+			let fromBlock = target.syncedTo + 1;
+			fromBlock <= head.number;
+			fromBlock += blockRange
+		) {
+			const toBlock = Math.min(fromBlock + blockRange - 1, head.number);
+			events.push(...(await fetchEvents(provider, target, fromBlock, toBlock)));
+		}
+		target.syncedTo = Math.max(target.syncedTo, head.number);
+	}
+
+	const blockHashes: Record<string, string> = { [head.number]: head.hash };
+	events.forEach(({ blockNumber, blockHash }) => {
+		blockHashes[blockNumber] = blockHash;
+	});
+
+	// nothing has been saved yet, start over on the new chain
+	if (!(await isCanonical(provider, blockHashes))) {
+		if (attempts <= 1) {
+			throw new Error('Chain keeps reorganizing during the sync, retry later');
+		}
+		return syncEvents(
+			provider,
+			store,
+			targets,
+			{ blockRange, reorgDepth },
+			attempts - 1
+		);
+	}
+
+	state.blocks = { ...state.blocks, ...blockHashes };
+	Object.keys(state.blocks)
+		.map(Number)
+		.filter((blockNumber) => blockNumber <= head.number - reorgDepth)
+		.forEach((blockNumber) => delete state.blocks[blockNumber]);
+
+	state.events = state.events.concat(events).sort(compareEvents);
+	store.save(state);
+
+	return {
+		head: head.number,
+		events: events.sort(compareEvents),
+		rolledBackTo,
+	};
+};
+
+/**
+ * sync once, then keep polling for new blocks until `stop` is called
+ * @param provider provider
+ * @param store indexer store
+ * @param targets contracts to index
+ * @param options follow options
+ */
+export const followEvents = (
+	provider: providers.Provider,
+	store: IndexerStoreInterface,
+	targets: IndexerTargetInterface[] = [],
+	{
+		pollingInterval = 4000,
+		onSync,
+		onError = (error) => console.error(error),
+		...syncOptions
+	}: FollowOptionsInterface = {}
+) => {
+	let stopped = false;
+	let timer: NodeJS.Timeout | undefined;
+
+	const poll = async () => {
+		try {
+			const result = await syncEvents(provider, store, targets, syncOptions);
+			onSync?.(result);
+		} catch (error) {
+			onError(error as Error);
+		}
+		if (!stopped) {
+			timer = setTimeout(poll, pollingInterval);
+		}
+	};
+	poll();
+
+	return {
+		stop: () => {
+			stopped = true;
+			clearTimeout(timer);
+		},
+	};
+};
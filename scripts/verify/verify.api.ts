@@ -0,0 +1,159 @@
+import { utils } from 'ethers';
+import { sleep } from '../../helpers/timer';
+import { VerificationInputInterface } from './verify.input';
+
+export interface VerifyApiInterface {
+	apiUrl: string; // Etherscan-compatible API, e.g. `https://api.etherscan.io/v2/api`
+	apiKey: string;
+	chainId: number;
+}
+
+export interface VerifyPollingInterface {
+	pollingInterval?: number; // ms between status requests
+	timeout?: number; // ms before giving up
+}
+
+export type VerificationResultType = 'verified' | 'already verified';
+
+interface ApiResponseInterface {
+	status: string; // '1' on success
+	message: string;
+	result: string;
+}
+
+/**
+ * call the API, `module`, `action` and `apikey` are form fields as in the
+ * Etherscan API, `chainid` selects the chain of multichain APIs
+ * @param api API settings
+ * @param fields form fields
+ */
+const callApi = async (
+	{ apiUrl, apiKey, chainId }: VerifyApiInterface,
+	fields: Record<string, string>
+): Promise<ApiResponseInterface> => {
+	const url = new URL(apiUrl);
+	url.searchParams.set('chainid', String(chainId));
+	const body = new URLSearchParams({ ...fields, apikey: apiKey }).toString();
+
+	const response = await utils.fetchJson(
+		{
+			url: url.toString(),
+			headers: { 'content-type': 'application/x-www-form-urlencoded' },
+		},
+		body
+	);
+	if (typeof response?.result !== 'string') {
+		throw new Error(
+			`Unexpected response of ${url.host}: ${JSON.stringify(response)}`
+		);
+	}
+	return response;
+};
+
+/**
+ * submit sources, return the guid of the verification request
+ * @param api API settings
+ * @param address contract address
+ * @param verification compiler input and constructor arguments
+ */
+export const submitVerification = async (
+	api: VerifyApiInterface,
+	address: string,
+	{
+		sourceName,
+		contractName,
+		compilerVersion,
+		input,
+		constructorArguments,
+	}: VerificationInputInterface
+) =>
+	callApi(api, {
+		module: 'contract',
+		action: 'verifysourcecode',
+		contractaddress: address,
+		sourceCode: JSON.stringify(input),
+		codeformat: 'solidity-standard-json-input',
+		contractname: `${sourceName}:${contractName}`,
+		compilerversion: compilerVersion,
+		// misspelled by the Etherscan API
+		constructorArguements: constructorArguments,
+	});
+
+/**
+ * status of a verification request
+ * @param api API settings
+ * @param guid guid returned by `submitVerification`
+ */
+export const checkVerification = async (
+	api: VerifyApiInterface,
+	guid: string
+) =>
+	callApi(api, {
+		module: 'contract',
+		action: 'checkverifystatus',
+		guid,
+	});
+
+const isAlreadyVerified = (result: string) => /already verified/i.test(result);
+
+/**
+ * submit a contract and poll until it is verified. Explorers index new
+ * contracts with some delay, so a contract not found yet is submitted again
+ * @param api API settings
+ * @param address contract address
+ * @param verification compiler input and constructor arguments
+ * @param polling polling interval and timeout
+ * @param log progress output
+ */
+export const verifyOnExplorer = async (
+	api: VerifyApiInterface,
+	address: string,
+	verification: VerificationInputInterface,
+	{
+		pollingInterval = 5000,
+		timeout = 5 * 60 * 1000,
+	}: VerifyPollingInterface = {},
+	log: (message: string) => void = () => undefined
+): Promise<VerificationResultType> => {
+	const deadline = Date.now() + timeout;
+	const waitOrTimeout = async (reason: string) => {
+		if (Date.now() + pollingInterval > deadline) {
+			throw new Error(
+				`Verification of ${verification.contractName} at ${address} timed out: ${reason}`
+			);
+		}
+		await sleep(pollingInterval);
+	};
+
+	let guid: string | undefined;
+	while (guid === undefined) {
+		const { status, result } = await submitVerification(
+			api,
+			address,
+			verification
+		);
+		if (status === '1') {
+			guid = result;
+		} else if (isAlreadyVerified(result)) {
+			return 'already verified';
+		} else if (/unable to locate contract/i.test(result)) {
+			log(`${address} is not indexed by the explorer yet`);
+			await waitOrTimeout(result);
+		} else {
+			throw new Error(`Verification submission failed: ${result}`);
+		}
+	}
+	log(`Submitted ${verification.contractName}, guid ${guid}`);
+
+	for (;;) {
+		const { status, result } = await checkVerification(api, guid);
+		if (status === '1' || isAlreadyVerified(result)) {
+			return isAlreadyVerified(result) ? 'already verified' : 'verified';
+		}
+		if (!/pending/i.test(result)) {
+			throw new Error(`Verification failed: ${result}`);
+		}
+		log(result);
+		await waitOrTimeout(result);
+	}
+};
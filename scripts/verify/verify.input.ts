@@ -0,0 +1,97 @@
+import { artifacts, config } from 'hardhat';
+import { utils } from 'ethers';
+
+export interface VerificationInputInterface {
+	contractName: string;
+	sourceName: string; // e.g. `contracts/voting/Ballot.sol`
+	compilerVersion: string; // long version, e.g. `v0.8.12+commit.f00d7308`
+	input: any; // standard-JSON compiler input
+	constructorArguments: string; // ABI-encoded, without 0x
+}
+
+interface AstNodeInterface {
+	nodeType: string;
+	absolutePath?: string;
+}
+
+/**
+ * sources needed to compile a source, following its imports
+ * @param output compiler output of the build
+ * @param sourceName root source
+ */
+const getSourceDependencies = (
+	output: { sources: Record<string, { ast: { nodes: AstNodeInterface[] } }> },
+	sourceName: string,
+	found = new Set<string>()
+) => {
+	found.add(sourceName);
+	output.sources[sourceName].ast.nodes
+		.filter(({ nodeType }) => nodeType === 'ImportDirective')
+		.forEach(({ absolutePath }) => {
+			if (absolutePath && !found.has(absolutePath)) {
+				getSourceDependencies(output, absolutePath, found);
+			}
+		});
+	return found;
+};
+
+/**
+ * rebuild the standard-JSON input of a compiled contract from its hardhat
+ * build info, with only the sources it imports, and encode its constructor
+ * arguments
+ * @param contractName contract name
+ * @param args constructor arguments, as given to `simpleDeployFunc`
+ */
+export const getVerificationInput = async (
+	contractName: string,
+	args: any[] = []
+): Promise<VerificationInputInterface> => {
+	const { sourceName, abi } = await artifacts.readArtifact(contractName);
+	const buildInfo = await artifacts.getBuildInfo(
+		`${sourceName}:${contractName}`
+	);
+	if (!buildInfo) {
+		throw new Error(
+			`No build info of ${contractName}, run \`npx hardhat compile\``
+		);
+	}
+
+	// the verified source must match the compiler the project is set to
+	const versions = config.solidity.compilers.map(({ version }) => version);
+	if (!versions.includes(buildInfo.solcVersion)) {
+		throw new Error(
+			`${contractName} was compiled with solc ${
+				buildInfo.solcVersion
+			}, the project uses ${versions.join(
+				', '
+			)}, run \`npx hardhat compile --force\``
+		);
+	}
+
+	const dependencies = getSourceDependencies(buildInfo.output, sourceName);
+	const sources = Object.keys(buildInfo.input.sources)
+		.filter((name) => dependencies.has(name))
+		.reduce<Record<string, { content: string }>>((result, name) => {
+			result[name] = buildInfo.input.sources[name];
+			return result;
+		}, {});
+
+	let constructorArguments: string;
+	try {
+		constructorArguments = new utils.Interface(abi).encodeDeploy(args).slice(2);
+	} catch (error) {
+		throw new Error(
+			`Invalid constructor arguments of ${contractName}: ${
+				(error as Error).message
+			}`
+		);
+	}
+
+	return {
+		contractName,
+		sourceName,
+		compilerVersion: `v${buildInfo.solcLongVersion}`,
+		input: { ...buildInfo.input, sources },
+		constructorArguments,
+	};
+};
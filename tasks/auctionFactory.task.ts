@@ -0,0 +1,200 @@
+import { types } from 'hardhat/config';
+import { HardhatRuntimeEnvironment } from 'hardhat/types';
+import {
+	contractTask,
+	decodeTaskError,
+	formatDuration,
+	resolveContractAddress,
+	resolveSigner,
+	SignerParamsInterface,
+	taskError,
+} from './helpers/task.base';
+import { getConfirmations } from '../helpers/networks';
+
+interface AuctionFactoryTaskArgsInterface extends SignerParamsInterface {
+	address?: string;
+}
+
+/**
+ * client of the AuctionFactory at the given address or from the deployment
+ * record, connected to the task signer
+ */
+const getClient = async (
+	hre: HardhatRuntimeEnvironment,
+	{ address, ...signerParams }: AuctionFactoryTaskArgsInterface
+) => {
+	// the client imports typechain, which only exists after compilation
+	const { createAuctionFactoryClient } = await import(
+		'../scripts/auctionFactory/auctionFactory.client'
+	);
+	const factoryAddress = await resolveContractAddress(
+		hre,
+		'AuctionFactory',
+		address
+	);
+
+	return createAuctionFactoryClient(
+		factoryAddress,
+		await resolveSigner(hre, signerParams)
+	);
+};
+
+const factoryTask = (name: string, description: string) =>
+	contractTask(name, description, 'AuctionFactory');
+
+factoryTask(
+	'auction:factory:create',
+	'Create an auction with an AuctionFactory'
+)
+	.addOptionalParam(
+		'type',
+		'SimpleAuction or BlindAuction',
+		'SimpleAuction',
+		types.string
+	)
+	.addOptionalParam('biddingTime', 'bidding time in seconds', 3600, types.int)
+	.addOptionalParam(
+		'revealTime',
+		'BlindAuction reveal time in seconds',
+		3600,
+		types.int
+	)
+	.addOptionalParam(
+		'beneficiary',
+		'beneficiary address, default is the signer',
+		undefined,
+		types.string
+	)
+	.addOptionalParam(
+		'reservePrice',
+		'SimpleAuction reserve price in ether',
+		'0',
+		types.string
+	)
+	.addOptionalParam(
+		'minIncrement',
+		'SimpleAuction minimum bid increment in ether',
+		'0',
+		types.string
+	)
+	.addOptionalParam(
+		'minIncrementPercent',
+		'SimpleAuction minimum bid increment in percent of the highest bid',
+		0,
+		types.int
+	)
+	.addOptionalParam(
+		'softClose',
+		'SimpleAuction window in seconds before the end where a bid extends the auction',
+		0,
+		types.int
+	)
+	.setAction(async (taskArgs, hre) => {
+		const { type, biddingTime, revealTime } = taskArgs;
+		if (type !== 'SimpleAuction' && type !== 'BlindAuction') {
+			throw taskError(
+				`Unknown auction type ${type}, use SimpleAuction or BlindAuction`
+			);
+		}
+		const client = await getClient(hre, taskArgs);
+		const beneficiaryAddress: string =
+			taskArgs.beneficiary ?? (await client.factory.signer.getAddress());
+		if (!hre.ethers.utils.isAddress(beneficiaryAddress)) {
+			throw taskError(`Invalid beneficiary address: ${beneficiaryAddress}`);
+		}
+		const confirmations = getConfirmations(hre.network);
+
+		try {
+			const auction =
+				type === 'SimpleAuction'
+					? await client.createSimpleAuction(
+							{
+								biddingTime,
+								beneficiaryAddress,
+								reservePrice: hre.ethers.utils.parseEther(
+									taskArgs.reservePrice
+								),
+								minIncrement: hre.ethers.utils.parseEther(
+									taskArgs.minIncrement
+								),
+								minIncrementPercent: taskArgs.minIncrementPercent,
+								softCloseWindow: taskArgs.softClose,
+							},
+							confirmations
+					  )
+					: await client.createBlindAuction(
+							{ biddingTime, revealTime, beneficiaryAddress },
+							confirmations
+					  );
+			console.log(`Created ${auction.auctionType} at ${auction.address}`);
+		} catch (error) {
+			throw await decodeTaskError(error, 'AuctionFactory');
+		}
+	});
+
+factoryTask('auction:factory:list', 'List the auctions of an AuctionFactory')
+	.addOptionalParam('status', 'active or ended', undefined, types.string)
+	.addOptionalParam(
+		'beneficiary',
+		'only auctions of this beneficiary',
+		undefined,
+		types.string
+	)
+	.addOptionalParam(
+		'creator',
+		'only auctions created by this address',
+		undefined,
+		types.string
+	)
+	.addOptionalParam(
+		'type',
+		'only SimpleAuction or BlindAuction',
+		undefined,
+		types.string
+	)
+	.addFlag('json', 'print the auctions as NDJSON')
+	.setAction(async (taskArgs, hre) => {
+		const { status, beneficiary, creator, type, json } = taskArgs;
+		if (status !== undefined && status !== 'active' && status !== 'ended') {
+			throw taskError(`Unknown status ${status}, use active or ended`);
+		}
+		if (
+			type !== undefined &&
+			type !== 'SimpleAuction' &&
+			type !== 'BlindAuction'
+		) {
+			throw taskError(
+				`Unknown auction type ${type}, use SimpleAuction or BlindAuction`
+			);
+		}
+		const client = await getClient(hre, taskArgs);
+
+		const auctions = await client.list({
+			status,
+			beneficiary,
+			creator,
+			auctionType: type,
+		});
+		if (json) {
+			auctions.forEach(({ contract, ...auction }) =>
+				console.log(JSON.stringify(auction))
+			);
+			return;
+		}
+
+		const { timestamp } = await hre.ethers.provider.getBlock('latest');
+		console.log(`### AuctionFactory ${client.factory.address} ###`);
+		if (auctions.length === 0) {
+			console.log('No auctions');
+		}
+		auctions.forEach(
+			({ auctionType, address, beneficiary, creator, endTime, status }) =>
+				console.log(
+					`${auctionType} ${address} ${status}, ${
+						status === 'active'
+							? `ends in ${formatDuration(endTime - timestamp)}`
+							: `ended ${new Date(endTime * 1000).toISOString()}`
+					}, beneficiary ${beneficiary}, creator ${creator}`
+				)
+		);
+	});
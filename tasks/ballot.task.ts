@@ -0,0 +1,388 @@
+import fs from 'fs';
+import { utils } from 'ethers';
+import { task, types } from 'hardhat/config';
+import { HardhatRuntimeEnvironment } from 'hardhat/types';
+import type { Ballot } from '../typechain/Ballot';
+import {
+	formatDuration,
+	resolveContractAddress,
+	resolveSigner,
+	SignerParamsInterface,
+	taskError,
+} from './helpers/task.base';
+import { getConfirmations } from '../helpers/networks';
+
+interface BallotTaskArgsInterface extends SignerParamsInterface {
+	address?: string;
+}
+
+interface EnrollLogEntryInterface {
+	voter: string;
+	status: 'enrolled' | 'skipped' | 'failed';
+	transactionHash?: string;
+	error?: string;
+}
+
+const getBallot = async (
+	hre: HardhatRuntimeEnvironment,
+	{ address, ...signerParams }: BallotTaskArgsInterface
+) =>
+	(await hre.ethers.getContractAt(
+		'Ballot',
+		await resolveContractAddress(hre, 'Ballot', address),
+		await resolveSigner(hre, signerParams)
+	)) as Ballot;
+
+/**
+ * read proposal names from a JSON array or a text file with one name per line
+ * @param filePath proposals file
+ */
+const readProposalNames = (filePath: string): string[] => {
+	const content = fs.readFileSync(filePath, 'utf8');
+
+	if (filePath.endsWith('.json')) {
+		const names = JSON.parse(content);
+		if (
+			!Array.isArray(names) ||
+			names.some((name) => typeof name !== 'string')
+		) {
+			throw taskError(`${filePath} must contain an array of proposal names`);
+		}
+		return names;
+	}
+
+	return content
+		.split(/\r?\n/)
+		.map((line) => line.trim())
+		.filter((line) => line.length > 0);
+};
+
+/**
+ * read voter addresses from a JSON array (of addresses or `{ address }`)
+ * or from a CSV file whose first column is the address
+ * @param hre hardhat runtime environment
+ * @param filePath voters file
+ */
+const readVoters = (hre: HardhatRuntimeEnvironment, filePath: string) => {
+	const content = fs.readFileSync(filePath, 'utf8');
+	const { getAddress, isAddress } = hre.ethers.utils;
+
+	const entries: string[] = filePath.endsWith('.json')
+		? JSON.parse(content).map((entry: string | { address: string }) =>
+				typeof entry === 'string' ? entry : entry.address
+		  )
+		: content
+				.split(/\r?\n/)
+				.map((line) => line.split(',')[0].trim().replace(/^"|"$/g, ''))
+				.filter(
+					(cell, index) => cell.length > 0 && !(index === 0 && !isAddress(cell))
+				);
+
+	const invalid = entries.filter((entry) => !isAddress(entry));
+	if (invalid.length > 0) {
+		throw taskError(`Invalid voter addresses: ${invalid.join(', ')}`);
+	}
+
+	// checksum and remove duplicates, keep file order
+	return Array.from(new Set(entries.map((entry) => getAddress(entry))));
+};
+
+/**
+ * voters already handled in a previous run, from the progress log
+ * @param logPath progress log (one JSON entry per line)
+ */
+const readEnrollLog = (logPath: string) => {
+	const done = new Set<string>();
+	if (!fs.existsSync(logPath)) {
+		return done;
+	}
+
+	fs.readFileSync(logPath, 'utf8')
+		.split(/\r?\n/)
+		.filter((line) => line.length > 0)
+		.map((line) => JSON.parse(line) as EnrollLogEntryInterface)
+		.forEach(({ voter, status }) => {
+			status === 'failed' ? done.delete(voter) : done.add(voter);
+		});
+
+	return done;
+};
+
+/**
+ * list every proposal, `proposals` has no length getter so read until
+ * the index is out of range
+ * @param ballot Ballot
+ */
+const getProposals = async (ballot: Ballot) => {
+	const proposals: { name: string; voteCount: string }[] = [];
+
+	for (let index = 0; ; index++) {
+		try {
+			const { name, voteCount } = await ballot.proposals(index);
+			proposals.push({
+				name: utils.parseBytes32String(name),
+				voteCount: voteCount.toString(),
+			});
+		} catch (error: any) {
+			// the getter reverts without data past the last proposal
+			if (
+				error?.code === utils.Logger.errors.CALL_EXCEPTION &&
+				error.data === '0x'
+			) {
+				return proposals;
+			}
+			throw error;
+		}
+	}
+};
+
+task('ballot:deploy', 'Deploy a Ballot from a proposals file')
+	.addParam(
+		'proposalsFile',
+		'JSON array or text file with one proposal name per line',
+		undefined,
+		types.inputFile
+	)
+	.addOptionalParam(
+		'votingTime',
+		'voting time in seconds, 0 for no deadline',
+		0,
+		types.int
+	)
+	.addOptionalParam('quorum', 'minimum number of votes', 0, types.int)
+	.setAction(async ({ proposalsFile, votingTime, quorum }, hre) => {
+		const proposalNames = readProposalNames(proposalsFile);
+		if (proposalNames.length === 0) {
+			throw taskError(`No proposal in ${proposalsFile}`);
+		}
+
+		// deploy helpers import `hardhat`, so they must be loaded lazily
+		const { getBallotDeployParams } = await import(
+			'../scripts/deploy/ballot.deploy'
+		);
+		const { simpleDeployFunc } = await import(
+			'../scripts/deploy/helpers/deploy.base'
+		);
+
+		// the deployer chairs the ballot
+		const [deployer] = await hre.ethers.getSigners();
+		let deployParams;
+		try {
+			deployParams = getBallotDeployParams({
+				chairpersonAddress: deployer.address,
+				proposalNames,
+				votingTime,
+				quorum,
+			});
+		} catch (error) {
+			throw taskError((error as Error).message);
+		}
+		await simpleDeployFunc(deployParams);
+	});
+
+task('ballot:enroll', 'Give right to vote to every voter of a CSV/JSON list')
+	.addParam(
+		'votersFile',
+		'CSV file (address in first column) or JSON array of addresses',
+		undefined,
+		types.inputFile
+	)
+	.addOptionalParam(
+		'log',
+		'progress log used to resume, default is <votersFile>.progress.jsonl',
+		undefined,
+		types.string
+	)
+	.addOptionalParam(
+		'batchSize',
+		'transactions sent before waiting for receipts',
+		10,
+		types.int
+	)
+	.addOptionalParam('retries', 'retries of a failed voter', 3, types.int)
+	.addOptionalParam(
+		'address',
+		'Ballot address, default is the deployment record of the network',
+		undefined,
+		types.string
+	)
+	.addOptionalParam('signer', 'index of the chairperson account', 0, types.int)
+	.addOptionalParam(
+		'privateKey',
+		'private key of the chairperson, overrides --signer',
+		undefined,
+		types.string
+	)
+	.setAction(async (taskArgs, hre) => {
+		const { votersFile, batchSize, retries } = taskArgs;
+		const logPath: string = taskArgs.log ?? `${votersFile}.progress.jsonl`;
+		const ballot = await getBallot(hre, taskArgs);
+		const chairperson = await ballot.signer.getAddress();
+
+		if ((await ballot.chairperson()) !== chairperson) {
+			throw taskError(
+				`${chairperson} is not the chairperson of ${ballot.address}`
+			);
+		}
+		if (await ballot.votingEnded()) {
+			throw taskError(`Voting has ended on ${ballot.address}`);
+		}
+
+		const voters = readVoters(hre, votersFile);
+		const done = readEnrollLog(logPath);
+		const writeLog = (entry: EnrollLogEntryInterface) => {
+			fs.appendFileSync(logPath, JSON.stringify(entry) + '\n');
+			entry.status === 'failed'
+				? done.delete(entry.voter)
+				: done.add(entry.voter);
+		};
+
+		let pending = voters.filter((voter) => !done.has(voter));
+		console.log(
+			`${voters.length} voters, ${
+				voters.length - pending.length
+			} already done, ${pending.length} to enroll`
+		);
+
+		const attempts = new Map<string, number>();
+		let processed = voters.length - pending.length;
+
+		while (pending.length > 0) {
+			const batch = pending.slice(0, batchSize);
+			pending = pending.slice(batchSize);
+
+			// nonces are assigned locally, so a batch is sent without waiting
+			let nonce = await ballot.signer.getTransactionCount('pending');
+			const sent: { voter: string; mined: Promise<boolean>; hash: string }[] =
+				[];
+			const retry: string[] = [];
+
+			for (const voter of batch) {
+				const { weight, voted } = await ballot.voters(voter);
+				if (!weight.isZero() || voted) {
+					writeLog({ voter, status: 'skipped' });
+					processed++;
+					continue;
+				}
+
+				try {
+					const tx = await ballot.giveRightToVote(voter, { nonce });
+					nonce++;
+					sent.push({
+						voter,
+						// handled right away, a revert must not be an unhandled rejection
+						mined: tx.wait(getConfirmations(hre.network)).then(
+							() => true,
+							() => false
+						),
+						hash: tx.hash,
+					});
+				} catch (error) {
+					// stop the batch, later nonces would leave a gap. Only this voter
+					// uses an attempt, the untried ones go back to the queue
+					retry.push(voter);
+					pending.unshift(...batch.slice(batch.indexOf(voter) + 1));
+					break;
+				}
+			}
+
+			for (const { voter, mined, hash } of sent) {
+				if (await mined) {
+					writeLog({ voter, status: 'enrolled', transactionHash: hash });
+					processed++;
+				} else {
+					retry.push(voter);
+				}
+			}
+
+			retry.forEach((voter) => {
+				const attempt = (attempts.get(voter) ?? 0) + 1;
+				attempts.set(voter, attempt);
+				if (attempt > retries) {
+					writeLog({ voter, status: 'failed', error: 'too many retries' });
+					processed++;
+				} else {
+					pending.push(voter);
+				}
+			});
+
+			console.log(`Progress: ${processed}/${voters.length}`);
+		}
+
+		const failed = voters.filter((voter) => !done.has(voter));
+		if (failed.length > 0) {
+			throw taskError(
+				`${failed.length} voters failed, rerun to resume: ${failed.join(', ')}`
+			);
+		}
+		console.log(`All voters enrolled, progress log: ${logPath}`);
+	});
+
+task(
+	'ballot:tally',
+	'Print vote count of every proposal, the quorum and the winners'
+)
+	.addOptionalParam(
+		'address',
+		'Ballot address, default is the deployment record of the network',
+		undefined,
+		types.string
+	)
+	.setAction(async (taskArgs, hre) => {
+		const ballot = await getBallot(hre, taskArgs);
+		const proposals = await getProposals(ballot);
+		if (proposals.length === 0) {
+			console.log(`Ballot ${ballot.address} has no proposal`);
+			return;
+		}
+
+		const [
+			[winners, winningVoteCount],
+			totalVotes,
+			quorum,
+			votingEndTime,
+			votingEnded,
+		] = await Promise.all([
+			ballot.winningProposals(),
+			ballot.totalVotes(),
+			ballot.quorum(),
+			ballot.votingEndTime(),
+			ballot.votingEnded(),
+		]);
+		const winnerNames = winners.map(
+			(index) => proposals[index.toNumber()].name
+		);
+
+		console.log(`### Ballot ${ballot.address} ###`);
+		console.table(
+			proposals.map(({ name, voteCount }, index) => ({
+				index,
+				name,
+				voteCount,
+			}))
+		);
+
+		if (votingEndTime.isZero()) {
+			console.log('Deadline: none');
+		} else if (votingEnded) {
+			console.log('Deadline: voting has ended');
+		} else {
+			const { timestamp } = await hre.ethers.provider.getBlock('latest');
+			console.log(
+				`Deadline: ${formatDuration(votingEndTime.toNumber() - timestamp)} left`
+			);
+		}
+		console.log(`Votes: ${totalVotes} (quorum ${quorum})`);
+
+		if (totalVotes.lt(quorum)) {
+			console.log('No winner, the quorum is not reached');
+		} else if (winningVoteCount.isZero()) {
+			console.log('No winner, nobody voted');
+		} else if (winnerNames.length > 1) {
+			console.log(
+				`Tie with ${winningVoteCount} votes: ${winnerNames.join(', ')}`
+			);
+		} else {
+			console.log(`Winner: ${winnerNames[0]}`);
+		}
+	});
@@ -1,13 +1,417 @@
 import { task, types } from 'hardhat/config';
+import type { DeployFuncParamsInterface } from '../scripts/deploy/helpers/deploy.base';
+import type { TokenPurchase } from '../typechain/TokenPurchase';
+import { UNFUNDED_STATE } from './helpers/purchase.states';
+
+const deployableContracts = [
+	'Counter',
+	'Ballot',
+	'SimpleAuction',
+	'BlindAuction',
+	'DutchAuction',
+	'AuctionFactory',
+	'Purchase',
+	'TokenSimpleAuction',
+	'TokenBlindAuction',
+	'TokenPurchase',
+];
+
+// variants paid in the ERC-20 of --token, left out of `all` without it
+const tokenContracts = [
+	'TokenSimpleAuction',
+	'TokenBlindAuction',
+	'TokenPurchase',
+];
+
+// implementations deployed behind a proxy with --proxy
+const upgradeableContracts: Record<string, string> = {
+	Ballot: 'BallotUpgradeable',
+	Purchase: 'PurchaseUpgradeable',
+};
+
+/**
+ * parse comma-separated contract names, `all` selects every contract
+ * @param contracts comma-separated contract names
+ * @param withTokens whether `all` includes the token variants
+ */
+const parseContracts = (contracts: string, withTokens: boolean) => {
+	if (contracts === 'all') {
+		return deployableContracts.filter(
+			(name) => withTokens || !tokenContracts.includes(name)
+		);
+	}
+
+	const contractNames = contracts
+		.split(',')
+		.map((name) => name.trim())
+		.filter((name) => name.length > 0);
+
+	const unknownContracts = contractNames.filter(
+		(name) => !deployableContracts.includes(name)
+	);
+	if (unknownContracts.length > 0) {
+		throw new Error(
+			`Unknown contracts: ${unknownContracts.join(
+				', '
+			)}. Available contracts: ${deployableContracts.join(', ')}`
+		);
+	}
+
+	return contractNames;
+};
 
 task('deploy', 'Deploy contract')
-	// .addParam(
-	// 	'contracts',
-	// 	'list of contracts to deploy',
-	// 	'all',
-	// 	types.string,
-	// 	true
-	// )
-	.setAction(async (taskArgs) => {
-		// const accountNames = console.log(taskArgs.contracts);
+	.addParam(
+		'contracts',
+		`comma-separated list of contracts to deploy (${deployableContracts.join(
+			', '
+		)}) or "all"`,
+		'all',
+		types.string,
+		true
+	)
+	.addOptionalParam(
+		'proposals',
+		'comma-separated Ballot proposal names',
+		'Proposal 1,Proposal 2,Proposal 3',
+		types.string
+	)
+	.addOptionalParam(
+		'votingTime',
+		'Ballot voting time in seconds, 0 for no deadline',
+		0,
+		types.int
+	)
+	.addOptionalParam('quorum', 'Ballot minimum number of votes', 0, types.int)
+	.addOptionalParam(
+		'biddingTime',
+		'SimpleAuction/BlindAuction bidding time in seconds',
+		3600,
+		types.int
+	)
+	.addOptionalParam(
+		'reservePrice',
+		'SimpleAuction reserve price in ether, lower highest bids are refunded',
+		'0',
+		types.string
+	)
+	.addOptionalParam(
+		'minIncrement',
+		'SimpleAuction minimum bid increment in ether',
+		'0',
+		types.string
+	)
+	.addOptionalParam(
+		'minIncrementPercent',
+		'SimpleAuction minimum bid increment in percent of the highest bid',
+		0,
+		types.int
+	)
+	.addOptionalParam(
+		'softClose',
+		'SimpleAuction window in seconds before the end where a bid extends the auction',
+		0,
+		types.int
+	)
+	.addOptionalParam(
+		'revealTime',
+		'BlindAuction reveal time in seconds',
+		3600,
+		types.int
+	)
+	.addOptionalParam(
+		'startPrice',
+		'DutchAuction start price in ether',
+		'1',
+		types.string
+	)
+	.addOptionalParam(
+		'floorPrice',
+		'DutchAuction floor price in ether',
+		'0.1',
+		types.string
+	)
+	.addOptionalParam(
+		'duration',
+		'DutchAuction seconds for the price to fall to the floor',
+		3600,
+		types.int
+	)
+	.addOptionalParam(
+		'steps',
+		'DutchAuction number of equal price drops, 0 for a linear decrease',
+		0,
+		types.int
+	)
+	.addOptionalParam(
+		'beneficiary',
+		'SimpleAuction/BlindAuction/DutchAuction beneficiary address, default is deployer',
+		undefined,
+		types.string
+	)
+	.addOptionalParam(
+		'value',
+		'Purchase item value in ether, seller deposits twice this value',
+		'0.01',
+		types.string
+	)
+	.addOptionalParam(
+		'deliveryPeriod',
+		'Purchase seconds for the seller to deliver once locked, 0 for no deadline',
+		0,
+		types.int
+	)
+	.addOptionalParam(
+		'confirmationPeriod',
+		'Purchase seconds for the buyer to confirm once delivered, 0 for no deadline',
+		0,
+		types.int
+	)
+	.addOptionalParam(
+		'arbiter',
+		'Purchase arbiter address ruling on disputes, default is none',
+		undefined,
+		types.string
+	)
+	.addOptionalParam(
+		'rulingPeriod',
+		'Purchase seconds for the arbiter to rule on a dispute, then both deposits are refunded',
+		604800,
+		types.int
+	)
+	.addOptionalParam(
+		'token',
+		`ERC-20 address paying ${tokenContracts.join(
+			', '
+		)}, amounts are in token units`,
+		undefined,
+		types.string
+	)
+	.addOptionalParam(
+		'salt',
+		'deploy deterministically with CREATE2 using this salt',
+		undefined,
+		types.string
+	)
+	.addFlag(
+		'proxy',
+		`deploy ${Object.keys(upgradeableContracts).join(
+			', '
+		)} behind upgradeable proxies`
+	)
+	.addFlag(
+		'force',
+		'redeploy contracts even if deployment record is up to date'
+	)
+	.addFlag('json', 'print deployment results as NDJSON')
+	.setAction(async (taskArgs, hre) => {
+		const {
+			contracts,
+			proposals,
+			votingTime,
+			quorum,
+			biddingTime,
+			reservePrice,
+			minIncrement,
+			minIncrementPercent,
+			softClose,
+			revealTime,
+			startPrice,
+			floorPrice,
+			duration,
+			steps,
+			value,
+			deliveryPeriod,
+			confirmationPeriod,
+			arbiter,
+			rulingPeriod,
+			token,
+			salt,
+			proxy,
+			force,
+			json,
+		} = taskArgs;
+		const contractNames = parseContracts(contracts, token !== undefined);
+		const tokenContractNames = contractNames.filter((name) =>
+			tokenContracts.includes(name)
+		);
+		if (tokenContractNames.length > 0 && token === undefined) {
+			throw new Error(
+				`${tokenContractNames.join(
+					', '
+				)} require the ERC-20 address, use --token`
+			);
+		}
+		const notUpgradeable = contractNames.filter(
+			(name) => !upgradeableContracts[name]
+		);
+		if (proxy && notUpgradeable.length > 0) {
+			throw new Error(
+				`No upgradeable version of ${notUpgradeable.join(
+					', '
+				)}, use --contracts ${Object.keys(upgradeableContracts).join(',')}`
+			);
+		}
+
+		const [deployer] = await hre.ethers.getSigners();
+		const beneficiaryAddress: string = taskArgs.beneficiary ?? deployer.address;
+		if (!hre.ethers.utils.isAddress(beneficiaryAddress)) {
+			throw new Error(`Invalid beneficiary address: ${beneficiaryAddress}`);
+		}
+		if (arbiter !== undefined && !hre.ethers.utils.isAddress(arbiter)) {
+			throw new Error(`Invalid arbiter address: ${arbiter}`);
+		}
+		if (token !== undefined && !hre.ethers.utils.isAddress(token)) {
+			throw new Error(`Invalid token address: ${token}`);
+		}
+
+		!json && console.log(`using account ${deployer.address}`);
+
+		// deploy helpers import `hardhat`, so they must be loaded lazily
+		const { getCounterDeployParams } = await import(
+			'../scripts/deploy/counter.deploy'
+		);
+		const { getBallotDeployParams } = await import(
+			'../scripts/deploy/ballot.deploy'
+		);
+		const { getSimpleAuctionDeployParams } = await import(
+			'../scripts/deploy/simpleAuction.deploy'
+		);
+		const { getBlindAuctionDeployParams } = await import(
+			'../scripts/deploy/blindAuction.deploy'
+		);
+		const { getDutchAuctionDeployParams } = await import(
+			'../scripts/deploy/dutchAuction.deploy'
+		);
+		const { getAuctionFactoryDeployParams } = await import(
+			'../scripts/deploy/auctionFactory.deploy'
+		);
+		const { getPurchaseDeployParams } = await import(
+			'../scripts/deploy/purchase.deploy'
+		);
+		const { getTokenSimpleAuctionDeployParams } = await import(
+			'../scripts/deploy/tokenSimpleAuction.deploy'
+		);
+		const { getTokenBlindAuctionDeployParams } = await import(
+			'../scripts/deploy/tokenBlindAuction.deploy'
+		);
+		const { depositTokenPurchase, getTokenPurchaseDeployParams } = await import(
+			'../scripts/deploy/tokenPurchase.deploy'
+		);
+		const { logDeployResults, runDeployPipeline } = await import(
+			'../scripts/deploy/helpers/deploy.pipeline'
+		);
+
+		const simpleAuctionParams = () => ({
+			biddingTime,
+			beneficiaryAddress,
+			reservePrice: hre.ethers.utils.parseEther(reservePrice),
+			minIncrement: hre.ethers.utils.parseEther(minIncrement),
+			minIncrementPercent,
+			softCloseWindow: softClose,
+		});
+		const blindAuctionParams = () => ({
+			biddingTime,
+			revealTime,
+			beneficiaryAddress,
+		});
+		// the deployer chairs the ballot and sells the purchases
+		const purchaseParams = () => ({
+			sellerAddress: deployer.address,
+			value: hre.ethers.utils.parseEther(value),
+			deliveryPeriod,
+			confirmationPeriod,
+			arbiterAddress: arbiter,
+			rulingPeriod,
+		});
+
+		const deployParams: Record<string, () => DeployFuncParamsInterface> = {
+			Counter: () => getCounterDeployParams(),
+			Ballot: () =>
+				getBallotDeployParams({
+					chairpersonAddress: deployer.address,
+					proposalNames: (proposals as string)
+						.split(',')
+						.map((name) => name.trim()),
+					votingTime,
+					quorum,
+				}),
+			SimpleAuction: () => getSimpleAuctionDeployParams(simpleAuctionParams()),
+			BlindAuction: () => getBlindAuctionDeployParams(blindAuctionParams()),
+			DutchAuction: () =>
+				getDutchAuctionDeployParams({
+					startPrice: hre.ethers.utils.parseEther(startPrice),
+					floorPrice: hre.ethers.utils.parseEther(floorPrice),
+					duration,
+					steps,
+					beneficiaryAddress,
+				}),
+			AuctionFactory: () => getAuctionFactoryDeployParams(),
+			Purchase: () => getPurchaseDeployParams(purchaseParams()),
+			TokenSimpleAuction: () =>
+				getTokenSimpleAuctionDeployParams({
+					...simpleAuctionParams(),
+					tokenAddress: token,
+				}),
+			TokenBlindAuction: () =>
+				getTokenBlindAuctionDeployParams({
+					...blindAuctionParams(),
+					tokenAddress: token,
+				}),
+			TokenPurchase: () =>
+				getTokenPurchaseDeployParams({
+					...purchaseParams(),
+					tokenAddress: token,
+				}),
+		};
+
+		const results = await runDeployPipeline(
+			contractNames.map((name) => {
+				const contractName = proxy ? upgradeableContracts[name] : name;
+				return {
+					contractName,
+					params: () => ({ ...deployParams[name](), salt, proxy }),
+				};
+			}),
+			{ force, json }
+		);
+		logDeployResults(results, json);
+
+		if (results.some(({ status }) => status === 'failed')) {
+			throw new Error('Deployment failed, rerun to resume from failed step');
+		}
+
+		// the seller pays the deposit once deployed, a skipped purchase is
+		// still Unfunded when its deposit failed in a previous run
+		const tokenPurchaseResult = results.find(
+			({ contractName }) => contractName === 'TokenPurchase'
+		);
+		if (tokenPurchaseResult) {
+			const purchase = (await hre.ethers.getContractAt(
+				'TokenPurchase',
+				tokenPurchaseResult.address as string,
+				deployer
+			)) as TokenPurchase;
+			if ((await purchase.state()) === UNFUNDED_STATE) {
+				try {
+					const tx = await depositTokenPurchase(purchase);
+					json
+						? console.log(
+								JSON.stringify({
+									event: 'deposited',
+									contractName: 'TokenPurchase',
+									address: purchase.address,
+									transactionHash: tx.hash,
+								})
+						  )
+						: console.log(`TokenPurchase deposit paid (tx ${tx.hash})`);
+				} catch (error) {
+					throw new Error(
+						`Deposit of TokenPurchase ${
+							purchase.address
+						} failed, rerun to pay it: ${(error as Error).message}`
+					);
+				}
+			}
+		}
 	});
@@ -0,0 +1,28 @@
+import { subtask } from 'hardhat/config';
+import { TASK_TEST_RUN_MOCHA_TESTS } from 'hardhat/builtin-tasks/task-names';
+
+// `REPORT_GAS=1 npx hardhat test` records the gas of every transaction and
+// fails the run when a function goes above `gas-budgets.json`
+subtask(TASK_TEST_RUN_MOCHA_TESTS).setAction(
+	async (taskArgs, hre, runSuper) => {
+		if (!process.env.REPORT_GAS) {
+			return runSuper(taskArgs);
+		}
+		if (taskArgs.parallel || hre.network.name !== 'hardhat') {
+			console.warn('Gas reporting needs a serial run on the hardhat network');
+			return runSuper(taskArgs);
+		}
+
+		// gas helpers import typechain, which only exists after compilation
+		const { reportGas, startGasTracking } = await import('../helpers/gas');
+		const stopGasTracking = startGasTracking(hre.network.provider);
+
+		const testFailures: number = await runSuper(taskArgs);
+		stopGasTracking();
+
+		const overBudget = reportGas({
+			update: process.env.UPDATE_GAS_BUDGETS !== undefined,
+		});
+		return testFailures + overBudget.length;
+	}
+);
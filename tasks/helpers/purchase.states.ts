@@ -0,0 +1,12 @@
+// same order as `PurchaseBase.State`
+export const purchaseStates = [
+	'Created',
+	'Locked',
+	'Release',
+	'Inactive',
+	'Disputed',
+	'Unfunded',
+];
+
+// a TokenPurchase waiting for the deposit of its seller
+export const UNFUNDED_STATE = purchaseStates.indexOf('Unfunded');
@@ -0,0 +1,149 @@
+import { ethers, Signer } from 'ethers';
+import { task, types } from 'hardhat/config';
+import { HardhatPluginError } from 'hardhat/plugins';
+import { HardhatRuntimeEnvironment } from 'hardhat/types';
+
+export interface SignerParamsInterface {
+	signer?: number; // index of hardhat accounts
+	privateKey?: string;
+}
+
+/**
+ * signer of a task, from a private key or from the configured accounts
+ * @param hre hardhat runtime environment
+ * @param params signer index or private key
+ */
+export const resolveSigner = async (
+	hre: HardhatRuntimeEnvironment,
+	{ signer = 0, privateKey }: SignerParamsInterface
+): Promise<Signer> => {
+	if (privateKey) {
+		return new ethers.Wallet(privateKey, hre.ethers.provider);
+	}
+
+	const signers = await hre.ethers.getSigners();
+	if (!signers[signer]) {
+		throw new Error(
+			`Signer index ${signer} out of range, network has ${signers.length} accounts`
+		);
+	}
+
+	return signers[signer];
+};
+
+/**
+ * contract address from task param, or from the deployment record
+ * of the current network
+ * @param hre hardhat runtime environment
+ * @param contractName contract name
+ * @param address address given to the task
+ */
+export const resolveContractAddress = async (
+	hre: HardhatRuntimeEnvironment,
+	contractName: string,
+	address?: string
+) => {
+	if (address) {
+		if (!hre.ethers.utils.isAddress(address)) {
+			throw new Error(`Invalid ${contractName} address: ${address}`);
+		}
+		return address;
+	}
+
+	// deployment helpers import `hardhat`, so they must be loaded lazily
+	const { loadDeploymentRecord } = await import(
+		'../../scripts/deploy/helpers/deploy.record'
+	);
+	const record = loadDeploymentRecord(contractName, hre.network.name);
+	if (!record) {
+		throw new Error(
+			`No ${contractName} address given and no deployment record on network ${hre.network.name}`
+		);
+	}
+
+	return record.address;
+};
+
+/**
+ * define a task operating a deployed contract, with `--address`, `--signer`
+ * and `--private-key` params
+ * @param name task name
+ * @param description task description
+ * @param contractName contract name, used to find the deployment record
+ */
+export const contractTask = (
+	name: string,
+	description: string,
+	contractName: string
+) =>
+	task(name, description)
+		.addOptionalParam(
+			'address',
+			`${contractName} address, default is the deployment record of the network`,
+			undefined,
+			types.string
+		)
+		.addOptionalParam(
+			'signer',
+			'index of the account sending the transaction',
+			0,
+			types.int
+		)
+		.addOptionalParam(
+			'privateKey',
+			'private key of the account sending the transaction, overrides --signer',
+			undefined,
+			types.string
+		);
+
+/**
+ * error printed by hardhat without stack trace, for expected task failures
+ * @param message readable message
+ */
+export const taskError = (message: string) =>
+	new HardhatPluginError('solidity-example', message);
+
+/**
+ * turn a reverted transaction into a task error with the decoded custom
+ * error, require reason or panic code, other errors are returned untouched
+ * @param error error thrown by a transaction or call
+ * @param contractName preferred contract when several declare the error
+ * @param messages readable messages by error name
+ */
+export const decodeTaskError = async (
+	error: any,
+	contractName?: string,
+	messages: Record<string, (args: ethers.utils.Result) => string> = {}
+) => {
+	// the decoder imports typechain, which only exists after compilation
+	const { decodeRevert, formatRevert } = await import('../../helpers/revert');
+	const decoded = decodeRevert(error, { contractName });
+	if (!decoded) {
+		return error;
+	}
+
+	const message = messages[decoded.errorName];
+	return taskError(
+		message ? message(decoded.args) : `Transaction ${formatRevert(decoded)}`
+	);
+};
+
+/**
+ * seconds as a human readable duration, e.g. `1h 2m 3s`
+ * @param seconds duration in seconds
+ */
+export const formatDuration = (seconds: number) => {
+	if (seconds <= 0) {
+		return '0s';
+	}
+
+	const hours = Math.floor(seconds / 3600);
+	const minutes = Math.floor((seconds % 3600) / 60);
+	return [
+		hours > 0 && `${hours}h`,
+		minutes > 0 && `${minutes}m`,
+		`${seconds % 60}s`,
+	]
+		.filter(Boolean)
+		.join(' ');
+};
@@ -1 +1,11 @@
 import './deploy.task';
+import './simpleAuction.task';
+import './auctionFactory.task';
+import './ballot.task';
+import './purchase.task';
+import './indexer.task';
+import './gas.task';
+import './networks.task';
+import './testMode.task';
+import './verify.task';
+import './upgrade.task';
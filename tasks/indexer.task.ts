@@ -0,0 +1,253 @@
+import { task, types } from 'hardhat/config';
+import { HardhatRuntimeEnvironment } from 'hardhat/types';
+import type { IndexerTargetInterface } from '../scripts/indexer/indexer.store';
+import type { SyncResultInterface } from '../scripts/indexer/indexer.sync';
+import { taskError } from './helpers/task.base';
+
+/**
+ * indexer store of the current network, `--store` overrides the default path
+ * @param hre hardhat runtime environment
+ * @param storePath JSON store path given to the task
+ */
+const getStore = async (hre: HardhatRuntimeEnvironment, storePath?: string) => {
+	const { createJsonStore, getIndexerStorePath } = await import(
+		'../scripts/indexer/indexer.store'
+	);
+	return createJsonStore(storePath ?? getIndexerStorePath(hre.network.name));
+};
+
+/**
+ * contracts to index: explicit `Name:address` pairs, otherwise every
+ * indexable contract with a deployment record on the network
+ * @param hre hardhat runtime environment
+ * @param targets comma-separated `ContractName:address` pairs
+ * @param fromBlock first block of explicit targets
+ */
+const getTargets = async (
+	hre: HardhatRuntimeEnvironment,
+	targets: string | undefined,
+	fromBlock: number
+): Promise<IndexerTargetInterface[]> => {
+	// indexer and deploy helpers import typechain/hardhat, load them lazily
+	const { indexedContractNames } = await import(
+		'../scripts/indexer/indexer.sync'
+	);
+
+	if (targets === undefined) {
+		const { loadDeploymentRecord } = await import(
+			'../scripts/deploy/helpers/deploy.record'
+		);
+		const recordTargets: IndexerTargetInterface[] = [];
+
+		for (const contractName of indexedContractNames) {
+			const record = loadDeploymentRecord(contractName);
+			if (!record) {
+				continue;
+			}
+
+			// records of a local network outlive the node, skip the ones whose
+			// deployment is not on the current chain
+			const receipt = await hre.ethers.provider.getTransactionReceipt(
+				record.transactionHash
+			);
+			if (!receipt || receipt.blockNumber !== record.blockNumber) {
+				console.log(`Skipping ${contractName}, its deployment is not on chain`);
+				continue;
+			}
+
+			recordTargets.push({
+				contractName,
+				address: record.address,
+				fromBlock: record.blockNumber,
+			});
+		}
+
+		return recordTargets;
+	}
+
+	return targets.split(',').map((target) => {
+		const [contractName, address] = target.trim().split(':');
+		if (!indexedContractNames.includes(contractName) || !address) {
+			throw taskError(
+				`Invalid target "${target}", expected <${indexedContractNames.join(
+					'|'
+				)}>:<address>`
+			);
+		}
+		return { contractName, address, fromBlock };
+	});
+};
+
+task('indexer:sync', 'Index contract events into a local JSON store')
+	.addOptionalParam(
+		'targets',
+		'comma-separated ContractName:address pairs, default is the deployment records of the network',
+		undefined,
+		types.string
+	)
+	.addOptionalParam(
+		'fromBlock',
+		'first block of the --targets contracts',
+		0,
+		types.int
+	)
+	.addOptionalParam(
+		'store',
+		'JSON store, default is indexer/<network>.json',
+		undefined,
+		types.string
+	)
+	.addOptionalParam(
+		'pollingInterval',
+		'milliseconds between two syncs with --follow',
+		4000,
+		types.int
+	)
+	.addFlag('follow', 'keep indexing new blocks until interrupted')
+	.setAction(async (taskArgs, hre) => {
+		const { followEvents, syncEvents } = await import(
+			'../scripts/indexer/indexer.sync'
+		);
+		const store = await getStore(hre, taskArgs.store);
+		const targets = await getTargets(hre, taskArgs.targets, taskArgs.fromBlock);
+		if (
+			targets.length === 0 &&
+			Object.keys(store.load().targets).length === 0
+		) {
+			throw taskError(
+				`Nothing to index on ${hre.network.name}, deploy contracts or use --targets`
+			);
+		}
+
+		const logSync = ({ head, events, rolledBackTo }: SyncResultInterface) => {
+			// only report changes while following
+			if (
+				taskArgs.follow &&
+				events.length === 0 &&
+				rolledBackTo === undefined
+			) {
+				return;
+			}
+			if (rolledBackTo !== undefined) {
+				console.log(`Reorg detected, rolled back to block ${rolledBackTo}`);
+			}
+			events.forEach(({ blockNumber, contractName, address, event }) =>
+				console.log(`#${blockNumber} ${contractName} ${address} ${event}`)
+			);
+			console.log(`Synced to block ${head}, ${events.length} new events`);
+		};
+
+		if (!taskArgs.follow) {
+			logSync(await syncEvents(hre.ethers.provider, store, targets));
+			return;
+		}
+
+		const { stop } = followEvents(hre.ethers.provider, store, targets, {
+			pollingInterval: taskArgs.pollingInterval,
+			onSync: logSync,
+		});
+		await new Promise((resolve) => process.once('SIGINT', resolve));
+		stop();
+	});
+
+task('indexer:bids', 'Print the bid history of a SimpleAuction')
+	.addParam('address', 'SimpleAuction address', undefined, types.string)
+	.addOptionalParam(
+		'store',
+		'JSON store, default is indexer/<network>.json',
+		undefined,
+		types.string
+	)
+	.setAction(async (taskArgs, hre) => {
+		const { getAuctionEndTime, getAuctionResult, getBidHistory } = await import(
+			'../scripts/indexer/indexer.queries'
+		);
+		const state = (await getStore(hre, taskArgs.store)).load();
+		const { formatEther } = hre.ethers.utils;
+
+		console.table(
+			getBidHistory(state, taskArgs.address).map(
+				({ bidder, amount, blockNumber }) => ({
+					block: blockNumber,
+					bidder,
+					amount: `${formatEther(amount)} ETH`,
+				})
+			)
+		);
+
+		const auctionEndTime = getAuctionEndTime(state, taskArgs.address);
+		if (auctionEndTime) {
+			console.log(
+				`Extended by late bids to ${new Date(
+					Number(auctionEndTime) * 1000
+				).toISOString()}`
+			);
+		}
+
+		const result = getAuctionResult(state, taskArgs.address);
+		if (result?.reserveMet === false) {
+			console.log(
+				`Ended, the reserve price was not met, ${
+					result.highestBidder
+				} is refunded ${formatEther(result.highestBid)} ETH`
+			);
+		} else if (result) {
+			console.log(
+				`Ended, ${result.winner} won with ${formatEther(result.amount)} ETH`
+			);
+		}
+	});
+
+task('indexer:votes', 'Print the indexed vote counts of a Ballot')
+	.addParam('address', 'Ballot address', undefined, types.string)
+	.addOptionalParam(
+		'store',
+		'JSON store, default is indexer/<network>.json',
+		undefined,
+		types.string
+	)
+	.setAction(async (taskArgs, hre) => {
+		const { getVoteTally } = await import('../scripts/indexer/indexer.queries');
+		const state = (await getStore(hre, taskArgs.store)).load();
+		const { voters, voteCounts, totalVotes } = getVoteTally(
+			state,
+			taskArgs.address
+		);
+
+		console.table(
+			Object.entries(voteCounts).map(([proposal, voteCount]) => ({
+				proposal,
+				voteCount,
+			}))
+		);
+		console.log(`${totalVotes} votes, ${voters.length} voters`);
+	});
+
+task('indexer:escrows', 'Print the indexed Purchase escrows')
+	.addOptionalParam(
+		'buyer',
+		'only escrows of this buyer',
+		undefined,
+		types.string
+	)
+	.addOptionalParam(
+		'store',
+		'JSON store, default is indexer/<network>.json',
+		undefined,
+		types.string
+	)
+	.setAction(async (taskArgs, hre) => {
+		const { getEscrows } = await import('../scripts/indexer/indexer.queries');
+		const state = (await getStore(hre, taskArgs.store)).load();
+
+		console.table(
+			getEscrows(state, taskArgs.buyer).map(
+				({ address, state: escrowState, buyer, confirmedAt }) => ({
+					address,
+					state: escrowState,
+					buyer: buyer ?? '-',
+					confirmedAt: confirmedAt ?? '-',
+				})
+			)
+		);
+	});
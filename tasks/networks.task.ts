@@ -0,0 +1,42 @@
+import { task } from 'hardhat/config';
+import { NetworkAccountsType, loadNetworks } from '../helpers/networks';
+
+const describeAccounts = (accounts: NetworkAccountsType = 'remote') =>
+	accounts === 'remote'
+		? 'remote'
+		: Array.isArray(accounts)
+		? `${accounts.length} private key(s)`
+		: `mnemonic, ${accounts.count ?? 20} account(s)`;
+
+task('networks', 'List the networks of networks.config.json').setAction(
+	async (_, hre) => {
+		const networks = loadNetworks();
+		if (networks.length === 0) {
+			console.log('No network configured');
+			return;
+		}
+
+		// only the host of the URL, the path often holds an API key
+		console.table(
+			networks.map(({ name, entry }) =>
+				entry
+					? {
+							network: name,
+							host: new URL(entry.url).host,
+							chainId: entry.chainId ?? '-',
+							accounts: describeAccounts(entry.accounts),
+							confirmations: entry.confirmations ?? 1,
+							status: 'ok',
+					  }
+					: { network: name, status: 'not configured' }
+			)
+		);
+
+		networks
+			.filter(({ errors }) => errors.length > 0)
+			.forEach(({ name, errors }) =>
+				console.warn(`${name}: ${errors.join(', ')}`)
+			);
+		console.log(`Current network: ${hre.network.name}`);
+	}
+);
@@ -0,0 +1,373 @@
+import { constants, ContractTransaction, utils } from 'ethers';
+import { types } from 'hardhat/config';
+import {
+	ConfigurableTaskDefinition,
+	HardhatRuntimeEnvironment,
+} from 'hardhat/types';
+import type { Purchase } from '../typechain/Purchase';
+import {
+	contractTask,
+	decodeTaskError,
+	formatDuration,
+	resolveContractAddress,
+	resolveSigner,
+	SignerParamsInterface,
+	taskError,
+} from './helpers/task.base';
+import { purchaseStates } from './helpers/purchase.states';
+import { getConfirmations } from '../helpers/networks';
+
+interface PurchaseTaskArgsInterface extends SignerParamsInterface {
+	address?: string;
+	buyerAmount?: string;
+}
+
+// `party` is the buyer or the seller
+type PurchaseRole = 'seller' | 'buyer' | 'party' | 'arbiter' | 'anyone';
+
+interface PurchaseActionInterface {
+	task: string;
+	description: string;
+	state?: string; // state required by `inState`, any state when undefined
+	role: PurchaseRole; // role required by `onlySeller`/`onlyBuyer`/...
+	// reason why the escrow refuses the action besides its state and role
+	check?: (escrow: EscrowInterface) => string | undefined;
+	// params of the task besides the contract and signer ones
+	params?: (
+		definition: ConfigurableTaskDefinition
+	) => ConfigurableTaskDefinition;
+	send: (
+		purchase: Purchase,
+		taskArgs: PurchaseTaskArgsInterface
+	) => Promise<ContractTransaction>;
+}
+
+/**
+ * reason why a timeout cannot be claimed yet, mirrors `NoDeadline`/`TooEarly`
+ * @param deadline deadline of the escrow, 0 when disabled or not started
+ * @param timestamp latest block timestamp
+ */
+const checkDeadline = (deadline: number, timestamp: number) => {
+	if (deadline === 0) {
+		return 'the purchase has no such deadline (NoDeadline)';
+	}
+	if (timestamp <= deadline) {
+		return `the deadline is in ${formatDuration(
+			deadline - timestamp
+		)} (TooEarly)`;
+	}
+	return undefined;
+};
+
+const purchaseActions: PurchaseActionInterface[] = [
+	{
+		task: 'purchase:abort',
+		description: 'Abort the purchase and reclaim the deposit (seller)',
+		state: 'Created',
+		role: 'seller',
+		send: (purchase) => purchase.abort(),
+	},
+	{
+		task: 'purchase:confirm',
+		description: 'Confirm the purchase, depositing 2 * value (buyer)',
+		state: 'Created',
+		role: 'anyone',
+		check: ({ caller, arbiter }) =>
+			caller === arbiter
+				? 'the arbiter cannot be the buyer (InvalidArbiter)'
+				: undefined,
+		send: async (purchase) =>
+			purchase.confirmPurchase({ value: (await purchase.value()).mul(2) }),
+	},
+	{
+		task: 'purchase:received',
+		description: 'Confirm the item was received, release funds (buyer)',
+		state: 'Locked',
+		role: 'buyer',
+		send: (purchase) => purchase.confirmReceived(),
+	},
+	{
+		task: 'purchase:refund',
+		description: 'Pay back the locked funds of the seller (seller)',
+		state: 'Release',
+		role: 'seller',
+		send: (purchase) => purchase.refundSeller(),
+	},
+	{
+		task: 'purchase:delivered',
+		description:
+			'Confirm the item was delivered, start the confirmation period (seller)',
+		state: 'Locked',
+		role: 'seller',
+		check: ({ deliveredAt, deliveryDeadline, timestamp }) =>
+			deliveredAt > 0
+				? 'the item is already delivered (AlreadyDelivered)'
+				: deliveryDeadline > 0 && timestamp > deliveryDeadline
+				? 'the delivery deadline has passed (TooLate)'
+				: undefined,
+		send: (purchase) => purchase.confirmDelivery(),
+	},
+	{
+		task: 'purchase:reclaim',
+		description:
+			'Reclaim both deposits after the delivery deadline (buyer or seller)',
+		state: 'Locked',
+		role: 'party',
+		check: ({ deliveredAt, deliveryDeadline, timestamp }) =>
+			deliveredAt > 0
+				? 'the item is already delivered (AlreadyDelivered)'
+				: checkDeadline(deliveryDeadline, timestamp),
+		send: (purchase) => purchase.reclaimUndelivered(),
+	},
+	{
+		task: 'purchase:claim',
+		description: 'Release the funds after the confirmation deadline (seller)',
+		state: 'Locked',
+		role: 'seller',
+		check: ({ confirmationDeadline, timestamp }) =>
+			checkDeadline(confirmationDeadline, timestamp),
+		send: (purchase) => purchase.claimUnconfirmed(),
+	},
+	{
+		task: 'purchase:dispute',
+		description: 'Hand the locked funds over to the arbiter (buyer or seller)',
+		state: 'Locked',
+		role: 'party',
+		check: ({ arbiter }) =>
+			arbiter === constants.AddressZero
+				? 'the purchase has no arbiter (NoArbiter)'
+				: undefined,
+		send: (purchase) => purchase.dispute(),
+	},
+	{
+		task: 'purchase:resolve',
+		description: 'Split the locked funds of a dispute (arbiter)',
+		state: 'Disputed',
+		role: 'arbiter',
+		check: ({ rulingDeadline, timestamp }) =>
+			timestamp > rulingDeadline
+				? 'the ruling deadline has passed (TooLate)'
+				: undefined,
+		params: (definition) =>
+			definition.addParam(
+				'buyerAmount',
+				'ether paid to the buyer, the seller gets the rest of 4 * value',
+				undefined,
+				types.string
+			),
+		send: (purchase, { buyerAmount }) =>
+			purchase.resolveDispute(utils.parseEther(buyerAmount as string)),
+	},
+	{
+		task: 'purchase:unresolved',
+		description:
+			'Reclaim both deposits after the ruling deadline (buyer or seller)',
+		state: 'Disputed',
+		role: 'party',
+		check: ({ rulingDeadline, timestamp }) =>
+			checkDeadline(rulingDeadline, timestamp),
+		send: (purchase) => purchase.reclaimUnresolved(),
+	},
+	{
+		task: 'purchase:withdraw',
+		description: 'Withdraw the funds credited by a timeout or a ruling',
+		role: 'anyone',
+		check: ({ pendingWithdrawal }) =>
+			pendingWithdrawal.isZero() ? 'nothing to withdraw' : undefined,
+		send: (purchase) => purchase.withdraw(),
+	},
+];
+
+const getPurchase = async (
+	hre: HardhatRuntimeEnvironment,
+	{ address, ...signerParams }: PurchaseTaskArgsInterface
+) =>
+	(await hre.ethers.getContractAt(
+		'Purchase',
+		await resolveContractAddress(hre, 'Purchase', address),
+		await resolveSigner(hre, signerParams)
+	)) as Purchase;
+
+/**
+ * read everything needed to check and summarize the escrow
+ * @param purchase Purchase connected to the caller
+ */
+const getEscrow = async (purchase: Purchase) => {
+	const caller = await purchase.signer.getAddress();
+	const [
+		value,
+		seller,
+		buyer,
+		arbiter,
+		state,
+		balance,
+		deliveredAt,
+		deliveryDeadline,
+		confirmationDeadline,
+		rulingDeadline,
+		pendingWithdrawal,
+		{ timestamp },
+	] = await Promise.all([
+		purchase.value(),
+		purchase.seller(),
+		purchase.buyer(),
+		purchase.arbiter(),
+		purchase.state(),
+		purchase.provider.getBalance(purchase.address),
+		purchase.deliveredAt(),
+		purchase.deliveryDeadline(),
+		purchase.confirmationDeadline(),
+		purchase.rulingDeadline(),
+		purchase.pendingWithdrawals(caller),
+		purchase.provider.getBlock('latest'),
+	]);
+
+	return {
+		value,
+		seller,
+		buyer,
+		arbiter,
+		state: purchaseStates[state],
+		balance,
+		deliveredAt: deliveredAt.toNumber(),
+		deliveryDeadline: deliveryDeadline.toNumber(),
+		confirmationDeadline: confirmationDeadline.toNumber(),
+		rulingDeadline: rulingDeadline.toNumber(),
+		pendingWithdrawal,
+		timestamp,
+		caller,
+	};
+};
+
+type EscrowInterface = Awaited<ReturnType<typeof getEscrow>>;
+
+/**
+ * reason why the caller cannot run an action, mirrors the contract
+ * modifiers (`InvalidState`, `OnlySeller`, `OnlyBuyer`, ...) and checks
+ */
+const getActionError = (
+	{ task: taskName, state, role, check }: PurchaseActionInterface,
+	escrow: EscrowInterface
+) => {
+	if (role === 'seller' && escrow.caller !== escrow.seller) {
+		return `Only the seller ${escrow.seller} can run ${taskName} (OnlySeller)`;
+	}
+	if (role === 'buyer' && escrow.caller !== escrow.buyer) {
+		return escrow.buyer === constants.AddressZero
+			? `No buyer has confirmed the purchase yet, ${taskName} is not available (OnlyBuyer)`
+			: `Only the buyer ${escrow.buyer} can run ${taskName} (OnlyBuyer)`;
+	}
+	if (
+		role === 'party' &&
+		escrow.caller !== escrow.seller &&
+		escrow.caller !== escrow.buyer
+	) {
+		return `Only the buyer or the seller can run ${taskName} (OnlyParty)`;
+	}
+	if (role === 'arbiter' && escrow.caller !== escrow.arbiter) {
+		return `Only the arbiter ${escrow.arbiter} can run ${taskName} (OnlyArbiter)`;
+	}
+	if (state !== undefined && escrow.state !== state) {
+		return `${taskName} requires state ${state}, purchase is ${escrow.state} (InvalidState)`;
+	}
+	const checkError = check?.(escrow);
+	if (checkError) {
+		return `Cannot run ${taskName}, ${checkError}`;
+	}
+	return undefined;
+};
+
+const getAllowedActions = (escrow: EscrowInterface) =>
+	purchaseActions
+		.filter((action) => getActionError(action, escrow) === undefined)
+		.map((action) => action.task);
+
+const logEscrow = (
+	hre: HardhatRuntimeEnvironment,
+	purchase: Purchase,
+	escrow: EscrowInterface
+) => {
+	const { formatEther } = hre.ethers.utils;
+	const allowedActions = getAllowedActions(escrow);
+	const formatDeadline = (deadline: number) =>
+		deadline === 0
+			? '-'
+			: `${new Date(deadline * 1000).toISOString()}${
+					deadline > escrow.timestamp
+						? ` (in ${formatDuration(deadline - escrow.timestamp)})`
+						: ' (passed)'
+			  }`;
+
+	console.log(`### Purchase ${purchase.address} ###`);
+	console.log(`State: ${escrow.state}`);
+	console.log(`Value: ${formatEther(escrow.value)} ETH`);
+	console.log(`Seller: ${escrow.seller}`);
+	console.log(
+		`Buyer: ${escrow.buyer === constants.AddressZero ? '-' : escrow.buyer}`
+	);
+	console.log(
+		`Arbiter: ${
+			escrow.arbiter === constants.AddressZero ? '-' : escrow.arbiter
+		}`
+	);
+	console.log(`Balance: ${formatEther(escrow.balance)} ETH`);
+	// deadlines only apply to a locked escrow
+	if (escrow.state === 'Locked') {
+		console.log(
+			`Delivery deadline: ${formatDeadline(escrow.deliveryDeadline)}`
+		);
+		console.log(
+			`Confirmation deadline: ${formatDeadline(escrow.confirmationDeadline)}`
+		);
+	}
+	if (escrow.state === 'Disputed') {
+		console.log(`Ruling deadline: ${formatDeadline(escrow.rulingDeadline)}`);
+	}
+	if (!escrow.pendingWithdrawal.isZero()) {
+		console.log(
+			`Pending withdrawal of ${escrow.caller}: ${formatEther(
+				escrow.pendingWithdrawal
+			)} ETH`
+		);
+	}
+	console.log(
+		`Next actions for ${escrow.caller}: ${
+			allowedActions.length > 0 ? allowedActions.join(', ') : 'none'
+		}`
+	);
+};
+
+contractTask(
+	'purchase:status',
+	'Show the escrow summary and the next allowed actions',
+	'Purchase'
+).setAction(async (taskArgs, hre) => {
+	const purchase = await getPurchase(hre, taskArgs);
+	logEscrow(hre, purchase, await getEscrow(purchase));
+});
+
+purchaseActions.forEach((action) => {
+	const definition = contractTask(action.task, action.description, 'Purchase');
+	(action.params?.(definition) ?? definition).setAction(
+		async (taskArgs, hre) => {
+			const purchase = await getPurchase(hre, taskArgs);
+			const escrow = await getEscrow(purchase);
+
+			// refuse before sending anything, so no gas is wasted on a revert
+			const actionError = getActionError(action, escrow);
+			if (actionError) {
+				throw taskError(actionError);
+			}
+
+			try {
+				const tx = await action.send(purchase, taskArgs);
+				await tx.wait(getConfirmations(hre.network));
+				console.log(`${action.task} done (tx ${tx.hash})`);
+			} catch (error) {
+				throw await decodeTaskError(error, 'Purchase');
+			}
+
+			logEscrow(hre, purchase, await getEscrow(purchase));
+		}
+	);
+});
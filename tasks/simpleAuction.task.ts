@@ -0,0 +1,205 @@
+import { types } from 'hardhat/config';
+import { HardhatRuntimeEnvironment } from 'hardhat/types';
+import type { SimpleAuction } from '../typechain/SimpleAuction';
+import {
+	contractTask,
+	decodeTaskError,
+	formatDuration,
+	resolveContractAddress,
+	resolveSigner,
+	SignerParamsInterface,
+} from './helpers/task.base';
+import { getConfirmations } from '../helpers/networks';
+
+interface SimpleAuctionTaskArgsInterface extends SignerParamsInterface {
+	address?: string;
+}
+
+/**
+ * SimpleAuction at the given address or from the deployment record,
+ * connected to the task signer
+ */
+const getAuction = async (
+	hre: HardhatRuntimeEnvironment,
+	{ address, ...signerParams }: SimpleAuctionTaskArgsInterface
+) => {
+	const auctionAddress = await resolveContractAddress(
+		hre,
+		'SimpleAuction',
+		address
+	);
+	const signer = await resolveSigner(hre, signerParams);
+
+	return (await hre.ethers.getContractAt(
+		'SimpleAuction',
+		auctionAddress,
+		signer
+	)) as SimpleAuction;
+};
+
+/**
+ * turn SimpleAuction custom errors into readable messages
+ */
+const decodeAuctionError = (hre: HardhatRuntimeEnvironment, error: any) =>
+	decodeTaskError(error, 'SimpleAuction', {
+		BidNotHighEnough: ([highestBid]) =>
+			`Bid is not high enough, current highest bid is ${hre.ethers.utils.formatEther(
+				highestBid
+			)} ETH`,
+		BidIncrementTooLow: ([minimumBid]) =>
+			`Bid does not add the minimum increment, minimum bid is ${hre.ethers.utils.formatEther(
+				minimumBid
+			)} ETH`,
+		AuctionAlreadyEnded: () => 'Auction has already ended, bidding is closed',
+		AuctionNotYetEnded: () => 'Auction has not ended yet',
+		AuctionEndAlreadyCalled: () => 'Auction end has already been called',
+	});
+
+const auctionTask = (name: string, description: string) =>
+	contractTask(name, description, 'SimpleAuction');
+
+auctionTask('auction:simple:bid', 'Bid on a SimpleAuction')
+	.addParam('value', 'bid value in ether', undefined, types.string)
+	.setAction(async (taskArgs, hre) => {
+		const auction = await getAuction(hre, taskArgs);
+		const value = hre.ethers.utils.parseEther(taskArgs.value);
+
+		try {
+			const endTime = await auction.auctionEndTime();
+			const tx = await auction.bid({ value });
+			await tx.wait(getConfirmations(hre.network));
+			console.log(
+				`Bid ${taskArgs.value} ETH on ${auction.address} (tx ${tx.hash})`
+			);
+			const newEndTime = await auction.auctionEndTime();
+			if (!newEndTime.eq(endTime)) {
+				console.log(
+					`Auction extended to ${new Date(
+						newEndTime.toNumber() * 1000
+					).toISOString()}`
+				);
+			}
+		} catch (error) {
+			throw await decodeAuctionError(hre, error);
+		}
+	});
+
+auctionTask(
+	'auction:simple:withdraw',
+	'Withdraw overbid funds from a SimpleAuction'
+).setAction(async (taskArgs, hre) => {
+	const auction = await getAuction(hre, taskArgs);
+	const bidder = await auction.signer.getAddress();
+	const amount = await auction.pendingReturns(bidder);
+
+	if (amount.isZero()) {
+		console.log(`Nothing to withdraw for ${bidder}`);
+		return;
+	}
+
+	try {
+		const tx = await auction.withdraw();
+		await tx.wait(getConfirmations(hre.network));
+		if (!(await auction.pendingReturns(bidder)).isZero()) {
+			throw new Error(`Withdraw of ${bidder} failed, funds are kept`);
+		}
+		console.log(
+			`Withdrew ${hre.ethers.utils.formatEther(amount)} ETH (tx ${tx.hash})`
+		);
+	} catch (error) {
+		throw await decodeAuctionError(hre, error);
+	}
+});
+
+auctionTask(
+	'auction:simple:end',
+	'End a SimpleAuction and send the highest bid to the beneficiary'
+).setAction(async (taskArgs, hre) => {
+	const auction = await getAuction(hre, taskArgs);
+
+	try {
+		const tx = await auction.auctionEnd();
+		await tx.wait(getConfirmations(hre.network));
+		if (!(await auction.reserveMet())) {
+			console.log(
+				`Auction ended below the reserve price, the highest bid is refunded (tx ${tx.hash})`
+			);
+			return;
+		}
+		console.log(
+			`Auction ended, ${await auction.highestBidder()} won with ${hre.ethers.utils.formatEther(
+				await auction.highestBid()
+			)} ETH (tx ${tx.hash})`
+		);
+	} catch (error) {
+		throw await decodeAuctionError(hre, error);
+	}
+});
+
+auctionTask(
+	'auction:simple:status',
+	'Show the state of a SimpleAuction'
+).setAction(async (taskArgs, hre) => {
+	const auction = await getAuction(hre, taskArgs);
+	const caller = await auction.signer.getAddress();
+	const { formatEther } = hre.ethers.utils;
+
+	const [
+		beneficiary,
+		highestBidder,
+		highestBid,
+		auctionEndTime,
+		ended,
+		pendingReturn,
+		reservePrice,
+		reserveMet,
+		minimumBid,
+		softCloseWindow,
+		latestBlock,
+	] = await Promise.all([
+		auction.beneficiary(),
+		auction.highestBidder(),
+		auction.highestBid(),
+		auction.auctionEndTime(),
+		auction.ended(),
+		auction.pendingReturns(caller),
+		auction.reservePrice(),
+		auction.reserveMet(),
+		auction.minimumBid(),
+		auction.softCloseWindow(),
+		hre.ethers.provider.getBlock('latest'),
+	]);
+	const remaining = auctionEndTime.toNumber() - latestBlock.timestamp;
+
+	console.log(`### SimpleAuction ${auction.address} ###`);
+	console.log(`Beneficiary: ${beneficiary}`);
+	console.log(
+		`Highest bidder: ${
+			highestBidder === hre.ethers.constants.AddressZero ? '-' : highestBidder
+		}`
+	);
+	console.log(`Highest bid: ${formatEther(highestBid)} ETH`);
+	console.log(
+		`Reserve price: ${formatEther(reservePrice)} ETH (${
+			reserveMet ? 'met' : 'not met'
+		})`
+	);
+	console.log(`Minimum bid: ${formatEther(minimumBid)} ETH`);
+	console.log(
+		`End time: ${new Date(auctionEndTime.toNumber() * 1000).toISOString()}`
+	);
+	console.log(
+		`Time remaining: ${
+			remaining > 0 ? formatDuration(remaining) : 'bidding closed'
+		}`
+	);
+	if (!softCloseWindow.isZero()) {
+		console.log(
+			`Soft close: bids in the last ${formatDuration(
+				softCloseWindow.toNumber()
+			)} extend the auction`
+		);
+	}
+	console.log(`Ended: ${ended ? 'yes' : 'no'}`);
+	console.log(`Pending return of ${caller}: ${formatEther(pendingReturn)} ETH`);
+});
@@ -0,0 +1,84 @@
+import { subtask } from 'hardhat/config';
+import { TASK_TEST_RUN_MOCHA_TESTS } from 'hardhat/builtin-tasks/task-names';
+import {
+	getTestMode,
+	TEST_NODE_NETWORK,
+	waitForMinedTransactions,
+} from '../helpers/testMode';
+import { taskError } from './helpers/task.base';
+
+// the fixtures name signers 0 to 10, the beneficiary is signer 10
+const REQUIRED_ACCOUNTS = 11;
+
+// `TEST_NETWORK`, `TEST_MINING` and `TEST_TIME` run the same tests on an
+// external node or a fork, with interval mining or in real time
+subtask(TASK_TEST_RUN_MOCHA_TESTS).setAction(
+	async (taskArgs, hre, runSuper) => {
+		const mode = getTestMode();
+		const { provider } = hre.network;
+		const external = hre.network.name === TEST_NODE_NETWORK;
+
+		if (external) {
+			try {
+				await provider.request({ method: 'eth_chainId' });
+			} catch {
+				throw taskError(
+					`No node at ${mode.nodeUrl}, start one with \`npx hardhat node\` or \`anvil --accounts 20\``
+				);
+			}
+		}
+
+		const accounts = (await provider.request({
+			method: 'eth_accounts',
+		})) as string[];
+		if (accounts.length < REQUIRED_ACCOUNTS) {
+			throw taskError(
+				`Network ${hre.network.name} has ${accounts.length} accounts, tests need ${REQUIRED_ACCOUNTS}`
+			);
+		}
+
+		if (external && mode.miningInterval > 0) {
+			await provider.request({ method: 'evm_setAutomine', params: [false] });
+			await provider.request({
+				method: 'evm_setIntervalMining',
+				params: [mode.miningInterval],
+			});
+		}
+		const waitsForBlocks = mode.miningInterval > 0 || mode.realTime;
+		if (waitsForBlocks) {
+			hre.config.mocha.timeout = 10 * 60 * 1000;
+		}
+		// sent transactions resolve once mined, parallel workers are not covered
+		const restoreProvider =
+			mode.miningInterval > 0
+				? waitForMinedTransactions(provider)
+				: () => undefined;
+		if (mode.network !== 'hardhat' || waitsForBlocks) {
+			console.log(
+				`Testing on ${hre.network.name}${
+					mode.network === 'fork'
+						? ` forked from ${new URL(mode.forkUrl as string).host}`
+						: ''
+				}, ${
+					mode.miningInterval > 0
+						? `mining every ${mode.miningInterval}ms`
+						: 'automine'
+				}, ${mode.realTime ? 'real' : 'fast-forwarded'} time`
+			);
+		}
+
+		try {
+			return await runSuper(taskArgs);
+		} finally {
+			restoreProvider();
+			// leave the node as it was started
+			if (external && mode.miningInterval > 0) {
+				await provider.request({
+					method: 'evm_setIntervalMining',
+					params: [0],
+				});
+				await provider.request({ method: 'evm_setAutomine', params: [true] });
+			}
+		}
+	}
+);
@@ -0,0 +1,35 @@
+import { task, types } from 'hardhat/config';
+import { taskError } from './helpers/task.base';
+
+task('upgrade', 'Upgrade a contract deployed behind a proxy')
+	.addParam(
+		'contract',
+		'contract name of the proxy deployment record, e.g. BallotUpgradeable',
+		undefined,
+		types.string
+	)
+	.addOptionalParam(
+		'implementation',
+		'new implementation contract, default is the recompiled --contract',
+		undefined,
+		types.string
+	)
+	.addFlag('dryRun', 'only check the storage layout of the new implementation')
+	.addFlag('json', 'print the upgrade as NDJSON')
+	.setAction(async (taskArgs, hre) => {
+		const { contract, implementation, dryRun, json } = taskArgs;
+		// deploy helpers import `hardhat`, so they must be loaded lazily
+		const { upgradeProxy } = await import(
+			'../scripts/deploy/helpers/deploy.proxy'
+		);
+
+		await hre.run('compile', { quiet: true });
+		try {
+			return await upgradeProxy(
+				{ contractName: contract, implementation, dryRun },
+				{ json }
+			);
+		} catch (error) {
+			throw taskError((error as Error).message);
+		}
+	});
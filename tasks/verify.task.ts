@@ -0,0 +1,147 @@
+import { task, types } from 'hardhat/config';
+import { HardhatRuntimeEnvironment } from 'hardhat/types';
+import { taskError } from './helpers/task.base';
+
+interface VerifyTaskArgsInterface {
+	contract: string;
+	address?: string;
+	args?: string;
+	apiUrl?: string;
+	apiKey?: string;
+	pollingInterval: number;
+	timeout: number;
+}
+
+/**
+ * address and constructor arguments to verify: explicit ones, otherwise the
+ * deployment record of the network. The record args are reused for its address
+ * @param hre hardhat runtime environment
+ * @param taskArgs task arguments
+ */
+const getDeployment = async (
+	hre: HardhatRuntimeEnvironment,
+	{ contract, address, args }: VerifyTaskArgsInterface
+) => {
+	// deployment helpers import `hardhat`, so they must be loaded lazily
+	const { loadDeploymentRecord } = await import(
+		'../scripts/deploy/helpers/deploy.record'
+	);
+	const record = loadDeploymentRecord(contract, hre.network.name);
+	const deployedAddress = address ?? record?.address;
+	if (!deployedAddress) {
+		throw taskError(
+			`No ${contract} address given and no deployment record on network ${hre.network.name}`
+		);
+	}
+	if (!hre.ethers.utils.isAddress(deployedAddress)) {
+		throw taskError(`Invalid ${contract} address: ${deployedAddress}`);
+	}
+
+	let constructorArgs: any[] = [];
+	if (args !== undefined) {
+		try {
+			constructorArgs = JSON.parse(args);
+		} catch {
+			throw taskError(`--args must be a JSON array, got ${args}`);
+		}
+		if (!Array.isArray(constructorArgs)) {
+			throw taskError(`--args must be a JSON array, got ${args}`);
+		}
+	} else if (
+		record &&
+		record.address.toLowerCase() === deployedAddress.toLowerCase()
+	) {
+		constructorArgs = record.args;
+	}
+
+	return { address: deployedAddress, constructorArgs };
+};
+
+task('verify', 'Verify a contract on an Etherscan-compatible explorer')
+	.addParam('contract', 'contract name', undefined, types.string)
+	.addOptionalParam(
+		'address',
+		'contract address, default is the deployment record of the network',
+		undefined,
+		types.string
+	)
+	.addOptionalParam(
+		'args',
+		'constructor arguments as a JSON array, default is the args of the deployment record',
+		undefined,
+		types.string
+	)
+	.addOptionalParam(
+		'apiUrl',
+		'Etherscan-compatible API, default is `verify.apiUrl` of the network',
+		undefined,
+		types.string
+	)
+	.addOptionalParam(
+		'apiKey',
+		'API key, default is the variable named by `verify.apiKeyEnv` of the network, or ETHERSCAN_API_KEY',
+		undefined,
+		types.string
+	)
+	.addOptionalParam(
+		'pollingInterval',
+		'milliseconds between two status requests',
+		5000,
+		types.int
+	)
+	.addOptionalParam('timeout', 'seconds before giving up', 300, types.int)
+	.setAction(async (taskArgs: VerifyTaskArgsInterface, hre) => {
+		const verifyConfig =
+			'verify' in hre.network.config ? hre.network.config.verify : undefined;
+		const apiUrl = taskArgs.apiUrl ?? verifyConfig?.apiUrl;
+		if (!apiUrl) {
+			throw taskError(
+				`No verification API for network ${hre.network.name}, set \`verify.apiUrl\` in networks.config.json or use --api-url`
+			);
+		}
+		const apiKeyEnv = verifyConfig?.apiKeyEnv ?? 'ETHERSCAN_API_KEY';
+		const apiKey = taskArgs.apiKey ?? process.env[apiKeyEnv];
+		if (!apiKey) {
+			throw taskError(`${apiKeyEnv} is not set, use it or --api-key`);
+		}
+
+		const { address, constructorArgs } = await getDeployment(hre, taskArgs);
+		if ((await hre.ethers.provider.getCode(address)) === '0x') {
+			throw taskError(
+				`No contract at ${address} on network ${hre.network.name}`
+			);
+		}
+
+		// verification helpers import `hardhat`, so they must be loaded lazily
+		const { getVerificationInput } = await import(
+			'../scripts/verify/verify.input'
+		);
+		const { verifyOnExplorer } = await import('../scripts/verify/verify.api');
+
+		try {
+			const verification = await getVerificationInput(
+				taskArgs.contract,
+				constructorArgs
+			);
+			const { chainId } = await hre.ethers.provider.getNetwork();
+			const result = await verifyOnExplorer(
+				{ apiUrl, apiKey, chainId },
+				address,
+				verification,
+				{
+					pollingInterval: taskArgs.pollingInterval,
+					timeout: taskArgs.timeout * 1000,
+				},
+				console.log
+			);
+
+			console.log(
+				result === 'verified'
+					? `${taskArgs.contract} at ${address} is verified`
+					: `${taskArgs.contract} at ${address} was already verified`
+			);
+			return result;
+		} catch (error) {
+			throw taskError((error as Error).message);
+		}
+	});
@@ -0,0 +1,288 @@
+import { ethers } from 'hardhat';
+import chai from 'chai';
+import chaiAsPromised from 'chai-as-promised';
+import { solidity } from 'ethereum-waffle';
+import { SignerWithAddress } from '@nomiclabs/hardhat-ethers/signers';
+import { AuctionFactory } from '../typechain/AuctionFactory';
+import { advanceTo } from '../helpers/time';
+import { fixtureParams, useFixture } from '../helpers/fixtures';
+import { revertMatcher } from '../helpers/revertMatcher';
+import { computeBlindedBid, generateSecret } from '../helpers/blindBid';
+import { createAuctionFactoryClient } from '../scripts/auctionFactory/auctionFactory.client';
+
+chai.use(solidity);
+chai.use(chaiAsPromised);
+chai.use(revertMatcher);
+const { expect } = chai;
+
+describe('Auction Factory', () => {
+	const fixture = useFixture();
+	let factory: AuctionFactory;
+	let signers: SignerWithAddress[];
+	let beneficiaryAddress: string;
+
+	const biddingTime = fixtureParams.blindAuctionBiddingTime;
+	const revealTime = fixtureParams.blindAuctionRevealTime;
+
+	const getClient = (signer: SignerWithAddress) =>
+		createAuctionFactoryClient(factory.address, signer);
+
+	beforeEach(async () => {
+		const { auctionFactory, signers: namedSigners } = fixture();
+		factory = auctionFactory;
+		signers = namedSigners.all;
+		beneficiaryAddress = namedSigners.beneficiary.address;
+	});
+
+	describe('registry', async () => {
+		it('should create and record a SimpleAuction', async () => {
+			const tx = await factory
+				.connect(signers[1])
+				.createSimpleAuction(biddingTime, beneficiaryAddress, 100, 5, 10, 60);
+			const receipt = await tx.wait();
+			const { timestamp } = await ethers.provider.getBlock(receipt.blockNumber);
+			const auctionAddress = receipt.events?.find(
+				({ event }) => event === 'AuctionCreated'
+			)?.args?.auction;
+			const auction = await ethers.getContractAt(
+				'SimpleAuction',
+				auctionAddress
+			);
+
+			await expect(tx)
+				.to.emit(factory, 'AuctionCreated')
+				.withArgs(
+					auctionAddress,
+					0,
+					signers[1].address,
+					beneficiaryAddress,
+					timestamp + biddingTime,
+					0
+				);
+			expect(await factory.auctionCount()).to.eq(1);
+			expect(await factory.isAuction(auctionAddress)).to.eq(true);
+			const info = await factory.getAuction(auctionAddress);
+			expect([
+				info.auction,
+				info.auctionType,
+				info.creator,
+				info.beneficiary,
+				info.createdAt,
+			]).to.deep.eq([
+				auctionAddress,
+				0,
+				signers[1].address,
+				beneficiaryAddress,
+				ethers.BigNumber.from(timestamp),
+			]);
+			// the params given to the factory reach the auction
+			expect(await auction.beneficiary()).to.eq(beneficiaryAddress);
+			expect(await auction.reservePrice()).to.eq(100);
+			expect(await auction.softCloseWindow()).to.eq(60);
+		});
+
+		it('should create and record a BlindAuction', async () => {
+			const client = getClient(signers[2]);
+			const auction = await client.createBlindAuction({
+				biddingTime,
+				revealTime,
+				beneficiaryAddress,
+			});
+
+			expect(auction.auctionType).to.eq('BlindAuction');
+			expect(auction.creator).to.eq(signers[2].address);
+			expect(auction.biddingEnd).to.eq(auction.createdAt + biddingTime);
+			expect(auction.revealEnd).to.eq(auction.biddingEnd + revealTime);
+			const { auctionType, creator } = await factory.getAuction(
+				auction.address
+			);
+			expect([auctionType, creator]).to.deep.eq([1, signers[2].address]);
+		});
+
+		it('should refuse unknown auctions', async () => {
+			expect(await factory.isAuction(signers[1].address)).to.eq(false);
+			await expect(
+				factory.getAuction(signers[1].address)
+			).to.be.revertedWithError('UnknownAuction', [signers[1].address]);
+		});
+
+		it('should page through the auctions', async () => {
+			const client = getClient(signers[0]);
+			const created: string[] = [];
+			for (let i = 0; i < 3; i++) {
+				created.push(
+					(
+						await client.createSimpleAuction({
+							biddingTime,
+							beneficiaryAddress,
+						})
+					).address
+				);
+			}
+
+			const page = await factory.getAuctions(1, 5);
+			expect(page.map(({ auction }) => auction)).to.deep.eq(created.slice(1));
+			expect(await factory.getAuctions(3, 5)).to.deep.eq([]);
+			expect(await factory.getAuctions(0, 0)).to.deep.eq([]);
+
+			// a max limit reads to the end instead of overflowing
+			const { MaxUint256 } = ethers.constants;
+			const all = await factory.getAuctions(0, MaxUint256);
+			expect(all.map(({ auction }) => auction)).to.deep.eq(created);
+			const last = await factory.getAuctions(2, MaxUint256);
+			expect(last.map(({ auction }) => auction)).to.deep.eq(created.slice(2));
+			expect(await factory.getAuctions(MaxUint256, MaxUint256)).to.deep.eq([]);
+		});
+	});
+
+	describe('client', async () => {
+		let simpleAddress: string;
+		let blindAddress: string;
+		let otherAddress: string;
+
+		beforeEach(async () => {
+			simpleAddress = (
+				await getClient(signers[0]).createSimpleAuction({
+					biddingTime,
+					beneficiaryAddress,
+				})
+			).address;
+			blindAddress = (
+				await getClient(signers[0]).createBlindAuction({
+					biddingTime,
+					revealTime,
+					beneficiaryAddress,
+				})
+			).address;
+			otherAddress = (
+				await getClient(signers[1]).createSimpleAuction({
+					biddingTime: biddingTime * 4,
+					beneficiaryAddress: signers[1].address,
+				})
+			).address;
+		});
+
+		const addresses = (auctions: { address: string }[]) =>
+			auctions.map(({ address }) => address);
+
+		it('should list every auction in creation order', async () => {
+			const auctions = await getClient(signers[0]).list();
+
+			expect(addresses(auctions)).to.deep.eq([
+				simpleAddress,
+				blindAddress,
+				otherAddress,
+			]);
+			expect(auctions.map(({ auctionType }) => auctionType)).to.deep.eq([
+				'SimpleAuction',
+				'BlindAuction',
+				'SimpleAuction',
+			]);
+			expect(auctions.map(({ status }) => status)).to.deep.eq([
+				'active',
+				'active',
+				'active',
+			]);
+		});
+
+		it('should filter by beneficiary, creator and type', async () => {
+			const client = getClient(signers[0]);
+
+			expect(
+				addresses(await client.list({ beneficiary: beneficiaryAddress }))
+			).to.deep.eq([simpleAddress, blindAddress]);
+			expect(
+				addresses(
+					await client.list({ creator: signers[1].address.toLowerCase() })
+				)
+			).to.deep.eq([otherAddress]);
+			expect(
+				addresses(await client.list({ auctionType: 'BlindAuction' }))
+			).to.deep.eq([blindAddress]);
+			expect(
+				addresses(
+					await client.list({
+						beneficiary: beneficiaryAddress,
+						auctionType: 'SimpleAuction',
+					})
+				)
+			).to.deep.eq([simpleAddress]);
+		});
+
+		it('should filter active and ended auctions', async () => {
+			const client = getClient(signers[0]);
+			const [simple] = await client.list({ auctionType: 'SimpleAuction' });
+			// the SimpleAuction is over, the BlindAuction is revealing
+			await advanceTo(simple.endTime + 1);
+
+			expect(addresses(await client.list({ status: 'ended' }))).to.deep.eq([
+				simpleAddress,
+			]);
+			expect(addresses(await client.list({ status: 'active' }))).to.deep.eq([
+				blindAddress,
+				otherAddress,
+			]);
+		});
+
+		it('should attach typed auctions connected to the client signer', async () => {
+			const bidder = getClient(signers[3]);
+			const simple = await bidder.get(simpleAddress);
+			const blind = await bidder.get(blindAddress);
+			if (
+				simple.auctionType !== 'SimpleAuction' ||
+				blind.auctionType !== 'BlindAuction'
+			) {
+				throw new Error('Unexpected auction types');
+			}
+
+			await (await simple.contract.bid({ value: 10 })).wait();
+			await (
+				await blind.contract.bid(
+					computeBlindedBid({
+						value: 10,
+						fake: false,
+						secret: generateSecret(),
+					}),
+					{ value: 10 }
+				)
+			).wait();
+
+			expect(await simple.contract.highestBidder()).to.eq(signers[3].address);
+			expect((await blind.contract.bids(signers[3].address, 0)).deposit).to.eq(
+				10
+			);
+		});
+
+		it('should follow the end of an extended SimpleAuction', async () => {
+			const client = getClient(signers[0]);
+			const window = fixtureParams.simpleAuctionSoftCloseWindow;
+			const created = await client.createSimpleAuction({
+				biddingTime,
+				beneficiaryAddress,
+				softCloseWindow: window,
+			});
+			if (created.auctionType !== 'SimpleAuction') {
+				throw new Error('Unexpected auction type');
+			}
+			await advanceTo(created.endTime - window / 2);
+			await (await created.contract.bid({ value: 10 })).wait();
+
+			const extended = await client.get(created.address);
+			expect(extended.biddingEnd).to.eq(created.endTime);
+			expect(extended.endTime).to.be.gt(created.endTime);
+			expect(extended.status).to.eq('active');
+		});
+
+		it('should list an auction ended early as ended', async () => {
+			const client = getClient(signers[0]);
+			const [simple] = await client.list({ auctionType: 'SimpleAuction' });
+			if (simple.auctionType !== 'SimpleAuction') {
+				throw new Error('Unexpected auction type');
+			}
+			await advanceTo(simple.endTime);
+			await (await simple.contract.auctionEnd()).wait();
+
+			expect((await client.get(simpleAddress)).status).to.eq('ended');
+		});
+	});
+});
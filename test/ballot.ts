@@ -1,38 +1,54 @@
-import { ethers } from "hardhat";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { ethers, run } from "hardhat";
 import chai from "chai";
+import fc from "fast-check";
 import chaiAsPromised from "chai-as-promised";
 import { solidity } from "ethereum-waffle";
 import { Ballot } from "../typechain/Ballot";
 import { SignerWithAddress } from "@nomiclabs/hardhat-ethers/signers";
+import { deployBallot, fixtureParams, useFixture } from "../helpers/fixtures";
+import { advanceTo } from "../helpers/time";
+import { revertMatcher } from "../helpers/revertMatcher";
+import { CapturedConsoleInterface, captureConsole } from "../helpers/console";
+import { loadDeploymentRecord } from "../scripts/deploy/helpers/deploy.record";
+import {
+  createJsonStore,
+  createMemoryStore,
+} from "../scripts/indexer/indexer.store";
+import { syncEvents } from "../scripts/indexer/indexer.sync";
+import { getVoteTally } from "../scripts/indexer/indexer.queries";
+import {
+  chainCommand,
+  chainProperty,
+  expectOutcome,
+  propertyParams,
+} from "../helpers/property";
 
 chai.use(solidity);
 chai.use(chaiAsPromised);
+chai.use(revertMatcher);
 const { expect } = chai;
 const nullAddress = "0x0000000000000000000000000000000000000000";
 
 describe("Ballot", () => {
+  const fixture = useFixture();
   let ballot: Ballot; // this Ballot contract is called by chairperson (who is signer 0)
   let signers: SignerWithAddress[];
 
-  const proposal1 = "name 1";
-  const proposal2 = "name 2";
-  const proposal3 = "name 3";
-  const proposal1Format = ethers.utils.formatBytes32String(proposal1);
-  const proposal2Format = ethers.utils.formatBytes32String(proposal2);
-  const proposal3Format = ethers.utils.formatBytes32String(proposal3);
-  const proposalNames = [proposal1Format, proposal2Format, proposal3Format];
+  const [proposal1Format] = fixtureParams.proposalNames.map((name) =>
+    ethers.utils.formatBytes32String(name)
+  );
 
   let getBallotContract = async (signer: SignerWithAddress) =>
-    (await ethers.getContractAt("Ballot", ballot.address, signer)) as Ballot;
-
-  before(async () => {
-    signers = await ethers.getSigners();
-  });
+    ballot.connect(signer);
 
   beforeEach(async () => {
-    const ballotFactory = await ethers.getContractFactory("Ballot", signers[0]);
-    ballot = (await ballotFactory.deploy(proposalNames)) as Ballot;
-    await ballot.deployed();
+    ({
+      ballot,
+      signers: { all: signers },
+    } = fixture());
 
     const chairperson = await ballot.chairperson();
     expect(chairperson).to.eq(signers[0].address);
@@ -60,9 +76,9 @@ describe("Ballot", () => {
         // give right to vote for signer 1
         await ballotContract.giveRightToVote(signers[1].address);
       };
-      await expect(testFunc()).to.be.rejectedWith(
-        "Only chairperson can give right to vote."
-      );
+      await expect(testFunc()).to.be.revertedWithError("Error", [
+        "Only chairperson can give right to vote.",
+      ]);
     });
 
     it("cannot regive right to the same person", async () => {
@@ -87,7 +103,9 @@ describe("Ballot", () => {
 
         await ballot.giveRightToVote(signers[1].address);
       };
-      await expect(testFunc()).to.be.rejectedWith("The voter already voted.");
+      await expect(testFunc()).to.be.revertedWithError("Error", [
+        "The voter already voted.",
+      ]);
     });
   });
 
@@ -125,7 +143,9 @@ describe("Ballot", () => {
 
           await ballotContract.vote(1);
         };
-        await expect(testFunc()).to.be.rejectedWith("Already voted.");
+        await expect(testFunc()).to.be.revertedWithError("Error", [
+          "Already voted.",
+        ]);
       });
 
       it("cannot vote if have no right", async () => {
@@ -138,7 +158,16 @@ describe("Ballot", () => {
 
           await ballotContract.vote(0);
         };
-        await expect(testFunc()).to.be.rejectedWith("Has no right to vote");
+        await expect(testFunc()).to.be.revertedWithError("Error", [
+          "Has no right to vote",
+        ]);
+      });
+
+      it("cannot vote for an unknown proposal", async () => {
+        const ballotContract = await getBallotContract(signers[1]);
+        await expect(ballotContract.vote(99)).to.be.revertedWithError("Panic", [
+          0x32,
+        ]);
       });
     });
 
@@ -162,9 +191,9 @@ describe("Ballot", () => {
 
           await ballotContract.delegate(signers[1].address);
         };
-        await expect(testFunc()).to.be.rejectedWith(
-          "Self-delegation is disallowed."
-        );
+        await expect(testFunc()).to.be.revertedWithError("Error", [
+          "Self-delegation is disallowed.",
+        ]);
       });
 
       it("voted person cannot delegate", async () => {
@@ -177,21 +206,577 @@ describe("Ballot", () => {
 
           await ballotContract.delegate(signers[2].address);
         };
-        await expect(testFunc()).to.be.rejectedWith("You already voted.");
+        await expect(testFunc()).to.be.revertedWithError("Error", [
+          "You already voted.",
+        ]);
       });
     });
 
     describe("winner", async () => {
       it("should get winner", async () => {
-        await Promise.all(
-          [1, 2, 3].map(async (i) => {
-            const ballotContract = await getBallotContract(signers[i]);
-            ballotContract.vote(0);
-          })
-        );
+        for (const i of [1, 2, 3]) {
+          const ballotContract = await getBallotContract(signers[i]);
+          await (await ballotContract.vote(i === 3 ? 1 : 0)).wait();
+        }
         const winner = await ballot.winnerName();
         expect(winner).to.equal(proposal1Format);
       });
+
+      it("should report every proposal tied for the top", async () => {
+        for (const [i, proposal] of [
+          [1, 2],
+          [2, 0],
+          [3, 1],
+          [4, 2],
+          [5, 0],
+        ]) {
+          const ballotContract = await getBallotContract(signers[i]);
+          await (await ballotContract.vote(proposal)).wait();
+        }
+
+        const [winners, winningVoteCount] = await ballot.winningProposals();
+        expect(winners.map((index) => index.toNumber())).to.deep.eq([0, 2]);
+        expect(winningVoteCount).to.eq(2);
+        // the single winner is the lowest index of the tie
+        expect(await ballot.winnerName()).to.equal(proposal1Format);
+      });
+
+      it("should tie every proposal before the first vote", async () => {
+        const [winners, winningVoteCount] = await ballot.winningProposals();
+        expect(winners.map((index) => index.toNumber())).to.deep.eq([0, 1, 2]);
+        expect(winningVoteCount).to.eq(0);
+      });
+    });
+
+    describe("events", async () => {
+      it("should emit RightGiven", async () => {
+        await expect(ballot.giveRightToVote(signers[6].address))
+          .to.emit(ballot, "RightGiven")
+          .withArgs(signers[6].address);
+      });
+
+      it("should emit Delegated with the end of the delegation chain", async () => {
+        const ballotContract = await getBallotContract(signers[1]);
+        await (await ballotContract.delegate(signers[2].address)).wait();
+
+        await expect(
+          (await getBallotContract(signers[3])).delegate(signers[1].address)
+        )
+          .to.emit(ballot, "Delegated")
+          .withArgs(signers[3].address, signers[2].address, 1);
+      });
+
+      it("should emit Voted with the weight of the voter", async () => {
+        const ballotContract = await getBallotContract(signers[1]);
+        await (await ballotContract.delegate(signers[2].address)).wait();
+
+        await expect((await getBallotContract(signers[2])).vote(1))
+          .to.emit(ballot, "Voted")
+          .withArgs(signers[2].address, 1, 2);
+      });
+    });
+  });
+
+  describe("quorum", async () => {
+    let quorumBallot: Ballot;
+
+    beforeEach(async () => {
+      quorumBallot = await deployBallot(
+        fixtureParams.proposalNames,
+        signers[0],
+        0,
+        3
+      );
+      for (const i of [1, 2, 3]) {
+        await (await quorumBallot.giveRightToVote(signers[i].address)).wait();
+      }
+    });
+
+    it("should not be reached with fewer votes", async () => {
+      await (await quorumBallot.connect(signers[1]).vote(0)).wait();
+      await (await quorumBallot.connect(signers[2]).vote(0)).wait();
+
+      expect(await quorumBallot.quorum()).to.eq(3);
+      expect(await quorumBallot.totalVotes()).to.eq(2);
+      expect(await quorumBallot.quorumReached()).to.eq(false);
+    });
+
+    it("should count votes delegated to a voter who already voted", async () => {
+      await (await quorumBallot.connect(signers[1]).vote(0)).wait();
+      await (await quorumBallot.connect(signers[2]).vote(1)).wait();
+      await (
+        await quorumBallot.connect(signers[3]).delegate(signers[1].address)
+      ).wait();
+
+      expect(await quorumBallot.totalVotes()).to.eq(3);
+      expect(await quorumBallot.quorumReached()).to.eq(true);
+    });
+
+    it("should be reached without quorum", async () => {
+      expect(await ballot.quorum()).to.eq(0);
+      expect(await ballot.quorumReached()).to.eq(true);
+    });
+  });
+
+  describe("deadline", async () => {
+    let timedBallot: Ballot;
+
+    beforeEach(async () => {
+      timedBallot = await deployBallot(
+        fixtureParams.proposalNames,
+        signers[0],
+        fixtureParams.ballotVotingTime
+      );
+      await (await timedBallot.giveRightToVote(signers[1].address)).wait();
+      await (await timedBallot.giveRightToVote(signers[2].address)).wait();
+    });
+
+    it("should have no deadline by default", async () => {
+      expect(await ballot.votingEndTime()).to.eq(0);
+      expect(await ballot.votingEnded()).to.eq(false);
+    });
+
+    it("should accept votes before the deadline", async () => {
+      await (await timedBallot.connect(signers[1]).vote(1)).wait();
+
+      expect(await timedBallot.votingEnded()).to.eq(false);
+      expect(await timedBallot.totalVotes()).to.eq(1);
+    });
+
+    it("should refuse votes, delegations and rights after the deadline", async () => {
+      // calls run at the latest block, one second after the deadline
+      await advanceTo((await timedBallot.votingEndTime()).add(1));
+
+      expect(await timedBallot.votingEnded()).to.eq(true);
+      await expect(
+        timedBallot.connect(signers[1]).vote(1)
+      ).to.be.revertedWithError("Error", ["Voting has ended."]);
+      await expect(
+        timedBallot.connect(signers[1]).delegate(signers[2].address)
+      ).to.be.revertedWithError("Error", ["Voting has ended."]);
+      await expect(
+        timedBallot.giveRightToVote(signers[3].address)
+      ).to.be.revertedWithError("Error", ["Voting has ended."]);
+      expect(await timedBallot.totalVotes()).to.eq(0);
+    });
+  });
+
+  describe("tasks", async () => {
+    let output: CapturedConsoleInterface;
+    let dir: string;
+
+    const writeFile = (name: string, content: string) => {
+      const filePath = path.join(dir, name);
+      fs.writeFileSync(filePath, content);
+      return filePath;
+    };
+
+    const enroll = (
+      votersFile: string,
+      taskArgs: Record<string, unknown> = {}
+    ) =>
+      run("ballot:enroll", {
+        votersFile,
+        address: ballot.address,
+        ...taskArgs,
+      });
+
+    const getWeights = async (voters: SignerWithAddress[]) =>
+      Promise.all(
+        voters.map(async ({ address }) =>
+          (await ballot.voters(address)).weight.toNumber()
+        )
+      );
+
+    // ballots of the enroll task refuse to send a right `failures[voter]` times
+    const failSends = (failures: Record<string, number>) => {
+      const { getContractAt } = ethers;
+      ethers.getContractAt = (async (
+        ...args: Parameters<typeof getContractAt>
+      ) => {
+        const contract = (await getContractAt(...args)) as Ballot;
+        return Object.create(contract, {
+          giveRightToVote: {
+            value: async (voter: string, overrides: object) => {
+              if ((failures[voter] ?? 0) > 0) {
+                failures[voter]--;
+                throw new Error("replacement transaction underpriced");
+              }
+              return contract.giveRightToVote(voter, overrides);
+            },
+          },
+        });
+      }) as typeof getContractAt;
+      return () => {
+        ethers.getContractAt = getContractAt;
+      };
+    };
+
+    beforeEach(() => {
+      dir = fs.mkdtempSync(path.join(os.tmpdir(), "ballot-task-"));
+      output = captureConsole();
+    });
+
+    afterEach(() => {
+      output.restore();
+    });
+
+    it("should deploy a ballot from a proposals file", async () => {
+      const proposalsFile = writeFile("proposals.txt", "Alice\n\nBob\r\n");
+
+      await run("ballot:deploy", { proposalsFile, votingTime: 600, quorum: 2 });
+
+      const deployed = (await ethers.getContractAt(
+        "Ballot",
+        loadDeploymentRecord("Ballot")?.address as string
+      )) as Ballot;
+      expect((await deployed.proposals(1)).name).to.eq(
+        ethers.utils.formatBytes32String("Bob")
+      );
+      await expect(deployed.proposals(2)).to.be.rejected;
+      expect(await deployed.quorum()).to.eq(2);
+      expect(await deployed.votingEndTime()).not.to.eq(0);
+    });
+
+    it("should refuse invalid proposals files", async () => {
+      const deploy = (proposalsFile: string) =>
+        run("ballot:deploy", { proposalsFile });
+      const emptyFile = writeFile("empty.txt", "\n");
+
+      await expect(deploy(emptyFile)).to.be.rejectedWith(
+        `No proposal in ${emptyFile}`
+      );
+      await expect(
+        deploy(writeFile("long.txt", "A\n".padEnd(40, "B")))
+      ).to.be.rejectedWith("Proposal names must be 1 to 31 bytes long");
+      await expect(
+        deploy(writeFile("object.json", JSON.stringify({ name: "A" })))
+      ).to.be.rejectedWith("must contain an array of proposal names");
+    });
+
+    it("should enroll voters and resume from the progress log", async () => {
+      const voters = signers.slice(1, 5);
+      // signer 4 already has the right
+      await (await ballot.giveRightToVote(voters[3].address)).wait();
+      const csv = (count: number) =>
+        ["address,name"]
+          .concat(voters.slice(0, count).map(({ address }) => `${address},x`))
+          .concat(`${voters[0].address.toLowerCase()},duplicate`)
+          .join("\n");
+      const votersFile = writeFile("voters.csv", csv(2));
+
+      await enroll(votersFile, { batchSize: 1 });
+      expect(output.logs[0]).to.eq("2 voters, 0 already done, 2 to enroll");
+      expect(output.logs).to.include("Progress: 2/2");
+      expect(await getWeights(voters)).to.deep.eq([1, 1, 0, 1]);
+
+      fs.writeFileSync(votersFile, csv(4));
+      await enroll(votersFile);
+      expect(output.logs).to.include("4 voters, 2 already done, 2 to enroll");
+      expect(output.logs.slice(-1)[0]).to.eq(
+        `All voters enrolled, progress log: ${votersFile}.progress.jsonl`
+      );
+      expect(await getWeights(voters)).to.deep.eq([1, 1, 1, 1]);
+      const statuses = fs
+        .readFileSync(`${votersFile}.progress.jsonl`, "utf8")
+        .trim()
+        .split("\n")
+        .map((line) => JSON.parse(line).status);
+      // signer 4 is skipped before the right of signer 3 is mined
+      expect(statuses).to.deep.eq([
+        "enrolled",
+        "enrolled",
+        "skipped",
+        "enrolled",
+      ]);
+    });
+
+    it("should retry only the voter whose right was not sent", async () => {
+      const voters = signers.slice(1, 4);
+      const votersFile = writeFile(
+        "voters.json",
+        JSON.stringify(voters.map(({ address }) => address))
+      );
+
+      // the voters after the failing one are not tried and keep their attempts
+      const restore = failSends({ [voters[1].address]: 1 });
+      try {
+        await expect(enroll(votersFile, { retries: 0 })).to.be.rejectedWith(
+          `1 voters failed, rerun to resume: ${voters[1].address}`
+        );
+        expect(await getWeights(voters)).to.deep.eq([1, 0, 1]);
+      } finally {
+        restore();
+      }
+
+      await enroll(votersFile, { retries: 0 });
+      expect(output.logs).to.include("3 voters, 2 already done, 1 to enroll");
+      expect(await getWeights(voters)).to.deep.eq([1, 1, 1]);
+    });
+
+    it("should refuse to enroll without the chairperson or after the deadline", async () => {
+      const votersFile = writeFile("voters.csv", signers[1].address);
+
+      await expect(enroll(votersFile, { signer: 1 })).to.be.rejectedWith(
+        `${signers[1].address} is not the chairperson of ${ballot.address}`
+      );
+      await expect(
+        enroll(writeFile("invalid.json", JSON.stringify(["0x1234"])))
+      ).to.be.rejectedWith("Invalid voter addresses: 0x1234");
+
+      const timedBallot = await deployBallot(
+        fixtureParams.proposalNames,
+        signers[0],
+        fixtureParams.ballotVotingTime
+      );
+      await advanceTo((await timedBallot.votingEndTime()).add(1));
+      await expect(
+        enroll(votersFile, { address: timedBallot.address })
+      ).to.be.rejectedWith(`Voting has ended on ${timedBallot.address}`);
+    });
+
+    it("should tally the winner, ties and the quorum", async () => {
+      const tally = async (address = ballot.address) => {
+        await run("ballot:tally", { address });
+        return output.logs.slice(-1)[0];
+      };
+      expect(await tally()).to.eq("No winner, nobody voted");
+
+      for (const [index, proposal] of [
+        [1, 0],
+        [2, 1],
+      ]) {
+        await (await ballot.giveRightToVote(signers[index].address)).wait();
+        await (await ballot.connect(signers[index]).vote(proposal)).wait();
+      }
+      expect(await tally()).to.eq("Tie with 1 votes: name 1, name 2");
+      expect(output.logs).to.include.members([
+        `### Ballot ${ballot.address} ###`,
+        "Deadline: none",
+        "Votes: 2 (quorum 0)",
+      ]);
+      expect(output.tables.slice(-1)[0]).to.deep.eq([
+        { index: 0, name: "name 1", voteCount: "1" },
+        { index: 1, name: "name 2", voteCount: "1" },
+        { index: 2, name: "name 3", voteCount: "0" },
+      ]);
+
+      await (await ballot.giveRightToVote(signers[3].address)).wait();
+      await (await ballot.connect(signers[3]).vote(1)).wait();
+      expect(await tally()).to.eq("Winner: name 2");
+
+      const quorumBallot = await deployBallot(
+        fixtureParams.proposalNames,
+        signers[0],
+        0,
+        3
+      );
+      expect(await tally(quorumBallot.address)).to.eq(
+        "No winner, the quorum is not reached"
+      );
+    });
+  });
+
+  describe("event indexer", async () => {
+    const targets = () => [
+      { contractName: "Ballot", address: ballot.address, fromBlock: 0 },
+    ];
+
+    // signer 2 delegates to a voter who voted, signer 3 to one who did not
+    const vote = async () => {
+      const [, voter1, voter2, voter3, voter4] = signers;
+      for (const voter of [voter1, voter2, voter3, voter4]) {
+        await (await ballot.giveRightToVote(voter.address)).wait();
+      }
+      await (await ballot.connect(voter1).vote(1)).wait();
+      await (await ballot.connect(voter2).delegate(voter1.address)).wait();
+      await (await ballot.connect(voter3).delegate(voter4.address)).wait();
+      await (await ballot.connect(voter4).vote(0)).wait();
+    };
+
+    it("should index rights, delegations and votes", async () => {
+      const store = createMemoryStore();
+      await vote();
+      const { events } = await syncEvents(ethers.provider, store, targets());
+
+      expect(events.map(({ event }) => event)).to.deep.eq([
+        "RightGiven",
+        "RightGiven",
+        "RightGiven",
+        "RightGiven",
+        "Voted",
+        "Delegated",
+        "Delegated",
+        "Voted",
+      ]);
+      expect(events[5].args).to.deep.eq({
+        voter: signers[2].address,
+        to: signers[1].address,
+        weight: "1",
+      });
+
+      const tally = getVoteTally(store.load(), ballot.address);
+      expect(tally.voters).to.deep.eq(
+        signers.slice(1, 5).map(({ address }) => address)
+      );
+      expect(tally.totalVotes).to.eq((await ballot.totalVotes()).toString());
+      for (const proposal of [0, 1]) {
+        expect(tally.voteCounts[proposal]).to.eq(
+          (await ballot.proposals(proposal)).voteCount.toString()
+        );
+      }
+      expect(tally.voteCounts).to.deep.eq({ 0: "2", 1: "2" });
+    });
+
+    it("should print the vote counts", async () => {
+      const storePath = path.join(
+        fs.mkdtempSync(path.join(os.tmpdir(), "indexer-")),
+        "store.json"
+      );
+      await vote();
+      await syncEvents(ethers.provider, createJsonStore(storePath), targets());
+
+      const output = captureConsole();
+      try {
+        await run("indexer:votes", {
+          address: ballot.address,
+          store: storePath,
+        });
+      } finally {
+        output.restore();
+      }
+      expect(output.tables).to.deep.eq([
+        [
+          { proposal: "0", voteCount: "2" },
+          { proposal: "1", voteCount: "2" },
+        ],
+      ]);
+      expect(output.logs).to.deep.eq(["4 votes, 4 voters"]);
+    });
+  });
+
+  describe("invariants", async () => {
+    type BallotModel = Record<string, never>;
+    interface BallotRealInterface {
+      ballot: Ballot;
+      voters: SignerWithAddress[]; // voters[0] is the chairperson
+    }
+
+    const proposalCount = fixtureParams.proposalNames.length;
+    const voterIndex = fc.integer({ min: 0, max: 4 });
+
+    const giveRightCommand = fc
+      .record({ sender: voterIndex, voter: voterIndex })
+      .map(({ sender, voter }) =>
+        chainCommand<BallotModel, BallotRealInterface>(
+          `giveRightToVote(sender ${sender}, voter ${voter})`,
+          async (_, { ballot, voters }) => {
+            const { voted, weight } = await ballot.voters(
+              voters[voter].address
+            );
+
+            await expectOutcome(
+              () =>
+                ballot
+                  .connect(voters[sender])
+                  .giveRightToVote(voters[voter].address),
+              sender !== 0 || voted
+                ? "Error"
+                : // require without reason
+                  !weight.isZero() || undefined
+            );
+          }
+        )
+      );
+
+    // one past the last proposal, to check out of range votes
+    const voteCommand = fc
+      .record({
+        voter: voterIndex,
+        proposal: fc.integer({ min: 0, max: proposalCount }),
+      })
+      .map(({ voter, proposal }) =>
+        chainCommand<BallotModel, BallotRealInterface>(
+          `vote(voter ${voter}, proposal ${proposal})`,
+          async (_, { ballot, voters }) => {
+            const { voted, weight } = await ballot.voters(
+              voters[voter].address
+            );
+
+            await expectOutcome(
+              () => ballot.connect(voters[voter]).vote(proposal),
+              weight.isZero() || voted
+                ? "Error"
+                : proposal >= proposalCount
+                ? "Panic"
+                : undefined
+            );
+          }
+        )
+      );
+
+    const delegateCommand = fc
+      .record({ voter: voterIndex, to: voterIndex })
+      .map(({ voter, to }) =>
+        chainCommand<BallotModel, BallotRealInterface>(
+          `delegate(voter ${voter}, to ${to})`,
+          async (_, { ballot, voters }) => {
+            const sender = voters[voter].address;
+            let delegate = voters[to].address;
+            let reverts = (await ballot.voters(sender)).voted || voter === to;
+            // follow the delegation chain as the contract does
+            while (!reverts) {
+              const next = (await ballot.voters(delegate)).delegate;
+              if (next === nullAddress) {
+                reverts = (await ballot.voters(delegate)).weight.isZero();
+                break;
+              }
+              delegate = next;
+              reverts = delegate === sender;
+            }
+
+            await expectOutcome(
+              () => ballot.connect(voters[voter]).delegate(voters[to].address),
+              reverts || undefined
+            );
+          }
+        )
+      );
+
+    it("votes should not exceed the weight of voters who voted", async () => {
+      await fc.assert(
+        chainProperty(
+          [giveRightCommand, voteCommand, delegateCommand],
+          async () => ({
+            model: {} as BallotModel,
+            real: { ballot, voters: signers.slice(0, 5) },
+          }),
+          async (_, { ballot, voters }) => {
+            const proposals = await Promise.all(
+              Array.from({ length: proposalCount }, (_, index) =>
+                ballot.proposals(index)
+              )
+            );
+            const states = await Promise.all(
+              voters.map(({ address }) => ballot.voters(address))
+            );
+
+            const votes = proposals.reduce(
+              (sum, { voteCount }) => sum.add(voteCount),
+              ethers.constants.Zero
+            );
+            const votedWeight = states
+              .filter(({ voted }) => voted)
+              .reduce(
+                (sum, { weight }) => sum.add(weight),
+                ethers.constants.Zero
+              );
+            expect(votes).to.be.lte(votedWeight);
+            expect(await ballot.totalVotes()).to.eq(votes);
+          }
+        ),
+        propertyParams
+      );
     });
   });
 });
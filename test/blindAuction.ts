@@ -1,76 +1,55 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
 import { ethers } from 'hardhat';
 import chai from 'chai';
 import chaiAsPromised from 'chai-as-promised';
 import { solidity } from 'ethereum-waffle';
 import { BlindAuction } from '../typechain/BlindAuction';
 import { SignerWithAddress } from '@nomiclabs/hardhat-ethers/signers';
-import { sleep } from '../helpers/timer';
+import { advanceTo, increaseTime } from '../helpers/time';
+import { useFixture } from '../helpers/fixtures';
+import { revertMatcher } from '../helpers/revertMatcher';
+import {
+	BlindBidInterface,
+	RevealArgsInterface,
+	computeBlindedBid,
+	createBlindBid,
+	getBlindedBids,
+	getRevealArgs,
+	placeBlindBid,
+	readBidBook,
+} from '../helpers/blindBid';
 
 chai.use(solidity);
 chai.use(chaiAsPromised);
+chai.use(revertMatcher);
 const { expect } = chai;
 
-interface BlinedBidDataInterface {
-	value: number;
-	fake: boolean;
-	secret: string;
-}
-
-interface RevealDataInterface {
-	value: number[];
-	fake: boolean[];
-	secret: string[];
-}
-
 describe('Blind Auction', () => {
+	const fixture = useFixture();
 	let auction: BlindAuction;
 	let signers: SignerWithAddress[];
 	let beneficiaryAddress: string;
 
-	const deployAuction = async (
-		biddingTime: number,
-		revealTime: number,
-		beneficiaryAddress: string
-	) => {
-		const auctionFactory = await ethers.getContractFactory(
-			'BlindAuction',
-			signers[0]
-		);
-		auction = (await auctionFactory.deploy(
-			biddingTime,
-			revealTime,
-			beneficiaryAddress
-		)) as BlindAuction;
-		await auction.deployed();
-	};
-
 	const getAuctionContract = async (signer: SignerWithAddress) =>
-		(await ethers.getContractAt(
-			'BlindAuction',
-			auction.address,
-			signer
-		)) as BlindAuction;
+		auction.connect(signer);
 
 	const formatBytes32String = (str: string) =>
 		ethers.utils.formatBytes32String(str);
 
 	const bid = async (
 		auctionContract: BlindAuction,
-		{ value, fake, secret }: BlinedBidDataInterface
+		blindBid: BlindBidInterface
 	) => {
-		const encoded = ethers.utils.solidityKeccak256(
-			['uint256', 'bool', 'bytes32'],
-			[value, fake, formatBytes32String(secret)]
-		);
-
-		await auctionContract.bid(encoded, {
-			value,
+		await auctionContract.bid(computeBlindedBid(blindBid), {
+			value: blindBid.value,
 		});
 	};
 
 	const bidAction = async (
 		signer: SignerWithAddress,
-		{ value, fake, secret }: BlinedBidDataInterface
+		{ value, fake, secret }: BlindBidInterface
 	) => {
 		const auctionContract = await getAuctionContract(signer);
 		await bid(auctionContract, { value, fake, secret });
@@ -78,23 +57,21 @@ describe('Blind Auction', () => {
 
 	const revealAction = async (
 		signer: SignerWithAddress,
-		{ value, fake, secret }: RevealDataInterface
+		{ values, fakes, secrets }: RevealArgsInterface
 	) => {
 		const auctionContract = await getAuctionContract(signer);
-		await auctionContract.reveal(value, fake, secret);
+		await auctionContract.reveal(values, fakes, secrets);
 	};
 
-	before(async () => {
-		signers = await ethers.getSigners();
-		beneficiaryAddress = signers[10].address;
+	beforeEach(async () => {
+		const { blindAuction, signers: namedSigners } = fixture();
+		auction = blindAuction;
+		signers = namedSigners.all;
+		beneficiaryAddress = namedSigners.beneficiary.address;
 	});
 
 	describe('bidding time test', async () => {
-		const biddingTime = 600;
-		const revealTime = 600;
 		beforeEach(async () => {
-			await deployAuction(biddingTime, revealTime, beneficiaryAddress);
-
 			expect(auction.address).to.properAddress;
 			expect(await auction.beneficiary()).to.eq(beneficiaryAddress);
 		});
@@ -103,7 +80,7 @@ describe('Blind Auction', () => {
 			await bidAction(signers[1], {
 				value: 5,
 				fake: false,
-				secret: 'signer 1',
+				secret: formatBytes32String('signer 1'),
 			});
 			expect((await auction.bids(signers[1].address, 0)).deposit).to.eq(5);
 		});
@@ -112,7 +89,7 @@ describe('Blind Auction', () => {
 			await bidAction(signers[1], {
 				value: 5,
 				fake: false,
-				secret: 'signer 1',
+				secret: formatBytes32String('signer 1'),
 			});
 			expect((await auction.bids(signers[1].address, 0)).deposit).to.eq(5);
 
@@ -120,7 +97,7 @@ describe('Blind Auction', () => {
 			await bidAction(signers[1], {
 				value: 3,
 				fake: false,
-				secret: 'signer 1 - 2',
+				secret: formatBytes32String('signer 1 - 2'),
 			});
 			expect((await auction.bids(signers[1].address, 1)).deposit).to.eq(3);
 		});
@@ -129,7 +106,7 @@ describe('Blind Auction', () => {
 			await bidAction(signers[2], {
 				value: 10,
 				fake: false,
-				secret: 'signer 2',
+				secret: formatBytes32String('signer 2'),
 			});
 			expect((await auction.bids(signers[2].address, 0)).deposit).to.eq(10);
 		});
@@ -138,65 +115,61 @@ describe('Blind Auction', () => {
 			await bidAction(signers[1], {
 				value: 5,
 				fake: false,
-				secret: 'signer 1',
+				secret: formatBytes32String('signer 1'),
 			});
 			expect((await auction.bids(signers[1].address, 0)).deposit).to.eq(5);
 
-			await sleep(1000); // sleep 1s
+			await increaseTime(1);
 
 			await expect(
 				revealAction(signers[1], {
-					value: [5],
-					fake: [false],
-					secret: [formatBytes32String('signer 1')],
+					values: [5],
+					fakes: [false],
+					secrets: [formatBytes32String('signer 1')],
 				})
-			).to.be.rejectedWith('TooEarly');
+			).to.be.revertedWithError('TooEarly');
 		});
 	});
 
 	describe('reveal time test', async () => {
-		const biddingTime = 5;
-		const revealTime = 100;
 		beforeEach(async () => {
-			await deployAuction(biddingTime, revealTime, beneficiaryAddress);
-
 			await bidAction(signers[1], {
 				value: 5,
 				fake: false,
-				secret: 'signer 1 - 1',
+				secret: formatBytes32String('signer 1 - 1'),
 			});
 
 			await bidAction(signers[2], {
 				value: 10,
 				fake: false,
-				secret: 'signer 2 - 1',
+				secret: formatBytes32String('signer 2 - 1'),
 			});
 		});
 
 		it('cannot bid', async () => {
-			await sleep(5000);
+			await advanceTo(auction.biddingEnd());
 
 			await expect(
 				bidAction(signers[1], {
 					value: 7,
 					fake: false,
-					secret: 'signer 1 - 2',
+					secret: formatBytes32String('signer 1 - 2'),
 				})
-			).to.be.rejectedWith('TooLate');
+			).to.be.revertedWithError('TooLate');
 		});
 
 		it('should reveal', async () => {
 			await bidAction(signers[2], {
 				value: 12,
 				fake: false,
-				secret: 'signer 2 - 2',
+				secret: formatBytes32String('signer 2 - 2'),
 			});
 
-			await sleep(5000);
+			await advanceTo(auction.biddingEnd());
 			await revealAction(signers[2], {
-				value: [10, 12],
-				fake: [false, false],
-				secret: [
+				values: [10, 12],
+				fakes: [false, false],
+				secrets: [
 					formatBytes32String('signer 2 - 1'),
 					formatBytes32String('signer 2 - 2'),
 				],
@@ -209,14 +182,14 @@ describe('Blind Auction', () => {
 			await bidAction(signers[2], {
 				value: 12,
 				fake: false,
-				secret: 'signer 2 - 2',
+				secret: formatBytes32String('signer 2 - 2'),
 			});
 
-			await sleep(5000);
+			await advanceTo(auction.biddingEnd());
 			await revealAction(signers[2], {
-				value: [10, 12],
-				fake: [false, true],
-				secret: [
+				values: [10, 12],
+				fakes: [false, true],
+				secrets: [
 					formatBytes32String('signer 2 - 1'),
 					formatBytes32String('signer 2 - 2'),
 				],
@@ -226,40 +199,176 @@ describe('Blind Auction', () => {
 		});
 
 		it('cannot end auction before endtime', async () => {
-			await sleep(5000);
-			await expect(auction.auctionEnd()).to.be.rejectedWith('TooEarly');
+			await advanceTo(auction.biddingEnd());
+			await expect(auction.auctionEnd()).to.be.revertedWithError('TooEarly');
+		});
+
+		describe('bid book', async () => {
+			const password = 'bid book password';
+			let bookPath: string;
+
+			beforeEach(async () => {
+				bookPath = path.join(
+					fs.mkdtempSync(path.join(os.tmpdir(), 'bid-book-')),
+					'bids.json'
+				);
+			});
+
+			it('should reveal from bid book', async () => {
+				const auctionContract = await getAuctionContract(signers[3]);
+				await placeBlindBid(auctionContract, createBlindBid(8), {
+					deposit: 10,
+					bookPath,
+					password,
+				});
+				await placeBlindBid(auctionContract, createBlindBid(20, true), {
+					deposit: 20,
+					bookPath,
+					password,
+				});
+
+				await advanceTo(auction.biddingEnd());
+				const book = readBidBook(bookPath, password);
+				const { values, fakes, secrets, missing } = await getRevealArgs(
+					auctionContract,
+					book
+				);
+				expect(missing).to.be.empty;
+
+				await expect(() =>
+					auctionContract.reveal(values, fakes, secrets)
+				).to.changeEtherBalance(signers[3], 22);
+				expect(await auction.highestBid()).to.eq(8);
+				expect(await auction.highestBidder()).to.eq(signers[3].address);
+			});
+
+			it('should not reveal a partial list when reading fails', async () => {
+				const auctionContract = await getAuctionContract(signers[3]);
+				for (const value of [8, 9]) {
+					await placeBlindBid(auctionContract, createBlindBid(value), {
+						deposit: 10,
+						bookPath,
+						password,
+					});
+				}
+				expect(
+					await getBlindedBids(auctionContract, signers[3].address)
+				).to.have.length(2);
+
+				// the node times out after the first commitment
+				const flakyAuction = {
+					bids: async (bidder: string, index: number) => {
+						if (index > 0) {
+							throw new Error('request timed out');
+						}
+						return auctionContract.bids(bidder, index);
+					},
+				} as unknown as BlindAuction;
+				await expect(
+					getBlindedBids(flakyAuction, signers[3].address)
+				).to.be.rejectedWith('request timed out');
+			});
+
+			it('should drop the entry of a bid not sent', async () => {
+				const auctionContract = await getAuctionContract(signers[3]);
+				await placeBlindBid(auctionContract, createBlindBid(8), {
+					deposit: 10,
+					bookPath,
+					password,
+				});
+				await advanceTo(auction.biddingEnd());
+
+				await expect(
+					placeBlindBid(auctionContract, createBlindBid(9), {
+						deposit: 10,
+						bookPath,
+						password,
+					})
+				).to.be.revertedWithError('TooLate');
+				const { bids } = readBidBook(bookPath, password);
+				expect(bids).to.have.length(1);
+				expect(bids[0].value).to.eq('8');
+				expect(bids[0].status).to.eq('sent');
+				expect(bids[0].transactionHash).to.be.a('string');
+			});
+
+			it('should keep the entry of a bid failing after the broadcast', async () => {
+				const auctionContract = await getAuctionContract(signers[3]);
+				// the provider times out once the transaction is broadcast
+				const timingOutAuction = {
+					address: auctionContract.address,
+					signer: auctionContract.signer,
+					estimateGas: auctionContract.estimateGas,
+					bid: async (...args: Parameters<BlindAuction['bid']>) => {
+						await auctionContract.bid(...args);
+						throw new Error('request timed out');
+					},
+				} as unknown as BlindAuction;
+
+				await expect(
+					placeBlindBid(timingOutAuction, createBlindBid(8), {
+						deposit: 10,
+						bookPath,
+						password,
+					})
+				).to.be.rejectedWith('request timed out');
+				const book = readBidBook(bookPath, password);
+				expect(book.bids).to.have.length(1);
+				expect(book.bids[0].status).to.eq('unconfirmed');
+				expect(book.bids[0].transactionHash).to.eq(undefined);
+
+				// the mined bid is revealed from the unconfirmed entry
+				await advanceTo(auction.biddingEnd());
+				const { values, fakes, secrets, missing } = await getRevealArgs(
+					auctionContract,
+					book
+				);
+				expect(missing).to.be.empty;
+				await expect(() =>
+					auctionContract.reveal(values, fakes, secrets)
+				).to.changeEtherBalance(signers[3], 2);
+				expect(await auction.highestBidder()).to.eq(signers[3].address);
+			});
+
+			it('cannot read bid book with wrong password', async () => {
+				const auctionContract = await getAuctionContract(signers[3]);
+				await placeBlindBid(auctionContract, createBlindBid(8), {
+					deposit: 10,
+					bookPath,
+					password,
+				});
+
+				expect(() => readBidBook(bookPath, 'wrong password')).to.throw(
+					'wrong password'
+				);
+			});
 		});
 	});
 
 	describe('auction endtime test', async () => {
-		const biddingTime = 2; // 2s
-		const revealTime = 1;
 		beforeEach(async () => {
-			await deployAuction(biddingTime, revealTime, beneficiaryAddress);
-
 			await bidAction(signers[1], {
 				value: 10,
 				fake: false,
-				secret: 'signer 1',
+				secret: formatBytes32String('signer 1'),
 			});
 
-			await sleep(3000); // sleep 3s
+			await advanceTo(auction.revealEnd());
 			await auction.auctionEnd();
 		});
 
 		it('should end auction', async () => {
-			await sleep(3000);
 			expect(await auction.ended()).to.true;
 		});
 
 		it('cannot reveal after auction endtime', async () => {
 			await expect(
 				revealAction(signers[1], {
-					value: [10],
-					fake: [false],
-					secret: [formatBytes32String('signer 1')],
+					values: [10],
+					fakes: [false],
+					secrets: [formatBytes32String('signer 1')],
 				})
-			).to.be.rejectedWith('TooLate');
+			).to.be.revertedWithError('TooLate');
 		});
 	});
 });
@@ -1,24 +1,17 @@
-import { ethers } from 'hardhat';
 import chai from 'chai';
 import { solidity } from 'ethereum-waffle';
 import { Counter } from '../typechain/Counter';
-import { BigNumber } from 'ethers';
+import { useFixture } from '../helpers/fixtures';
 
 chai.use(solidity);
 const { expect } = chai;
 
 describe('Counter', () => {
+	const fixture = useFixture();
 	let counter: Counter;
 
 	beforeEach(async () => {
-		const signers = await ethers.getSigners();
-		const counterFactory = await ethers.getContractFactory(
-			'Counter',
-			signers[0]
-		);
-
-		counter = (await counterFactory.deploy()) as Counter;
-		await counter.deployed();
+		({ counter } = fixture());
 
 		const initialCount = await counter.getCount();
 
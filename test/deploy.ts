@@ -0,0 +1,493 @@
+import fs from 'fs';
+import { artifacts, ethers, network, run } from 'hardhat';
+import chai, { expect } from 'chai';
+import chaiAsPromised from 'chai-as-promised';
+import {
+	CapturedConsoleInterface,
+	captureConsole,
+	parseJsonLogs,
+} from '../helpers/console';
+import { Ballot } from '../typechain/Ballot';
+import { Counter } from '../typechain/Counter';
+import { Purchase } from '../typechain/Purchase';
+import { TokenPurchase } from '../typechain/TokenPurchase';
+import { deployERC20Mock } from '../helpers/fixtures';
+import {
+	getDeployedContract,
+	getDeploymentRecordPath,
+	loadDeploymentRecord,
+} from '../scripts/deploy/helpers/deploy.record';
+import { deployLogger } from '../scripts/deploy/helpers/deploy.logger';
+import {
+	predictAddress,
+	toSalt,
+} from '../scripts/deploy/helpers/deploy.create2';
+import {
+	runDeployPipeline,
+	sortDeploySteps,
+} from '../scripts/deploy/helpers/deploy.pipeline';
+
+chai.use(chaiAsPromised);
+
+describe('Deploy task', () => {
+	// records written by these tests, removed before each one
+	const contractNames = [
+		'Counter',
+		'Ballot',
+		'SimpleAuction',
+		'TokenSimpleAuction',
+		'TokenBlindAuction',
+		'TokenPurchase',
+	];
+	let output: CapturedConsoleInterface;
+
+	beforeEach(() => {
+		contractNames.forEach((contractName) =>
+			fs.rmSync(getDeploymentRecordPath(contractName), { force: true })
+		);
+		output = captureConsole();
+	});
+
+	afterEach(() => {
+		output.restore();
+	});
+
+	describe('contracts', () => {
+		it('should deploy the selected contracts with their arguments', async () => {
+			const [deployer, beneficiary] = await ethers.getSigners();
+
+			await run('deploy', {
+				contracts: 'Counter, SimpleAuction',
+				biddingTime: 600,
+				beneficiary: beneficiary.address,
+			});
+
+			expect(output.logs[0]).to.eq(`using account ${deployer.address}`);
+			expect(loadDeploymentRecord('Counter')).not.to.eq(undefined);
+			expect(loadDeploymentRecord('Ballot')).to.eq(undefined);
+			const record = loadDeploymentRecord('SimpleAuction');
+			const auction = await ethers.getContractAt(
+				'SimpleAuction',
+				record?.address as string
+			);
+			expect(await auction.beneficiary()).to.eq(beneficiary.address);
+			const { timestamp } = await ethers.provider.getBlock(
+				record?.blockNumber as number
+			);
+			expect(await auction.auctionEndTime()).to.eq(timestamp + 600);
+		});
+
+		it('should reject unknown contracts', async () => {
+			await expect(
+				run('deploy', { contracts: 'Counter,Unknown' })
+			).to.be.rejectedWith(
+				'Unknown contracts: Unknown. Available contracts: Counter, Ballot'
+			);
+			expect(loadDeploymentRecord('Counter')).to.eq(undefined);
+		});
+
+		it('should reject invalid arguments before deploying', async () => {
+			await expect(
+				run('deploy', { contracts: 'Counter', proxy: true })
+			).to.be.rejectedWith('No upgradeable version of Counter');
+			await expect(
+				run('deploy', { contracts: 'SimpleAuction', beneficiary: '0x1234' })
+			).to.be.rejectedWith('Invalid beneficiary address: 0x1234');
+			expect(loadDeploymentRecord('Counter')).to.eq(undefined);
+			expect(loadDeploymentRecord('SimpleAuction')).to.eq(undefined);
+		});
+	});
+
+	describe('token variants', () => {
+		it('should require the token address', async () => {
+			await expect(
+				run('deploy', { contracts: 'Counter,TokenPurchase' })
+			).to.be.rejectedWith(
+				'TokenPurchase require the ERC-20 address, use --token'
+			);
+			await expect(
+				run('deploy', { contracts: 'TokenSimpleAuction', token: '0x1234' })
+			).to.be.rejectedWith('Invalid token address: 0x1234');
+			expect(loadDeploymentRecord('Counter')).to.eq(undefined);
+		});
+
+		it('should deploy the token variants and pay the purchase deposit', async () => {
+			const [deployer] = await ethers.getSigners();
+			const token = await deployERC20Mock(deployer);
+			const deposit = ethers.utils.parseEther('2');
+			await (await token.mint(deployer.address, deposit)).wait();
+
+			await run('deploy', {
+				contracts: 'TokenSimpleAuction,TokenBlindAuction,TokenPurchase',
+				token: token.address,
+				value: '1',
+			});
+
+			for (const contractName of ['TokenSimpleAuction', 'TokenBlindAuction']) {
+				const auction = await getDeployedContract(contractName);
+				expect(await auction.token()).to.eq(token.address);
+			}
+			const purchase = await getDeployedContract<TokenPurchase>(
+				'TokenPurchase'
+			);
+			expect(await purchase.state()).to.eq(0); // Created
+			expect(await token.balanceOf(purchase.address)).to.eq(deposit);
+			expect(output.logs[output.logs.length - 1]).to.match(
+				/^TokenPurchase deposit paid \(tx 0x[0-9a-f]{64}\)$/
+			);
+		});
+
+		it('should pay the deposit of an unfunded purchase on rerun', async () => {
+			const [deployer] = await ethers.getSigners();
+			const token = await deployERC20Mock(deployer);
+			const taskArgs = {
+				contracts: 'TokenPurchase',
+				token: token.address,
+				value: '1',
+				json: true,
+			};
+
+			await expect(run('deploy', taskArgs)).to.be.rejectedWith(
+				'Deposit of TokenPurchase'
+			);
+			const purchase = await getDeployedContract<TokenPurchase>(
+				'TokenPurchase'
+			);
+			expect(await purchase.state()).to.eq(5); // Unfunded
+
+			await (
+				await token.mint(deployer.address, ethers.utils.parseEther('2'))
+			).wait();
+			output.logs.length = 0;
+			await run('deploy', taskArgs);
+
+			const events = parseJsonLogs(output.logs);
+			expect(events.map(({ event }) => event)).to.deep.eq([
+				'skipped',
+				'summary',
+				'deposited',
+			]);
+			expect(events[2]).to.include({
+				contractName: 'TokenPurchase',
+				address: purchase.address,
+			});
+			expect(await purchase.state()).to.eq(0); // Created
+		});
+	});
+
+	describe('records', () => {
+		it('should record the deployment', async () => {
+			const [deployer] = await ethers.getSigners();
+
+			await run('deploy', { contracts: 'Ballot', proposals: 'A,B' });
+
+			const record = loadDeploymentRecord('Ballot');
+			const receipt = await ethers.provider.getTransactionReceipt(
+				record?.transactionHash as string
+			);
+			const { bytecode } = await ethers.getContractFactory('Ballot');
+			expect(record).to.deep.include({
+				contractName: 'Ballot',
+				network: network.name,
+				chainId: (await ethers.provider.getNetwork()).chainId,
+				address: receipt.contractAddress,
+				blockNumber: receipt.blockNumber,
+				deployer: deployer.address,
+				args: [
+					deployer.address,
+					['A', 'B'].map((name) => ethers.utils.formatBytes32String(name)),
+					0,
+					0,
+				],
+				value: '0',
+				bytecodeHash: ethers.utils.keccak256(bytecode),
+			});
+			expect(record?.abi).to.deep.eq(
+				(await artifacts.readArtifact('Ballot')).abi
+			);
+			expect(record).not.to.have.property('salt');
+			expect(record).not.to.have.property('proxy');
+		});
+
+		it('should attach the recorded contract', async () => {
+			await run('deploy', { contracts: 'Counter' });
+
+			const counter = await getDeployedContract<Counter>('Counter');
+			await (await counter.countUp()).wait();
+			expect(counter.address).to.eq(loadDeploymentRecord('Counter')?.address);
+			expect(await counter.getCount()).to.eq(1);
+		});
+
+		it('should refuse a contract without record', async () => {
+			await expect(getDeployedContract('Counter')).to.be.rejectedWith(
+				`No deployment record of Counter on network ${network.name}`
+			);
+			expect(loadDeploymentRecord('Counter', 'unknownNetwork')).to.eq(
+				undefined
+			);
+		});
+	});
+
+	describe('pipeline', () => {
+		// statuses of the last result table
+		const getStatuses = () =>
+			(output.tables[output.tables.length - 1] as Record<string, string>[]).map(
+				({ contract, status }) => `${contract}:${status}`
+			);
+
+		it('should skip up to date deployments', async () => {
+			await run('deploy', { contracts: 'Counter,SimpleAuction' });
+			const { address } = loadDeploymentRecord('Counter') ?? {};
+
+			await run('deploy', { contracts: 'Counter,SimpleAuction' });
+
+			expect(getStatuses()).to.deep.eq([
+				'Counter:skipped',
+				'SimpleAuction:skipped',
+			]);
+			expect(output.logs).to.include(
+				`Skip Counter, already deployed at ${address}`
+			);
+			expect(loadDeploymentRecord('Counter')?.address).to.eq(address);
+		});
+
+		it('should redeploy changed arguments', async () => {
+			await run('deploy', { contracts: 'Counter,SimpleAuction' });
+			const counterAddress = loadDeploymentRecord('Counter')?.address;
+			const auctionAddress = loadDeploymentRecord('SimpleAuction')?.address;
+
+			await run('deploy', {
+				contracts: 'Counter,SimpleAuction',
+				biddingTime: 60,
+			});
+
+			expect(getStatuses()).to.deep.eq([
+				'Counter:skipped',
+				'SimpleAuction:deployed',
+			]);
+			expect(loadDeploymentRecord('Counter')?.address).to.eq(counterAddress);
+			expect(loadDeploymentRecord('SimpleAuction')?.address).not.to.eq(
+				auctionAddress
+			);
+			expect(loadDeploymentRecord('SimpleAuction')?.args[0]).to.eq(60);
+		});
+
+		it('should redeploy with --force', async () => {
+			await run('deploy', { contracts: 'Counter' });
+			const { address } = loadDeploymentRecord('Counter') ?? {};
+
+			await run('deploy', { contracts: 'Counter', force: true });
+
+			expect(getStatuses()).to.deep.eq(['Counter:deployed']);
+			expect(loadDeploymentRecord('Counter')?.address).not.to.eq(address);
+		});
+
+		it('should resume from the failed step', async () => {
+			const contracts = 'Counter,Ballot,SimpleAuction';
+
+			await expect(
+				run('deploy', { contracts, proposals: 'A,'.padEnd(40, 'B') })
+			).to.be.rejectedWith(
+				'Deployment failed, rerun to resume from failed step'
+			);
+			expect(getStatuses()).to.deep.eq([
+				'Counter:deployed',
+				'Ballot:failed',
+				'SimpleAuction:pending',
+			]);
+			expect((output.tables[0] as Record<string, string>[])[1].error).to.match(
+				/^Proposal names must be 1 to 31 bytes long/
+			);
+			expect(loadDeploymentRecord('Ballot')).to.eq(undefined);
+			expect(loadDeploymentRecord('SimpleAuction')).to.eq(undefined);
+
+			await run('deploy', { contracts, proposals: 'A,B' });
+
+			expect(getStatuses()).to.deep.eq([
+				'Counter:skipped',
+				'Ballot:deployed',
+				'SimpleAuction:deployed',
+			]);
+		});
+
+		it('should deploy dependencies first', async () => {
+			const results = await runDeployPipeline(
+				[
+					{
+						contractName: 'SimpleAuction',
+						dependsOn: ['Counter'],
+						// any address will do as beneficiary
+						params: ({ Counter: counter }) => ({
+							contractName: 'SimpleAuction',
+							contractParams: [60, counter.address, 0, 0, 0, 0],
+						}),
+					},
+					{ contractName: 'Counter' },
+				],
+				{ verbose: false }
+			);
+
+			expect(results.map(({ contractName }) => contractName)).to.deep.eq([
+				'Counter',
+				'SimpleAuction',
+			]);
+			expect(loadDeploymentRecord('SimpleAuction')?.args[1]).to.eq(
+				results[0].address
+			);
+		});
+
+		it('should reject invalid dependencies', () => {
+			expect(() =>
+				sortDeploySteps([
+					{ contractName: 'Counter', dependsOn: ['Ballot'] },
+					{ contractName: 'Ballot', dependsOn: ['Counter'] },
+				])
+			).to.throw('Circular dependency at Counter');
+			expect(() =>
+				sortDeploySteps([{ contractName: 'Counter', dependsOn: ['Ballot'] }])
+			).to.throw('Counter depends on unknown step Ballot');
+			expect(() =>
+				sortDeploySteps([
+					{ contractName: 'Counter' },
+					{ contractName: 'Counter' },
+				])
+			).to.throw('Duplicated deploy step Counter');
+		});
+	});
+
+	describe('CREATE2', () => {
+		it('should deploy at the predicted address', async () => {
+			const [, beneficiary] = await ethers.getSigners();
+			const salt = 'deploy test';
+
+			await run('deploy', {
+				contracts: 'Counter,SimpleAuction',
+				beneficiary: beneficiary.address,
+				salt,
+			});
+
+			for (const contractName of ['Counter', 'SimpleAuction']) {
+				const record = loadDeploymentRecord(contractName);
+				expect(record?.salt).to.eq(toSalt(salt));
+				expect(record?.address).to.eq(
+					await predictAddress(contractName, record?.args, salt)
+				);
+				expect(
+					await ethers.provider.getCode(record?.address as string)
+				).not.to.eq('0x');
+			}
+		});
+
+		it('should make the deployer the owner, not the CREATE2 factory', async () => {
+			const [deployer] = await ethers.getSigners();
+			const salt = 'owned';
+
+			await run('deploy', { contracts: 'Ballot,Purchase', salt });
+
+			for (const contractName of ['Ballot', 'Purchase']) {
+				const record = loadDeploymentRecord(contractName);
+				expect(record?.address).to.eq(
+					await predictAddress(contractName, record?.args, salt)
+				);
+			}
+			const ballot = await getDeployedContract<Ballot>('Ballot');
+			const purchase = await getDeployedContract<Purchase>('Purchase');
+			expect(await ballot.chairperson()).to.eq(deployer.address);
+			expect(await purchase.seller()).to.eq(deployer.address);
+			expect(await ethers.provider.getBalance(purchase.address)).to.eq(
+				ethers.utils.parseEther('0.02')
+			);
+		});
+	});
+
+	describe('output', () => {
+		it('should print NDJSON events', async () => {
+			await run('deploy', { contracts: 'Counter', json: true });
+			await expect(
+				run('deploy', {
+					contracts: 'Counter,Ballot',
+					proposals: ''.padEnd(40, 'A'),
+					json: true,
+				})
+			).to.be.rejected;
+
+			const events = parseJsonLogs(output.logs);
+			const { address, transactionHash, blockNumber } =
+				loadDeploymentRecord('Counter') ?? {};
+			const receipt = await ethers.provider.getTransactionReceipt(
+				transactionHash as string
+			);
+			expect(events.map(({ event }) => event)).to.deep.eq([
+				'deployed',
+				'summary',
+				'skipped',
+				'summary',
+			]);
+			expect(events[0]).to.deep.eq({
+				event: 'deployed',
+				contractName: 'Counter',
+				address,
+				transactionHash,
+				blockNumber,
+				gasUsed: receipt.gasUsed.toString(),
+				effectiveGasPrice: receipt.effectiveGasPrice.toString(),
+				cost: ethers.utils.formatEther(
+					receipt.gasUsed.mul(receipt.effectiveGasPrice)
+				),
+			});
+			expect(events[1].results).to.deep.eq([
+				{ contractName: 'Counter', status: 'deployed', address },
+			]);
+			expect(events[2]).to.deep.eq({
+				event: 'skipped',
+				contractName: 'Counter',
+				address,
+			});
+			expect(events[3].results[1]).to.deep.include({
+				contractName: 'Ballot',
+				status: 'failed',
+			});
+			expect(events[3].results[1].error).to.match(/^Proposal names/);
+			expect(output.tables).to.have.length(0);
+		});
+
+		it('should fall back to the transaction gas price', async () => {
+			const Factory = await ethers.getContractFactory('Counter');
+			const counter = await Factory.deploy();
+			const receipt = await counter.deployTransaction.wait();
+			const { gasPrice } = counter.deployTransaction;
+			// receipt of a network without effectiveGasPrice
+			const withoutPrice = { ...receipt, effectiveGasPrice: undefined };
+			const logWith = (
+				deployTransaction: Partial<typeof counter.deployTransaction>
+			) =>
+				deployLogger(
+					{
+						instance: {
+							address: counter.address,
+							deployTransaction: {
+								...deployTransaction,
+								wait: async () => withoutPrice,
+							},
+						} as unknown as typeof counter,
+						contractName: 'Counter',
+					},
+					{ verbose: true }
+				);
+
+			const deployLog = await logWith({
+				hash: receipt.transactionHash,
+				gasPrice,
+			});
+			expect(deployLog.effectiveGasPrice).to.eq(gasPrice?.toString());
+			expect(deployLog.cost).to.eq(
+				ethers.utils.formatEther(receipt.gasUsed.mul(gasPrice ?? 0))
+			);
+
+			const withoutGasPrice = await logWith({ hash: receipt.transactionHash });
+			expect(withoutGasPrice).not.to.have.property('effectiveGasPrice');
+			expect(withoutGasPrice).not.to.have.property('cost');
+			expect(output.logs).not.to.include('Cost: undefined ETH');
+		});
+	});
+});
@@ -0,0 +1,342 @@
+import chai from 'chai';
+import chaiAsPromised from 'chai-as-promised';
+import { solidity } from 'ethereum-waffle';
+import { DutchAuction } from '../typechain/DutchAuction';
+import { SignerWithAddress } from '@nomiclabs/hardhat-ethers/signers';
+import { ethers } from 'hardhat';
+import { BigNumber } from 'ethers';
+import fc from 'fast-check';
+import { advanceTo, hasExactTimestamps, increaseTime } from '../helpers/time';
+import {
+	deployDutchAuction,
+	fixtureParams,
+	useFixture,
+} from '../helpers/fixtures';
+import { revertMatcher } from '../helpers/revertMatcher';
+import {
+	chainCommand,
+	chainProperty,
+	expectOutcome,
+	nextBlockTimestamp,
+	propertyParams,
+} from '../helpers/property';
+import {
+	DutchAuctionPriceParamsInterface,
+	getDutchAuctionPrice,
+	getDutchAuctionPriceParams,
+} from '../helpers/dutchAuction';
+
+chai.use(solidity);
+chai.use(chaiAsPromised);
+chai.use(revertMatcher);
+const { expect } = chai;
+
+describe('Dutch Auction', () => {
+	const fixture = useFixture();
+	let auction: DutchAuction;
+	let signers: SignerWithAddress[];
+	let beneficiaryAddress: string;
+
+	const startPrice = fixtureParams.dutchAuctionStartPrice;
+	const floorPrice = fixtureParams.dutchAuctionFloorPrice;
+	const duration = fixtureParams.dutchAuctionDuration;
+
+	const getAuctionContract = async (signer: SignerWithAddress) =>
+		auction.connect(signer);
+
+	const deployWithSteps = (steps: number) =>
+		deployDutchAuction(
+			startPrice,
+			floorPrice,
+			duration,
+			steps,
+			beneficiaryAddress,
+			signers[0]
+		);
+
+	beforeEach(async () => {
+		const { dutchAuction, signers: namedSigners } = fixture();
+		auction = dutchAuction;
+		signers = namedSigners.all;
+		beneficiaryAddress = namedSigners.beneficiary.address;
+	});
+
+	describe('price', async () => {
+		it('should start at the start price', async () => {
+			const startTime = await auction.startTime();
+
+			expect(await auction.beneficiary()).to.eq(beneficiaryAddress);
+			expect(await auction.priceAt(startTime)).to.eq(startPrice);
+			expect(await auction.priceAt(startTime.sub(1))).to.eq(startPrice);
+		});
+
+		it('should fall linearly to the floor', async () => {
+			const startTime = await auction.startTime();
+
+			expect(await auction.priceAt(startTime.add(duration / 2))).to.eq(
+				(startPrice + floorPrice) / 2
+			);
+			expect(await auction.priceAt(startTime.add(duration))).to.eq(floorPrice);
+			expect(await auction.priceAt(startTime.add(duration * 2))).to.eq(
+				floorPrice
+			);
+		});
+
+		it('should fall stepwise to the floor', async () => {
+			auction = await deployWithSteps(4);
+			const startTime = await auction.startTime();
+			const step = duration / 4;
+			const drop = (startPrice - floorPrice) / 4;
+
+			expect(await auction.priceAt(startTime.add(step - 1))).to.eq(startPrice);
+			expect(await auction.priceAt(startTime.add(step))).to.eq(
+				startPrice - drop
+			);
+			expect(await auction.priceAt(startTime.add(step * 3 + 1))).to.eq(
+				startPrice - drop * 3
+			);
+			expect(await auction.priceAt(startTime.add(duration))).to.eq(floorPrice);
+		});
+
+		it('should match the price helper', async () => {
+			const auctions = [auction, await deployWithSteps(3)];
+			const params = await Promise.all(
+				auctions.map((target) => getDutchAuctionPriceParams(target))
+			);
+
+			await fc.assert(
+				fc.asyncProperty(
+					fc.constantFrom(0, 1),
+					fc.integer({ min: -10, max: duration * 2 }),
+					async (index, offset) => {
+						const timestamp = BigNumber.from(params[index].startTime).add(
+							offset
+						);
+						expect(await auctions[index].priceAt(timestamp)).to.eq(
+							getDutchAuctionPrice(params[index], timestamp)
+						);
+					}
+				),
+				propertyParams
+			);
+		});
+
+		it('should round like the contract', async () => {
+			const params: DutchAuctionPriceParamsInterface = {
+				startTime: 1000,
+				startPrice: 10,
+				floorPrice: 0,
+				duration: 3,
+				steps: 0,
+			};
+
+			expect(getDutchAuctionPrice(params, 1001)).to.eq(7);
+			expect(getDutchAuctionPrice({ ...params, steps: 2 }, 1002)).to.eq(5);
+			expect(getDutchAuctionPrice({ ...params, steps: 2 }, 1001)).to.eq(10);
+		});
+
+		it('cannot start below the floor', async () => {
+			const factory = await ethers.getContractFactory('DutchAuction');
+
+			await expect(
+				factory.deploy(100, 101, duration, 0, beneficiaryAddress)
+			).to.be.revertedWithError('InvalidPrices');
+			await expect(
+				factory.deploy(100, 10, 0, 0, beneficiaryAddress)
+			).to.be.revertedWithError('InvalidDuration');
+		});
+	});
+
+	describe('buy', async () => {
+		it('should sell at the current price and refund the overpayment', async () => {
+			const auctionContract = await getAuctionContract(signers[1]);
+			const params = await getDutchAuctionPriceParams(auction);
+			const provider = ethers.provider;
+			const buyerBalance = await provider.getBalance(signers[1].address);
+			const beneficiaryBalance = await provider.getBalance(beneficiaryAddress);
+
+			const tx = await auctionContract.buy({ value: startPrice });
+			const { blockNumber, gasUsed, effectiveGasPrice } = await tx.wait();
+			const { timestamp } = await provider.getBlock(blockNumber);
+			const price = getDutchAuctionPrice(params, timestamp);
+
+			await expect(tx)
+				.to.emit(auction, 'AuctionEnded')
+				.withArgs(signers[1].address, price);
+			expect(await auction.buyer()).to.eq(signers[1].address);
+			expect(await auction.soldPrice()).to.eq(price);
+			expect(await auction.ended()).to.eq(true);
+			expect(await auction.proceeds()).to.eq(price);
+			expect(await provider.getBalance(beneficiaryAddress)).to.eq(
+				beneficiaryBalance
+			);
+			expect(await provider.getBalance(signers[1].address)).to.eq(
+				buyerBalance.sub(price).sub(gasUsed.mul(effectiveGasPrice))
+			);
+			expect(await provider.getBalance(auction.address)).to.eq(price);
+		});
+
+		it('should let the beneficiary withdraw the proceeds', async () => {
+			const provider = ethers.provider;
+			await (
+				await (await getAuctionContract(signers[1])).buy({ value: startPrice })
+			).wait();
+			const price = await auction.soldPrice();
+			const beneficiaryBalance = await provider.getBalance(beneficiaryAddress);
+
+			await (await (await getAuctionContract(signers[2])).withdraw()).wait();
+
+			expect(await auction.proceeds()).to.eq(0);
+			expect(await provider.getBalance(beneficiaryAddress)).to.eq(
+				beneficiaryBalance.add(price)
+			);
+			expect(await provider.getBalance(auction.address)).to.eq(0);
+
+			// nothing left to send
+			await (await (await getAuctionContract(signers[2])).withdraw()).wait();
+			expect(await provider.getBalance(beneficiaryAddress)).to.eq(
+				beneficiaryBalance.add(price)
+			);
+		});
+
+		it('should sell at the floor after the duration', async () => {
+			auction = await deployWithSteps(0);
+			await advanceTo((await auction.startTime()).add(duration));
+			const auctionContract = await getAuctionContract(signers[1]);
+
+			await expect(auctionContract.buy({ value: floorPrice }))
+				.to.emit(auction, 'AuctionEnded')
+				.withArgs(signers[1].address, floorPrice);
+		});
+
+		it('cannot buy below the current price', async () => {
+			const auctionContract = await getAuctionContract(signers[1]);
+
+			await expect(
+				auctionContract.buy({ value: floorPrice - 1 })
+			).to.be.revertedWithError('PriceNotMet');
+			expect(await auction.ended()).to.eq(false);
+		});
+
+		it('cannot buy an ended auction', async () => {
+			await (
+				await (await getAuctionContract(signers[1])).buy({ value: startPrice })
+			).wait();
+			const auctionContract = await getAuctionContract(signers[2]);
+
+			await expect(
+				auctionContract.buy({ value: startPrice })
+			).to.be.revertedWithError('AuctionAlreadyEnded');
+		});
+	});
+
+	describe('invariants', async () => {
+		// commands predict the price from the timestamp of their block
+		before(function () {
+			if (!hasExactTimestamps()) {
+				this.skip();
+			}
+		});
+
+		type AuctionModel = Record<string, never>;
+		interface AuctionRealInterface {
+			auction: DutchAuction;
+			params: DutchAuctionPriceParamsInterface;
+			buyers: SignerWithAddress[];
+		}
+
+		const buyCommand = fc
+			.record({
+				buyer: fc.integer({ min: 0, max: 4 }),
+				value: fc.integer({ min: 0, max: startPrice + 100 }),
+			})
+			.map(({ buyer, value }) =>
+				chainCommand<AuctionModel, AuctionRealInterface>(
+					`buy(buyer ${buyer}, ${value} wei)`,
+					async (_, { auction, params, buyers }) => {
+						const ended = await auction.ended();
+						const timestamp = await nextBlockTimestamp();
+						const price = getDutchAuctionPrice(params, timestamp);
+
+						await expectOutcome(
+							() => auction.connect(buyers[buyer]).buy({ value }),
+							ended
+								? 'AuctionAlreadyEnded'
+								: price.gt(value)
+								? 'PriceNotMet'
+								: undefined
+						);
+						if (!ended && price.lte(value)) {
+							expect(await auction.soldPrice()).to.eq(price);
+						}
+					}
+				)
+			);
+
+		const withdrawCommand = fc.integer({ min: 0, max: 4 }).map((caller) =>
+			chainCommand<AuctionModel, AuctionRealInterface>(
+				`withdraw(caller ${caller})`,
+				async (_, { auction, buyers }) => {
+					await expectOutcome(() => auction.connect(buyers[caller]).withdraw());
+					expect(await auction.proceeds()).to.eq(0);
+				}
+			)
+		);
+
+		// the price reaches the floor in a few steps
+		const waitCommand = fc
+			.integer({ min: 1, max: Math.ceil(duration / 3) })
+			.map((seconds) =>
+				chainCommand<AuctionModel, AuctionRealInterface>(
+					`wait(${seconds}s)`,
+					async () => increaseTime(seconds)
+				)
+			);
+
+		const setupWith = (target: () => DutchAuction) => async () => ({
+			model: {} as AuctionModel,
+			real: {
+				auction: target(),
+				params: await getDutchAuctionPriceParams(target()),
+				buyers: signers.slice(1, 6),
+			},
+		});
+
+		// the sale refunds the overpayment at once and keeps the price
+		// until the beneficiary withdraws it
+		const balanceInvariant = async (
+			_: AuctionModel,
+			{ auction }: AuctionRealInterface
+		) => {
+			const proceeds = await auction.proceeds();
+			expect(await ethers.provider.getBalance(auction.address)).to.eq(proceeds);
+			expect(proceeds.isZero() || proceeds.eq(await auction.soldPrice())).to.eq(
+				true
+			);
+		};
+
+		it('should sell at the helper price', async () => {
+			await fc.assert(
+				chainProperty(
+					[buyCommand, withdrawCommand, waitCommand],
+					setupWith(() => auction),
+					balanceInvariant
+				),
+				propertyParams
+			);
+		});
+
+		it('should sell at the helper price with steps', async () => {
+			const stepped = await deployWithSteps(5);
+
+			await fc.assert(
+				chainProperty(
+					[buyCommand, withdrawCommand, waitCommand],
+					setupWith(() => stepped),
+					balanceInvariant
+				),
+				propertyParams
+			);
+		});
+	});
+});
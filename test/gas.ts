@@ -0,0 +1,77 @@
+import { ethers } from 'hardhat';
+import chai from 'chai';
+import { solidity } from 'ethereum-waffle';
+import { useFixture } from '../helpers/fixtures';
+import { advanceTo } from '../helpers/time';
+import { measureGas } from '../helpers/gas';
+import { BlindBidInterface, computeBlindedBid } from '../helpers/blindBid';
+
+chai.use(solidity);
+const { expect } = chai;
+
+// gas of loops at several input sizes, checked against `gas-budgets.json`
+// when running `REPORT_GAS=1 npx hardhat test`
+describe('Gas', () => {
+	const fixture = useFixture();
+
+	describe('BlindAuction.reveal', async () => {
+		[1, 5, 10].forEach((bidCount) => {
+			it(`should reveal ${bidCount} bids`, async () => {
+				const { blindAuction, signers } = fixture();
+				const bidder = signers.bidders[0];
+				const auction = blindAuction.connect(bidder);
+
+				// increasing values, so every bid becomes the highest one
+				const bids: BlindBidInterface[] = Array.from(
+					{ length: bidCount },
+					(_, index) => ({
+						value: String(index + 1),
+						fake: false,
+						secret: ethers.utils.formatBytes32String(`bid ${index}`),
+					})
+				);
+				for (const bid of bids) {
+					await auction.bid(computeBlindedBid(bid), { value: bid.value });
+				}
+
+				await advanceTo(auction.biddingEnd());
+				await measureGas(
+					`BlindAuction.reveal(bids=${bidCount})`,
+					auction.reveal(
+						bids.map(({ value }) => value),
+						bids.map(({ fake }) => fake),
+						bids.map(({ secret }) => secret)
+					)
+				);
+				expect(await auction.highestBid()).to.eq(bidCount);
+			});
+		});
+	});
+
+	describe('Ballot.delegate', async () => {
+		[1, 3, 5].forEach((chainLength) => {
+			it(`should delegate through a chain of ${chainLength}`, async () => {
+				const { ballot, signers } = fixture();
+				const voters = signers.all.slice(1, chainLength + 3);
+				for (const voter of voters) {
+					await ballot.giveRightToVote(voter.address);
+				}
+
+				// voters[1] -> voters[2] -> ... -> voters[chainLength + 1], delegating
+				// in this order keeps every hop, the contract only follows them
+				for (let index = 1; index <= chainLength; index++) {
+					await ballot
+						.connect(voters[index])
+						.delegate(voters[index + 1].address);
+				}
+
+				await measureGas(
+					`Ballot.delegate(chain=${chainLength})`,
+					ballot.connect(voters[0]).delegate(voters[1].address)
+				);
+				const delegate = await ballot.voters(voters[chainLength + 1].address);
+				expect(delegate.weight).to.eq(chainLength + 2);
+			});
+		});
+	});
+});
@@ -0,0 +1,129 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { expect } from 'chai';
+import {
+	getHardhatNetworks,
+	loadNetworks,
+	NetworkRegistryInterface,
+} from '../helpers/networks';
+
+describe('Network registry', () => {
+	const privateKey =
+		'0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d';
+	const mnemonic =
+		'test test test test test test test test test test test junk';
+	let configPath: string;
+
+	const writeConfig = (config: unknown) =>
+		fs.writeFileSync(configPath, JSON.stringify(config));
+
+	const registry: NetworkRegistryInterface = {
+		networks: {
+			local: { url: 'http://127.0.0.1:8545', accounts: 'remote' },
+			sepolia: {
+				url: '${SEPOLIA_URL}',
+				chainId: 11155111,
+				accounts: { mnemonic: '${DEPLOYER_MNEMONIC}', count: 2 },
+				confirmations: 2,
+				verify: { apiUrl: 'https://api.etherscan.io/v2/api' },
+			},
+			hoodi: {
+				url: '${HOODI_URL}',
+				accounts: ['${DEPLOYER_PRIVATE_KEY}'],
+				gasPrice: 'auto',
+			},
+		},
+	};
+
+	beforeEach(() => {
+		configPath = path.join(
+			fs.mkdtempSync(path.join(os.tmpdir(), 'networks-')),
+			'networks.config.json'
+		);
+	});
+
+	it('should resolve networks from the environment', () => {
+		writeConfig(registry);
+		const networks = loadNetworks({
+			configPath,
+			env: {
+				SEPOLIA_URL: 'https://sepolia.example',
+				DEPLOYER_MNEMONIC: mnemonic,
+			},
+		});
+
+		expect(networks.find(({ name }) => name === 'sepolia')).to.deep.eq({
+			name: 'sepolia',
+			entry: {
+				url: 'https://sepolia.example',
+				chainId: 11155111,
+				accounts: { mnemonic, count: 2 },
+				confirmations: 2,
+				verify: { apiUrl: 'https://api.etherscan.io/v2/api' },
+			},
+			errors: [],
+		});
+		expect(networks.find(({ name }) => name === 'hoodi')).to.deep.eq({
+			name: 'hoodi',
+			errors: ['HOODI_URL is not set', 'DEPLOYER_PRIVATE_KEY is not set'],
+		});
+	});
+
+	it('should leave out networks with errors unless selected', () => {
+		writeConfig(registry);
+		const networks = loadNetworks({ configPath, env: {} });
+
+		expect(getHardhatNetworks(networks, 'local')).to.have.keys(['local']);
+		expect(() => getHardhatNetworks(networks, 'sepolia')).to.throw(
+			'Network sepolia is not configured:\n  SEPOLIA_URL is not set\n  DEPLOYER_MNEMONIC is not set'
+		);
+	});
+
+	it('should reject invalid values', () => {
+		writeConfig(registry);
+		const [, sepolia, hoodi] = loadNetworks({
+			configPath,
+			env: {
+				SEPOLIA_URL: 'sepolia.example',
+				DEPLOYER_MNEMONIC: 'not a mnemonic',
+				HOODI_URL: 'https://hoodi.example',
+				DEPLOYER_PRIVATE_KEY: privateKey.slice(2),
+			},
+		});
+
+		expect(sepolia.errors).to.deep.eq([
+			'networks.sepolia.url must be an http(s) URL',
+			'networks.sepolia.accounts.mnemonic is not a valid mnemonic',
+		]);
+		expect(hoodi.errors).to.deep.eq([
+			'networks.hoodi.accounts[0] must be a 0x-prefixed 32 bytes private key',
+		]);
+	});
+
+	it('should reject an invalid config file', () => {
+		writeConfig({
+			networks: {
+				hardhat: { url: 'http://127.0.0.1:8545' },
+				sepolia: {
+					chainId: '11155111',
+					confirmation: 2,
+					verify: { apiKeyEnv: 'SEPOLIA_API_KEY' },
+				},
+				hoodi: { url: 'https://hoodi.example', accounts: { count: 2 } },
+			},
+		});
+
+		expect(() => loadNetworks({ configPath, env: {} })).to.throw(
+			[
+				`Invalid network config ${configPath}:`,
+				'config.networks.hardhat is reserved by hardhat',
+				'config.networks.sepolia.url is required',
+				'config.networks.sepolia.chainId must be an integer >= 1',
+				'config.networks.sepolia.confirmation is not a known setting',
+				'config.networks.sepolia.verify.apiUrl is required',
+				'config.networks.hoodi.accounts.mnemonic is required',
+			].join('\n  ')
+		);
+	});
+});
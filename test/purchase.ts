@@ -1,25 +1,37 @@
-import { ethers } from 'hardhat';
+import { ethers, run } from 'hardhat';
 import chai from 'chai';
+import fc from 'fast-check';
 import chaiAsPromised from 'chai-as-promised';
 import { solidity } from 'ethereum-waffle';
+import { constants, ContractTransaction } from 'ethers';
 import { Purchase } from '../typechain/Purchase';
 import { SignerWithAddress } from '@nomiclabs/hardhat-ethers/signers';
-import { sleep } from '../helpers/timer';
+import { deployPurchase, fixtureParams, useFixture } from '../helpers/fixtures';
+import { advanceTo } from '../helpers/time';
+import { revertMatcher } from '../helpers/revertMatcher';
+import { CapturedConsoleInterface, captureConsole } from '../helpers/console';
+import {
+	chainCommand,
+	chainProperty,
+	expectOutcome,
+	propertyParams,
+} from '../helpers/property';
+import { createMemoryStore } from '../scripts/indexer/indexer.store';
+import { syncEvents } from '../scripts/indexer/indexer.sync';
+import { getEscrows } from '../scripts/indexer/indexer.queries';
 
 chai.use(solidity);
 chai.use(chaiAsPromised);
+chai.use(revertMatcher);
 const { expect } = chai;
 
 describe('Purchase', () => {
+	const fixture = useFixture();
 	let purchase: Purchase;
 	let signers: SignerWithAddress[];
 
 	const getPurchaseContract = async (signer: SignerWithAddress) =>
-		(await ethers.getContractAt(
-			'Purchase',
-			purchase.address,
-			signer
-		)) as Purchase;
+		purchase.connect(signer);
 
 	const confirmPurchase = async (signer: SignerWithAddress, value: number) => {
 		const purchaseContract = await getPurchaseContract(signer);
@@ -28,37 +40,30 @@ describe('Purchase', () => {
 		});
 	};
 
-	const deployPurchase = async (signer: SignerWithAddress, value: number) => {
-		const factory = await ethers.getContractFactory('Purchase', signer);
-		purchase = (await factory.deploy({ value })) as Purchase;
-		await purchase.deployed();
-	};
-
-	before(async () => {
-		signers = await ethers.getSigners();
+	beforeEach(async () => {
+		const { purchase: purchaseContract, signers: namedSigners } = fixture();
+		purchase = purchaseContract;
+		signers = namedSigners.all;
 	});
 
 	describe('seller', async () => {
 		it('value must be an even number', async () => {
-			const value = 5;
-			await deployPurchase(signers[0], value * 2);
+			const value = fixtureParams.purchaseValue;
 			expect(await purchase.value()).to.eq(value);
 			expect(await purchase.seller()).to.eq(signers[0].address);
 		});
 
 		it('value cannot be an odd number', async () => {
-			await expect(deployPurchase(signers[0], 9)).to.be.rejectedWith(
-				'ValueNotEven'
-			);
+			const factory = await ethers.getContractFactory('Purchase', signers[0]);
+			await expect(
+				factory.deploy(signers[0].address, 0, 0, constants.AddressZero, 0, {
+					value: 9,
+				})
+			).to.be.revertedWithError('ValueNotEven');
 		});
 	});
 
 	describe('seller 2', async () => {
-		const value = 5;
-		beforeEach(async () => {
-			await deployPurchase(signers[0], value * 2);
-		});
-
 		it('should abort purchase 1', async () => {
 			const provider = ethers.provider;
 
@@ -78,10 +83,7 @@ describe('Purchase', () => {
 	});
 
 	describe('buyer', async () => {
-		const value = 5;
-		beforeEach(async () => {
-			await deployPurchase(signers[0], value * 2);
-		});
+		const value = fixtureParams.purchaseValue;
 
 		it('buyer value cannot be an odd number', async () => {
 			await expect(confirmPurchase(signers[1], 9)).to.be.rejectedWith();
@@ -93,7 +95,9 @@ describe('Purchase', () => {
 
 		it('buyer cannot abort purchase', async () => {
 			const purchaseContract = await getPurchaseContract(signers[1]);
-			await expect(purchaseContract.abort()).to.rejectedWith('OnlySeller');
+			await expect(purchaseContract.abort()).to.be.revertedWithError(
+				'OnlySeller'
+			);
 		});
 
 		it('should confirm purchase', async () => {
@@ -120,11 +124,9 @@ describe('Purchase', () => {
 	});
 
 	describe('purchase', async () => {
-		const value = 5;
+		const value = fixtureParams.purchaseValue;
 
 		beforeEach(async () => {
-			await deployPurchase(signers[0], value * 2);
-
 			await confirmPurchase(signers[1], value * 2);
 		});
 
@@ -139,7 +141,727 @@ describe('Purchase', () => {
 		});
 
 		it('seller cannot abort confirmed purchase', async () => {
-			await expect(purchase.abort()).to.be.rejectedWith('InvalidState');
+			await expect(purchase.abort()).to.be.revertedWithError('InvalidState');
+		});
+	});
+
+	describe('deadlines', async () => {
+		const value = fixtureParams.purchaseValue;
+		const deliveryPeriod = fixtureParams.purchaseDeliveryPeriod;
+		const confirmationPeriod = fixtureParams.purchaseConfirmationPeriod;
+		let seller: SignerWithAddress;
+		let buyer: SignerWithAddress;
+
+		beforeEach(async () => {
+			[seller, buyer] = signers;
+			purchase = await deployPurchase(value, seller, {
+				deliveryPeriod,
+				confirmationPeriod,
+			});
+			expect(await purchase.deliveryDeadline()).to.eq(0);
+			await (await confirmPurchase(buyer, value * 2)).wait();
+		});
+
+		it('should start the delivery period on purchase', async () => {
+			expect(await purchase.deliveryDeadline()).to.eq(
+				(await purchase.lockedAt()).add(deliveryPeriod)
+			);
+			expect(await purchase.confirmationDeadline()).to.eq(0);
+		});
+
+		it('should start the confirmation period on delivery', async () => {
+			await expect(
+				purchase.connect(buyer).confirmDelivery()
+			).to.be.revertedWithError('OnlySeller');
+			await expect(purchase.confirmDelivery()).to.emit(
+				purchase,
+				'ItemDelivered'
+			);
+
+			expect(await purchase.confirmationDeadline()).to.eq(
+				(await purchase.deliveredAt()).add(confirmationPeriod)
+			);
+			await expect(purchase.confirmDelivery()).to.be.revertedWithError(
+				'AlreadyDelivered'
+			);
+		});
+
+		it('should refuse a delivery after the deadline', async () => {
+			const deadline = await purchase.deliveryDeadline();
+			await advanceTo(deadline);
+
+			await expect(purchase.confirmDelivery()).to.be.revertedWithError(
+				'TooLate',
+				[deadline]
+			);
+		});
+
+		it('should return both deposits when the delivery times out', async () => {
+			const deadline = await purchase.deliveryDeadline();
+			await expect(
+				purchase.connect(buyer).reclaimUndelivered()
+			).to.be.revertedWithError('TooEarly', [deadline]);
+			await advanceTo(deadline);
+			await expect(
+				purchase.connect(signers[2]).reclaimUndelivered()
+			).to.be.revertedWithError('OnlyParty');
+
+			const tx = () => purchase.connect(buyer).reclaimUndelivered();
+			await expect(tx).to.changeEtherBalance(buyer, value * 2);
+			expect(
+				await purchase.queryFilter(purchase.filters.DeliveryTimedOut())
+			).to.have.length(1);
+			expect(await purchase.state()).to.eq(3); // Inactive
+			expect(await purchase.pendingWithdrawals(seller.address)).to.eq(
+				value * 2
+			);
+
+			await expect(() => purchase.withdraw()).to.changeEtherBalance(
+				seller,
+				value * 2
+			);
+			expect(await ethers.provider.getBalance(purchase.address)).to.eq(0);
+		});
+
+		it('should let the seller reclaim when the buyer does not', async () => {
+			await advanceTo(await purchase.deliveryDeadline());
+
+			await expect(() => purchase.reclaimUndelivered()).to.changeEtherBalance(
+				seller,
+				value * 2
+			);
+			expect(await purchase.state()).to.eq(3); // Inactive
+			expect(await purchase.pendingWithdrawals(buyer.address)).to.eq(value * 2);
+
+			await expect(() =>
+				purchase.connect(buyer).withdraw()
+			).to.changeEtherBalance(buyer, value * 2);
+			expect(await ethers.provider.getBalance(purchase.address)).to.eq(0);
+		});
+
+		it('should not reclaim a delivered item', async () => {
+			await (await purchase.confirmDelivery()).wait();
+			await advanceTo(await purchase.deliveryDeadline());
+
+			await expect(
+				purchase.connect(buyer).reclaimUndelivered()
+			).to.be.revertedWithError('AlreadyDelivered');
+		});
+
+		it('should release the funds when the confirmation times out', async () => {
+			await expect(purchase.claimUnconfirmed()).to.be.revertedWithError(
+				'NoDeadline'
+			);
+			await (await purchase.confirmDelivery()).wait();
+			const deadline = await purchase.confirmationDeadline();
+			await expect(purchase.claimUnconfirmed()).to.be.revertedWithError(
+				'TooEarly',
+				[deadline]
+			);
+			await advanceTo(deadline);
+
+			await expect(() => purchase.claimUnconfirmed()).to.changeEtherBalance(
+				seller,
+				value * 3
+			);
+			expect(
+				await purchase.queryFilter(purchase.filters.ConfirmationTimedOut())
+			).to.have.length(1);
+			expect(await purchase.state()).to.eq(3); // Inactive
+
+			await expect(() =>
+				purchase.connect(buyer).withdraw()
+			).to.changeEtherBalance(buyer, value);
+			expect(await ethers.provider.getBalance(purchase.address)).to.eq(0);
+		});
+
+		it('should let the buyer confirm until the seller claims', async () => {
+			await (await purchase.confirmDelivery()).wait();
+			await advanceTo(await purchase.confirmationDeadline());
+
+			await expect(purchase.connect(buyer).confirmReceived()).to.emit(
+				purchase,
+				'ItemReceived'
+			);
+			await expect(purchase.claimUnconfirmed()).to.be.revertedWithError(
+				'InvalidState'
+			);
+		});
+
+		it('should not time out without deadlines', async () => {
+			purchase = await deployPurchase(value, seller);
+			await (await confirmPurchase(buyer, value * 2)).wait();
+			await (await purchase.confirmDelivery()).wait();
+
+			await expect(
+				purchase.connect(buyer).reclaimUndelivered()
+			).to.be.revertedWithError('AlreadyDelivered');
+			await expect(purchase.claimUnconfirmed()).to.be.revertedWithError(
+				'NoDeadline'
+			);
+			purchase = await deployPurchase(value, seller);
+			await (await confirmPurchase(buyer, value * 2)).wait();
+			await expect(
+				purchase.connect(buyer).reclaimUndelivered()
+			).to.be.revertedWithError('NoDeadline');
+		});
+	});
+
+	describe('arbitration', async () => {
+		const value = fixtureParams.purchaseValue;
+		let seller: SignerWithAddress;
+		let buyer: SignerWithAddress;
+		let arbiter: SignerWithAddress;
+
+		beforeEach(async () => {
+			[seller, buyer, arbiter] = signers;
+			purchase = await deployPurchase(value, seller, {
+				deliveryPeriod: fixtureParams.purchaseDeliveryPeriod,
+				arbiterAddress: arbiter.address,
+			});
+			await (await confirmPurchase(buyer, value * 2)).wait();
+		});
+
+		it('should refuse the seller as arbiter', async () => {
+			const factory = await ethers.getContractFactory('Purchase', seller);
+
+			await expect(
+				factory.deploy(seller.address, 0, 0, seller.address, 60, {
+					value: value * 2,
+				})
+			).to.be.revertedWithError('InvalidArbiter');
+			await expect(
+				factory.deploy(seller.address, 0, 0, arbiter.address, 0, {
+					value: value * 2,
+				})
+			).to.be.revertedWithError('InvalidRulingPeriod');
+		});
+
+		it('should refuse the arbiter as buyer', async () => {
+			purchase = await deployPurchase(value, seller, {
+				arbiterAddress: arbiter.address,
+			});
+
+			await expect(confirmPurchase(arbiter, value * 2)).to.be.revertedWithError(
+				'InvalidArbiter'
+			);
+			expect(await purchase.state()).to.eq(0); // Created
+		});
+
+		it('should need an arbiter', async () => {
+			purchase = await deployPurchase(value, seller);
+			await (await confirmPurchase(buyer, value * 2)).wait();
+
+			await expect(purchase.dispute()).to.be.revertedWithError('NoArbiter');
+		});
+
+		it('should open a dispute from the buyer or the seller', async () => {
+			await expect(purchase.connect(arbiter).dispute()).to.be.revertedWithError(
+				'OnlyParty'
+			);
+			await expect(purchase.connect(buyer).dispute())
+				.to.emit(purchase, 'DisputeOpened')
+				.withArgs(buyer.address);
+			expect(await purchase.state()).to.eq(4); // Disputed
+
+			await expect(purchase.dispute()).to.be.revertedWithError('InvalidState');
+		});
+
+		it('should suspend the escrow while disputed', async () => {
+			await (await purchase.dispute()).wait();
+			await advanceTo(await purchase.deliveryDeadline());
+
+			await expect(
+				purchase.connect(buyer).confirmReceived()
+			).to.be.revertedWithError('InvalidState');
+			await expect(
+				purchase.connect(buyer).reclaimUndelivered()
+			).to.be.revertedWithError('InvalidState');
+			await expect(purchase.confirmDelivery()).to.be.revertedWithError(
+				'InvalidState'
+			);
+		});
+
+		it('should refund both deposits without a ruling', async () => {
+			await (await purchase.connect(buyer).dispute()).wait();
+			const { timestamp } = await ethers.provider.getBlock('latest');
+			const deadline = await purchase.rulingDeadline();
+			expect(deadline).to.eq(timestamp + fixtureParams.purchaseRulingPeriod);
+
+			await expect(
+				purchase.connect(buyer).reclaimUnresolved()
+			).to.be.revertedWithError('TooEarly', [deadline]);
+			await advanceTo(deadline.add(1));
+			await expect(
+				purchase.connect(arbiter).resolveDispute(value)
+			).to.be.revertedWithError('TooLate', [deadline]);
+			await expect(
+				purchase.connect(arbiter).reclaimUnresolved()
+			).to.be.revertedWithError('OnlyParty');
+
+			await expect(() => purchase.reclaimUnresolved()).to.changeEtherBalance(
+				seller,
+				value * 2
+			);
+			expect(await purchase.state()).to.eq(3); // Inactive
+			await expect(() =>
+				purchase.connect(buyer).withdraw()
+			).to.changeEtherBalance(buyer, value * 2);
+			expect(await ethers.provider.getBalance(purchase.address)).to.eq(0);
+			await expect(
+				purchase.connect(buyer).reclaimUnresolved()
+			).to.be.revertedWithError('InvalidState');
+		});
+
+		it('should split the locked funds on the ruling', async () => {
+			await expect(
+				purchase.connect(arbiter).resolveDispute(1)
+			).to.be.revertedWithError('InvalidState');
+			await (await purchase.connect(buyer).dispute()).wait();
+			await expect(purchase.resolveDispute(1)).to.be.revertedWithError(
+				'OnlyArbiter'
+			);
+			await expect(
+				purchase.connect(arbiter).resolveDispute(value * 4 + 1)
+			).to.be.revertedWithError('InvalidSplit', [value * 4]);
+
+			await expect(purchase.connect(arbiter).resolveDispute(value * 3))
+				.to.emit(purchase, 'DisputeResolved')
+				.withArgs(value * 3, value);
+			expect(await purchase.state()).to.eq(3); // Inactive
+
+			await expect(() =>
+				purchase.connect(buyer).withdraw()
+			).to.changeEtherBalance(buyer, value * 3);
+			await expect(() => purchase.withdraw()).to.changeEtherBalance(
+				seller,
+				value
+			);
+			// nothing is left to withdraw
+			await expect(() => purchase.withdraw()).to.changeEtherBalance(seller, 0);
+			expect(await ethers.provider.getBalance(purchase.address)).to.eq(0);
+		});
+	});
+
+	describe('tasks', async () => {
+		const value = ethers.utils.parseEther('1');
+		let output: CapturedConsoleInterface;
+		let seller: SignerWithAddress;
+		let buyer: SignerWithAddress;
+		let arbiter: SignerWithAddress;
+		let stranger: SignerWithAddress;
+
+		const runTask = (
+			name: string,
+			signer: SignerWithAddress,
+			taskArgs: Record<string, unknown> = {}
+		) =>
+			run(`purchase:${name}`, {
+				address: purchase.address,
+				signer: signers.indexOf(signer),
+				...taskArgs,
+			});
+
+		// the refusal must come before any transaction is sent
+		const expectRefusal = async (
+			name: string,
+			signer: SignerWithAddress,
+			message: string,
+			taskArgs: Record<string, unknown> = {}
+		) => {
+			const blockNumber = await ethers.provider.getBlockNumber();
+			await expect(runTask(name, signer, taskArgs)).to.be.rejectedWith(message);
+			expect(await ethers.provider.getBlockNumber()).to.eq(blockNumber);
+		};
+
+		const lastLog = () => output.logs[output.logs.length - 1];
+
+		beforeEach(async () => {
+			[seller, buyer, arbiter, stranger] = signers;
+			purchase = await deployPurchase(value, seller, {
+				deliveryPeriod: fixtureParams.purchaseDeliveryPeriod,
+				arbiterAddress: arbiter.address,
+			});
+			output = captureConsole();
+		});
+
+		afterEach(() => {
+			output.restore();
+		});
+
+		it('should run the purchase to the refund', async () => {
+			await runTask('status', stranger);
+			expect(output.logs).to.include.members([
+				`### Purchase ${purchase.address} ###`,
+				'State: Created',
+				'Value: 1.0 ETH',
+				`Seller: ${seller.address}`,
+				'Buyer: -',
+				`Arbiter: ${arbiter.address}`,
+				'Balance: 2.0 ETH',
+			]);
+			expect(lastLog()).to.eq(
+				`Next actions for ${stranger.address}: purchase:confirm`
+			);
+
+			await runTask('confirm', buyer);
+			expect(output.logs).to.include('State: Locked');
+			expect(lastLog()).to.eq(
+				`Next actions for ${buyer.address}: purchase:received, purchase:dispute`
+			);
+			await runTask('received', buyer);
+			await runTask('refund', seller);
+			expect(
+				output.logs
+					.filter((line) => line.includes(' done (tx 0x'))
+					.map((line) => line.split(' ')[0])
+			).to.deep.eq([
+				'purchase:confirm',
+				'purchase:received',
+				'purchase:refund',
+			]);
+			expect(output.logs).to.include('State: Inactive');
+			expect(await purchase.state()).to.eq(3); // Inactive
+		});
+
+		it('should refuse actions of the wrong role', async () => {
+			await runTask('status', arbiter);
+			expect(lastLog()).to.eq(`Next actions for ${arbiter.address}: none`);
+			await expectRefusal(
+				'confirm',
+				arbiter,
+				'Cannot run purchase:confirm, the arbiter cannot be the buyer (InvalidArbiter)'
+			);
+			await expectRefusal(
+				'abort',
+				buyer,
+				`Only the seller ${seller.address} can run purchase:abort (OnlySeller)`
+			);
+			await expectRefusal(
+				'received',
+				buyer,
+				'No buyer has confirmed the purchase yet, purchase:received is not available (OnlyBuyer)'
+			);
+
+			await runTask('confirm', buyer);
+			await expectRefusal(
+				'received',
+				stranger,
+				`Only the buyer ${buyer.address} can run purchase:received (OnlyBuyer)`
+			);
+			await expectRefusal(
+				'dispute',
+				arbiter,
+				'Only the buyer or the seller can run purchase:dispute (OnlyParty)'
+			);
+			await expectRefusal(
+				'resolve',
+				seller,
+				`Only the arbiter ${arbiter.address} can run purchase:resolve (OnlyArbiter)`,
+				{ buyerAmount: '0' }
+			);
+		});
+
+		it('should refuse actions in the wrong state', async () => {
+			await expectRefusal(
+				'refund',
+				seller,
+				'purchase:refund requires state Release, purchase is Created (InvalidState)'
+			);
+			await runTask('confirm', buyer);
+			await expectRefusal(
+				'confirm',
+				stranger,
+				'purchase:confirm requires state Created, purchase is Locked (InvalidState)'
+			);
+			await expectRefusal(
+				'resolve',
+				arbiter,
+				'purchase:resolve requires state Disputed, purchase is Locked (InvalidState)',
+				{ buyerAmount: '0' }
+			);
+		});
+
+		it('should refuse actions the escrow does not allow yet', async () => {
+			await runTask('confirm', buyer);
+
+			await expectRefusal(
+				'reclaim',
+				buyer,
+				'Cannot run purchase:reclaim, the deadline is in'
+			);
+			await expectRefusal(
+				'claim',
+				seller,
+				'Cannot run purchase:claim, the purchase has no such deadline (NoDeadline)'
+			);
+			await expectRefusal(
+				'withdraw',
+				buyer,
+				'Cannot run purchase:withdraw, nothing to withdraw'
+			);
+			await runTask('delivered', seller);
+			await expectRefusal(
+				'delivered',
+				seller,
+				'Cannot run purchase:delivered, the item is already delivered (AlreadyDelivered)'
+			);
+
+			purchase = await deployPurchase(value, seller);
+			await runTask('confirm', buyer);
+			await expectRefusal(
+				'dispute',
+				seller,
+				'Cannot run purchase:dispute, the purchase has no arbiter (NoArbiter)'
+			);
+		});
+
+		it('should reclaim an undelivered item', async () => {
+			await runTask('confirm', buyer);
+			await advanceTo((await purchase.deliveryDeadline()).add(1));
+
+			await runTask('status', buyer);
+			expect(output.logs.some((line) => line.endsWith('(passed)'))).to.eq(true);
+			expect(lastLog()).to.eq(
+				`Next actions for ${buyer.address}: purchase:received, purchase:reclaim, purchase:dispute`
+			);
+			await runTask('reclaim', buyer);
+			await runTask('withdraw', seller);
+			expect(await ethers.provider.getBalance(purchase.address)).to.eq(0);
+		});
+
+		it('should reclaim a dispute without a ruling', async () => {
+			await runTask('confirm', buyer);
+			await runTask('dispute', seller);
+			expect(
+				output.logs.filter((line) => line.startsWith('Ruling deadline: '))
+			).to.have.length(1);
+			await expectRefusal(
+				'unresolved',
+				buyer,
+				'Cannot run purchase:unresolved, the deadline is in'
+			);
+
+			await advanceTo((await purchase.rulingDeadline()).add(1));
+			await expectRefusal(
+				'resolve',
+				arbiter,
+				'Cannot run purchase:resolve, the ruling deadline has passed (TooLate)',
+				{ buyerAmount: '0' }
+			);
+			await runTask('status', buyer);
+			expect(lastLog()).to.eq(
+				`Next actions for ${buyer.address}: purchase:unresolved`
+			);
+			await runTask('unresolved', buyer);
+			await runTask('withdraw', seller);
+			expect(await ethers.provider.getBalance(purchase.address)).to.eq(0);
+		});
+
+		it('should settle a dispute and decode contract reverts', async () => {
+			await runTask('confirm', buyer);
+			await runTask('dispute', buyer);
+			expect(output.logs).to.include('State: Disputed');
+
+			// the split is only checked by the contract
+			await expect(
+				runTask('resolve', arbiter, { buyerAmount: '5' })
+			).to.be.rejectedWith(
+				`Transaction reverted with Purchase.InvalidSplit(lockedFunds: ${value
+					.mul(4)
+					.toString()})`
+			);
+			await runTask('resolve', arbiter, { buyerAmount: '3' });
+			await runTask('status', buyer);
+			expect(output.logs).to.include(
+				`Pending withdrawal of ${buyer.address}: 3.0 ETH`
+			);
+			expect(lastLog()).to.eq(
+				`Next actions for ${buyer.address}: purchase:withdraw`
+			);
+
+			await runTask('withdraw', buyer);
+			await runTask('withdraw', seller);
+			expect(await ethers.provider.getBalance(purchase.address)).to.eq(0);
+		});
+	});
+
+	describe('event indexer', async () => {
+		const value = fixtureParams.purchaseValue;
+
+		it('should index escrows of a buyer', async () => {
+			const otherPurchase = await deployPurchase(value, signers[0]);
+			await confirmPurchase(signers[1], value * 2);
+			await (await getPurchaseContract(signers[1])).confirmReceived();
+			await otherPurchase
+				.connect(signers[2])
+				.confirmPurchase({ value: value * 2 });
+
+			const store = createMemoryStore();
+			await syncEvents(ethers.provider, store, [
+				{ contractName: 'Purchase', address: purchase.address, fromBlock: 0 },
+				{
+					contractName: 'Purchase',
+					address: otherPurchase.address,
+					fromBlock: 0,
+				},
+			]);
+
+			const escrows = getEscrows(store.load(), signers[1].address);
+			expect(escrows).to.have.length(1);
+			expect(escrows[0]).to.include({
+				address: purchase.address,
+				state: 'Release',
+				buyer: signers[1].address,
+			});
+			expect(getEscrows(store.load())).to.have.length(2);
+		});
+
+		it('should follow disputes', async () => {
+			const [seller, buyer, arbiter] = signers;
+			purchase = await deployPurchase(value, seller, {
+				arbiterAddress: arbiter.address,
+			});
+			await (await confirmPurchase(buyer, value * 2)).wait();
+			await (await purchase.confirmDelivery()).wait();
+			await (await purchase.connect(buyer).dispute()).wait();
+			const store = createMemoryStore();
+			const target = {
+				contractName: 'Purchase',
+				address: purchase.address,
+				fromBlock: 0,
+			};
+
+			await syncEvents(ethers.provider, store, [target]);
+			expect(getEscrows(store.load())[0].state).to.eq('Disputed');
+
+			await (await purchase.connect(arbiter).resolveDispute(value)).wait();
+			await syncEvents(ethers.provider, store, [target]);
+			expect(getEscrows(store.load())[0]).to.deep.include({
+				state: 'Inactive',
+				events: [
+					'PurchaseConfirmed',
+					'ItemDelivered',
+					'DisputeOpened',
+					'DisputeResolved',
+				],
+			});
+		});
+
+		it('should follow disputes without a ruling', async () => {
+			const [seller, buyer, arbiter] = signers;
+			purchase = await deployPurchase(value, seller, {
+				arbiterAddress: arbiter.address,
+			});
+			await (await confirmPurchase(buyer, value * 2)).wait();
+			await (await purchase.dispute()).wait();
+			await advanceTo((await purchase.rulingDeadline()).add(1));
+			await (await purchase.connect(buyer).reclaimUnresolved()).wait();
+			const store = createMemoryStore();
+
+			await syncEvents(ethers.provider, store, [
+				{ contractName: 'Purchase', address: purchase.address, fromBlock: 0 },
+			]);
+			expect(getEscrows(store.load())[0]).to.deep.include({
+				state: 'Inactive',
+				events: ['PurchaseConfirmed', 'DisputeOpened', 'RulingTimedOut'],
+			});
+		});
+	});
+
+	describe('invariants', async () => {
+		type PurchaseModel = Record<string, never>;
+		interface PurchaseRealInterface {
+			purchase: Purchase;
+			signers: SignerWithAddress[];
+		}
+
+		// Created, Locked, Release, Inactive
+		const [created, locked, release] = [0, 1, 2];
+
+		const actions: {
+			name: string;
+			role: 'seller' | 'buyer' | 'anyone';
+			state: number;
+			send: (purchase: Purchase, value: number) => Promise<ContractTransaction>;
+		}[] = [
+			{ name: 'abort', role: 'seller', state: created, send: (p) => p.abort() },
+			{
+				name: 'confirmPurchase',
+				role: 'anyone',
+				state: created,
+				send: (p, value) => p.confirmPurchase({ value: value * 2 }),
+			},
+			{
+				name: 'confirmReceived',
+				role: 'buyer',
+				state: locked,
+				send: (p) => p.confirmReceived(),
+			},
+			{
+				name: 'refundSeller',
+				role: 'seller',
+				state: release,
+				send: (p) => p.refundSeller(),
+			},
+		];
+
+		const actionCommand = fc
+			.record({
+				action: fc.constantFrom(...actions),
+				signer: fc.integer({ min: 0, max: 3 }),
+			})
+			.map(({ action, signer }) =>
+				chainCommand<PurchaseModel, PurchaseRealInterface>(
+					`${action.name}(signer ${signer})`,
+					async (_, { purchase, signers }) => {
+						const { address } = signers[signer];
+						const state = await purchase.state();
+						const role = {
+							seller: await purchase.seller(),
+							buyer: await purchase.buyer(),
+						};
+
+						await expectOutcome(
+							async () =>
+								action.send(
+									purchase.connect(signers[signer]),
+									(await purchase.value()).toNumber()
+								),
+							action.role !== 'anyone' && role[action.role] !== address
+								? action.role === 'seller'
+									? 'OnlySeller'
+									: 'OnlyBuyer'
+								: state !== action.state
+								? 'InvalidState'
+								: undefined
+						);
+					}
+				)
+			);
+
+		// the seller deposits 2 * value and the buyer 2 * value, the buyer gets
+		// value back on receipt, the seller the rest on refund or abort
+		it('balance should match the state', async () => {
+			const value = fixtureParams.purchaseValue;
+			const balances = [2 * value, 4 * value, 3 * value, 0];
+
+			await fc.assert(
+				chainProperty(
+					[actionCommand],
+					async () => ({
+						model: {} as PurchaseModel,
+						real: { purchase, signers: signers.slice(0, 4) },
+					}),
+					async (_, { purchase }) => {
+						const state = await purchase.state();
+						const balance = await ethers.provider.getBalance(purchase.address);
+						expect(balance).to.eq(balances[state]);
+					},
+					10
+				),
+				propertyParams
+			);
 		});
 	});
 });
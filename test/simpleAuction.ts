@@ -1,53 +1,62 @@
-import { ethers } from 'hardhat';
 import chai from 'chai';
 import chaiAsPromised from 'chai-as-promised';
 import { solidity } from 'ethereum-waffle';
 import { SimpleAuction } from '../typechain/SimpleAuction';
 import { SignerWithAddress } from '@nomiclabs/hardhat-ethers/signers';
-import { sleep } from '../helpers/timer';
+import { ethers, run } from 'hardhat';
+import fc from 'fast-check';
+import {
+	advanceTo,
+	hasExactTimestamps,
+	increaseTime,
+	revert,
+	snapshot,
+} from '../helpers/time';
+import {
+	deploySimpleAuction,
+	fixtureParams,
+	useFixture,
+} from '../helpers/fixtures';
+import { revertMatcher } from '../helpers/revertMatcher';
+import { CapturedConsoleInterface, captureConsole } from '../helpers/console';
+import {
+	chainCommand,
+	chainProperty,
+	expectOutcome,
+	nextBlockTimestamp,
+	propertyParams,
+} from '../helpers/property';
+import { createMemoryStore } from '../scripts/indexer/indexer.store';
+import { syncEvents } from '../scripts/indexer/indexer.sync';
+import {
+	getAuctionEndTime,
+	getAuctionResult,
+	getBidHistory,
+} from '../scripts/indexer/indexer.queries';
 
 chai.use(solidity);
 chai.use(chaiAsPromised);
+chai.use(revertMatcher);
 const { expect } = chai;
 
 describe('Simple Auction', () => {
+	const fixture = useFixture();
 	let auction: SimpleAuction;
 	let signers: SignerWithAddress[];
 	let beneficiaryAddress: string;
 
-	const deployAuction = async (
-		biddingTime: number,
-		beneficiaryAddress: string
-	) => {
-		const auctionFactory = await ethers.getContractFactory(
-			'SimpleAuction',
-			signers[0]
-		);
-		auction = (await auctionFactory.deploy(
-			biddingTime,
-			beneficiaryAddress
-		)) as SimpleAuction;
-		await auction.deployed();
-	};
-
 	const getAuctionContract = async (signer: SignerWithAddress) =>
-		(await ethers.getContractAt(
-			'SimpleAuction',
-			auction.address,
-			signer
-		)) as SimpleAuction;
-
-	before(async () => {
-		signers = await ethers.getSigners();
-		beneficiaryAddress = signers[10].address;
+		auction.connect(signer);
+
+	beforeEach(async () => {
+		const { simpleAuction, signers: namedSigners } = fixture();
+		auction = simpleAuction;
+		signers = namedSigners.all;
+		beneficiaryAddress = namedSigners.beneficiary.address;
 	});
 
 	describe('bidding simple test', async () => {
-		const biddingTime = 3600; // 1h
-
 		beforeEach(async () => {
-			await deployAuction(biddingTime, beneficiaryAddress);
-
 			expect(auction.address).to.properAddress;
 			expect(await auction.beneficiary()).to.eq(beneficiaryAddress);
 		});
@@ -104,7 +113,9 @@ describe('Simple Auction', () => {
 					});
 				};
 
-				await expect(testFunc()).to.be.rejectedWith('BidNotHighEnough(10)');
+				await expect(testFunc()).to.be.revertedWithError('BidNotHighEnough', [
+					10,
+				]);
 			});
 		});
 
@@ -133,11 +144,7 @@ describe('Simple Auction', () => {
 
 	describe('auction end time testing', async () => {
 		describe('auction ending', async () => {
-			const biddingTime = 5; // 5s
-
 			beforeEach(async () => {
-				await deployAuction(biddingTime, beneficiaryAddress);
-
 				const auctionContract1 = await getAuctionContract(signers[1]);
 				await auctionContract1.bid({
 					value: 10,
@@ -150,31 +157,27 @@ describe('Simple Auction', () => {
 			});
 
 			it('should ending', async () => {
-				await sleep(5000); // waiting for aution to be ended
+				await advanceTo(auction.auctionEndTime()); // waiting for aution to be ended
 				await expect(auction.auctionEnd()).not.to.be.rejected;
 			});
 
 			it('cannot ending before auctionEndTime', async () => {
-				await expect(auction.auctionEnd()).to.be.rejectedWith(
+				await expect(auction.auctionEnd()).to.be.revertedWithError(
 					'AuctionNotYetEnded'
 				);
 			});
 
 			it('cannot call recall auctionEnd', async () => {
-				await sleep(5000); // waiting for aution to be ended
+				await advanceTo(auction.auctionEndTime()); // waiting for aution to be ended
 				await auction.auctionEnd();
-				await expect(auction.auctionEnd()).to.be.rejectedWith(
+				await expect(auction.auctionEnd()).to.be.revertedWithError(
 					'AuctionEndAlreadyCalled'
 				);
 			});
 		});
 
 		describe('postending case', async () => {
-			const biddingTime = 3; // 5s
-
 			beforeEach(async () => {
-				await deployAuction(biddingTime, beneficiaryAddress);
-
 				const auctionContract1 = await getAuctionContract(signers[1]);
 				await auctionContract1.bid({
 					value: 10,
@@ -185,6 +188,7 @@ describe('Simple Auction', () => {
 					value: 15,
 				});
 
+				await advanceTo(auction.auctionEndTime());
 				await auction.auctionEnd();
 			});
 
@@ -194,8 +198,535 @@ describe('Simple Auction', () => {
 					auctionContract.bid({
 						value: 15,
 					})
-				).to.be.rejectedWith('AuctionAlreadyEnded');
+				).to.be.revertedWithError('AuctionAlreadyEnded');
+			});
+		});
+	});
+
+	describe('bid rules', async () => {
+		const deployWithRules = (
+			rules: Parameters<typeof deploySimpleAuction>[3]
+		) =>
+			deploySimpleAuction(
+				fixtureParams.simpleAuctionBiddingTime,
+				beneficiaryAddress,
+				signers[0],
+				rules
+			);
+
+		it('should have no rules by default', async () => {
+			expect(await auction.reservePrice()).to.eq(0);
+			expect(await auction.minIncrement()).to.eq(0);
+			expect(await auction.minIncrementPercent()).to.eq(0);
+			expect(await auction.softCloseWindow()).to.eq(0);
+			expect(await auction.minimumBid()).to.eq(1);
+
+			await (await auction.connect(signers[1]).bid({ value: 10 })).wait();
+			expect(await auction.minimumBid()).to.eq(11);
+		});
+
+		describe('minimum increment', async () => {
+			it('should refuse a bid below the absolute increment', async () => {
+				const ruled = await deployWithRules({ minIncrement: 5 });
+				await (await ruled.connect(signers[1]).bid({ value: 10 })).wait();
+
+				await expect(
+					ruled.connect(signers[2]).bid({ value: 14 })
+				).to.be.revertedWithError('BidIncrementTooLow', [15]);
+				await expect(
+					ruled.connect(signers[2]).bid({ value: 10 })
+				).to.be.revertedWithError('BidNotHighEnough', [10]);
+				await (await ruled.connect(signers[2]).bid({ value: 15 })).wait();
+				expect(await ruled.highestBidder()).to.eq(signers[2].address);
+			});
+
+			it('should use the larger of the absolute and percentage increments', async () => {
+				const ruled = await deployWithRules({
+					minIncrement: 5,
+					minIncrementPercent: 10,
+				});
+				await (await ruled.connect(signers[1]).bid({ value: 10 })).wait();
+				// 10% of 10 wei is below 5 wei
+				expect(await ruled.minimumBid()).to.eq(15);
+
+				await (await ruled.connect(signers[2]).bid({ value: 100 })).wait();
+				expect(await ruled.minimumBid()).to.eq(110);
+				await expect(
+					ruled.connect(signers[1]).bid({ value: 109 })
+				).to.be.revertedWithError('BidIncrementTooLow', [110]);
+				await (await ruled.connect(signers[1]).bid({ value: 110 })).wait();
+				expect(await ruled.pendingReturns(signers[2].address)).to.eq(100);
 			});
 		});
+
+		describe('reserve price', async () => {
+			let ruled: SimpleAuction;
+
+			beforeEach(async () => {
+				ruled = await deployWithRules({ reservePrice: 100 });
+				await (await ruled.connect(signers[1]).bid({ value: 50 })).wait();
+			});
+
+			it('should accept bids below the reserve price', async () => {
+				expect(await ruled.highestBid()).to.eq(50);
+				expect(await ruled.reserveMet()).to.eq(false);
+
+				await (await ruled.connect(signers[2]).bid({ value: 100 })).wait();
+				expect(await ruled.reserveMet()).to.eq(true);
+			});
+
+			it('should pay the beneficiary when the reserve price is met', async () => {
+				await (await ruled.connect(signers[2]).bid({ value: 120 })).wait();
+				await advanceTo(ruled.auctionEndTime());
+
+				const before = await ethers.provider.getBalance(beneficiaryAddress);
+				await expect(ruled.auctionEnd())
+					.to.emit(ruled, 'AuctionEnded')
+					.withArgs(signers[2].address, 120)
+					.and.not.to.emit(ruled, 'ReserveNotMet');
+				expect(await ethers.provider.getBalance(beneficiaryAddress)).to.eq(
+					before.add(120)
+				);
+			});
+
+			it('should refund the highest bidder when the reserve price is not met', async () => {
+				await (await ruled.connect(signers[2]).bid({ value: 60 })).wait();
+				await advanceTo(ruled.auctionEndTime());
+
+				const before = await ethers.provider.getBalance(beneficiaryAddress);
+				await expect(ruled.auctionEnd())
+					.to.emit(ruled, 'ReserveNotMet')
+					.withArgs(signers[2].address, 60)
+					.and.to.emit(ruled, 'AuctionEnded')
+					.withArgs(ethers.constants.AddressZero, 0);
+				expect(await ethers.provider.getBalance(beneficiaryAddress)).to.eq(
+					before
+				);
+				expect(await ruled.pendingReturns(signers[1].address)).to.eq(50);
+				expect(await ruled.pendingReturns(signers[2].address)).to.eq(60);
+
+				await (await ruled.connect(signers[1]).withdraw()).wait();
+				await (await ruled.connect(signers[2]).withdraw()).wait();
+				expect(await ethers.provider.getBalance(ruled.address)).to.eq(0);
+			});
+		});
+
+		describe('soft close', async () => {
+			const window = fixtureParams.simpleAuctionSoftCloseWindow;
+			let ruled: SimpleAuction;
+
+			beforeEach(async () => {
+				ruled = await deployWithRules({ softCloseWindow: window });
+			});
+
+			it('should not extend the auction for an early bid', async () => {
+				const auctionEndTime = await ruled.auctionEndTime();
+
+				await expect(ruled.connect(signers[1]).bid({ value: 10 })).not.to.emit(
+					ruled,
+					'AuctionExtended'
+				);
+				expect(await ruled.auctionEndTime()).to.eq(auctionEndTime);
+			});
+
+			it('should extend the auction for a bid near the end', async () => {
+				const auctionEndTime = await ruled.auctionEndTime();
+				await advanceTo(auctionEndTime.sub(window / 2));
+
+				const tx = await ruled.connect(signers[1]).bid({ value: 10 });
+				const { blockNumber } = await tx.wait();
+				const { timestamp } = await ethers.provider.getBlock(blockNumber);
+				await expect(tx)
+					.to.emit(ruled, 'AuctionExtended')
+					.withArgs(timestamp + window);
+				expect(await ruled.auctionEndTime()).to.eq(timestamp + window);
+
+				// the previous end does not close the bidding anymore
+				await advanceTo(auctionEndTime.add(1));
+				await expect(ruled.auctionEnd()).to.be.revertedWithError(
+					'AuctionNotYetEnded'
+				);
+				await (await ruled.connect(signers[2]).bid({ value: 20 })).wait();
+				expect(await ruled.highestBidder()).to.eq(signers[2].address);
+			});
+		});
+	});
+
+	describe('tasks', async () => {
+		let output: CapturedConsoleInterface;
+
+		const runTask = (
+			name: string,
+			signer: number,
+			taskArgs: Record<string, unknown> = {},
+			address = auction.address
+		) => run(`auction:simple:${name}`, { address, signer, ...taskArgs });
+
+		beforeEach(() => {
+			output = captureConsole();
+		});
+
+		afterEach(() => {
+			output.restore();
+		});
+
+		it('should bid, withdraw and end', async () => {
+			await runTask('bid', 1, { value: '1' });
+			await runTask('bid', 2, { value: '2' });
+			expect(output.logs[0]).to.match(
+				new RegExp(`^Bid 1 ETH on ${auction.address} \\(tx 0x[0-9a-f]{64}\\)$`)
+			);
+			expect(await auction.highestBidder()).to.eq(signers[2].address);
+
+			await runTask('status', 1);
+			expect(output.logs).to.include.members([
+				`### SimpleAuction ${auction.address} ###`,
+				`Beneficiary: ${beneficiaryAddress}`,
+				`Highest bidder: ${signers[2].address}`,
+				'Highest bid: 2.0 ETH',
+				'Minimum bid: 2.000000000000000001 ETH',
+				'Ended: no',
+				`Pending return of ${signers[1].address}: 1.0 ETH`,
+			]);
+
+			await runTask('withdraw', 1);
+			await runTask('withdraw', 1);
+			expect(output.logs.slice(-2)[0]).to.match(/^Withdrew 1.0 ETH \(tx 0x/);
+			expect(output.logs.slice(-1)[0]).to.eq(
+				`Nothing to withdraw for ${signers[1].address}`
+			);
+
+			await advanceTo(auction.auctionEndTime());
+			await runTask('end', 0);
+			expect(output.logs.slice(-1)[0]).to.match(
+				new RegExp(`^Auction ended, ${signers[2].address} won with 2.0 ETH`)
+			);
+		});
+
+		it('should explain refused bids', async () => {
+			await runTask('bid', 1, { value: '2' });
+			await expect(runTask('bid', 2, { value: '1' })).to.be.rejectedWith(
+				'Bid is not high enough, current highest bid is 2.0 ETH'
+			);
+
+			const ruled = await deploySimpleAuction(
+				fixtureParams.simpleAuctionBiddingTime,
+				beneficiaryAddress,
+				signers[0],
+				{ minIncrement: ethers.utils.parseEther('1') }
+			);
+			await runTask('bid', 1, { value: '1' }, ruled.address);
+			await expect(
+				runTask('bid', 2, { value: '1.5' }, ruled.address)
+			).to.be.rejectedWith(
+				'Bid does not add the minimum increment, minimum bid is 2.0 ETH'
+			);
+		});
+
+		it('should explain refused ends', async () => {
+			await expect(runTask('end', 0)).to.be.rejectedWith(
+				'Auction has not ended yet'
+			);
+
+			await advanceTo(auction.auctionEndTime());
+			await runTask('end', 0);
+			await expect(runTask('end', 0)).to.be.rejectedWith(
+				'Auction end has already been called'
+			);
+			await expect(runTask('bid', 1, { value: '1' })).to.be.rejectedWith(
+				'Auction has already ended, bidding is closed'
+			);
+		});
+
+		it('should report an auction ended below the reserve', async () => {
+			const ruled = await deploySimpleAuction(
+				fixtureParams.simpleAuctionBiddingTime,
+				beneficiaryAddress,
+				signers[0],
+				{ reservePrice: ethers.utils.parseEther('5') }
+			);
+			await runTask('bid', 1, { value: '1' }, ruled.address);
+			await advanceTo(ruled.auctionEndTime());
+
+			await runTask('end', 0, {}, ruled.address);
+			expect(output.logs.slice(-1)[0]).to.match(
+				/^Auction ended below the reserve price, the highest bid is refunded/
+			);
+		});
+
+		it('should refuse an invalid signer or address', async () => {
+			await expect(runTask('status', 99)).to.be.rejectedWith(
+				'Signer index 99 out of range, network has'
+			);
+			await expect(runTask('status', 0, {}, '0x1234')).to.be.rejectedWith(
+				'Invalid SimpleAuction address: 0x1234'
+			);
+		});
+	});
+
+	describe('event indexer', async () => {
+		const bid = async (signer: SignerWithAddress, value: number) => {
+			const auctionContract = await getAuctionContract(signer);
+			await auctionContract.bid({ value });
+		};
+
+		const sync = (store = createMemoryStore()) =>
+			syncEvents(ethers.provider, store, [
+				{
+					contractName: 'SimpleAuction',
+					address: auction.address,
+					fromBlock: 0,
+				},
+			]);
+
+		it('should index bid history and auction end', async () => {
+			const store = createMemoryStore();
+			await bid(signers[1], 10);
+			await bid(signers[2], 15);
+			await sync(store);
+
+			await advanceTo(auction.auctionEndTime());
+			await auction.auctionEnd();
+			const { events } = await sync(store);
+			expect(events.map(({ event }) => event)).to.deep.eq(['AuctionEnded']);
+
+			const state = store.load();
+			expect(
+				getBidHistory(state, auction.address).map(({ bidder, amount }) => [
+					bidder,
+					amount,
+				])
+			).to.deep.eq([
+				[signers[1].address, '10'],
+				[signers[2].address, '15'],
+			]);
+			expect(getAuctionResult(state, auction.address)).to.include({
+				winner: signers[2].address,
+				amount: '15',
+				reserveMet: true,
+			});
+		});
+
+		it('should index soft close extensions and an unmet reserve', async () => {
+			const window = fixtureParams.simpleAuctionSoftCloseWindow;
+			auction = await deploySimpleAuction(
+				fixtureParams.simpleAuctionBiddingTime,
+				beneficiaryAddress,
+				signers[0],
+				{ reservePrice: 100, softCloseWindow: window }
+			);
+			const store = createMemoryStore();
+			await bid(signers[1], 10);
+			await sync(store);
+			expect(getAuctionEndTime(store.load(), auction.address)).to.eq(undefined);
+
+			await advanceTo((await auction.auctionEndTime()).sub(window / 2));
+			await bid(signers[2], 60);
+			await advanceTo(auction.auctionEndTime());
+			await auction.auctionEnd();
+			const { events } = await sync(store);
+			expect(events.map(({ event }) => event)).to.deep.eq([
+				'HighestBidIncreased',
+				'AuctionExtended',
+				'ReserveNotMet',
+				'AuctionEnded',
+			]);
+
+			const state = store.load();
+			expect(getAuctionEndTime(state, auction.address)).to.eq(
+				(await auction.auctionEndTime()).toString()
+			);
+			expect(getAuctionResult(state, auction.address)).to.include({
+				winner: ethers.constants.AddressZero,
+				amount: '0',
+				reserveMet: false,
+				highestBidder: signers[2].address,
+				highestBid: '60',
+			});
+		});
+
+		it('should roll back events of a reorganized block', async () => {
+			const store = createMemoryStore();
+			await bid(signers[1], 10);
+			const { head } = await sync(store);
+
+			const snapshotId = await snapshot();
+			await bid(signers[2], 15);
+			await sync(store);
+			expect(getBidHistory(store.load(), auction.address)).to.have.length(2);
+
+			// replace the block of the second bid
+			await revert(snapshotId);
+			await bid(signers[3], 20);
+			const { rolledBackTo } = await sync(store);
+
+			expect(rolledBackTo).to.eq(head);
+			expect(
+				getBidHistory(store.load(), auction.address).map(({ bidder }) => bidder)
+			).to.deep.eq([signers[1].address, signers[3].address]);
+		});
+	});
+
+	describe('invariants', async () => {
+		// commands predict reverts from the timestamp of their block
+		before(function () {
+			if (!hasExactTimestamps()) {
+				this.skip();
+			}
+		});
+
+		type AuctionModel = Record<string, never>;
+		interface AuctionRealInterface {
+			auction: SimpleAuction;
+			bidders: SignerWithAddress[];
+		}
+
+		const bidCommand = fc
+			.record({
+				bidder: fc.integer({ min: 0, max: 4 }),
+				value: fc.integer({ min: 1, max: 1000 }),
+			})
+			.map(({ bidder, value }) =>
+				chainCommand<AuctionModel, AuctionRealInterface>(
+					`bid(bidder ${bidder}, ${value} wei)`,
+					async (_, { auction, bidders }) => {
+						const highestBid = await auction.highestBid();
+						const minimumBid = await auction.minimumBid();
+						const auctionEndTime = await auction.auctionEndTime();
+						const ended = await auction.ended();
+						const timestamp = await nextBlockTimestamp();
+
+						await expectOutcome(
+							() => auction.connect(bidders[bidder]).bid({ value }),
+							ended || auctionEndTime.lt(timestamp)
+								? 'AuctionAlreadyEnded'
+								: highestBid.gte(value)
+								? 'BidNotHighEnough'
+								: minimumBid.gt(value)
+								? 'BidIncrementTooLow'
+								: undefined
+						);
+					}
+				)
+			);
+
+		const withdrawCommand = fc
+			.integer({ min: 0, max: 4 })
+			.map((bidder) =>
+				chainCommand<AuctionModel, AuctionRealInterface>(
+					`withdraw(bidder ${bidder})`,
+					async (_, { auction, bidders }) =>
+						expectOutcome(() => auction.connect(bidders[bidder]).withdraw())
+				)
+			);
+
+		const endCommand = fc.constant(
+			chainCommand<AuctionModel, AuctionRealInterface>(
+				'auctionEnd()',
+				async (_, { auction }) => {
+					const ended = await auction.ended();
+					const auctionEndTime = await auction.auctionEndTime();
+					const timestamp = await nextBlockTimestamp();
+
+					await expectOutcome(
+						() => auction.auctionEnd(),
+						auctionEndTime.gt(timestamp)
+							? 'AuctionNotYetEnded'
+							: ended
+							? 'AuctionEndAlreadyCalled'
+							: undefined
+					);
+				}
+			)
+		);
+
+		// bidding time is 1h, a few steps reach the end of the auction
+		const waitCommand = fc
+			.integer({ min: 1, max: 1200 })
+			.map((seconds) =>
+				chainCommand<AuctionModel, AuctionRealInterface>(
+					`wait(${seconds}s)`,
+					async () => increaseTime(seconds)
+				)
+			);
+
+		const setupWith = (target: () => SimpleAuction) => async () => ({
+			model: {} as AuctionModel,
+			real: { auction: target(), bidders: signers.slice(1, 6) },
+		});
+		const setup = setupWith(() => auction);
+
+		// the contract holds the highest bid until the end, plus every overbid,
+		// a highest bid below the reserve price becomes a pending return
+		const balanceInvariant = async (
+			_: AuctionModel,
+			{ auction, bidders }: AuctionRealInterface
+		) => {
+			const pendingReturns = await Promise.all(
+				bidders.map(({ address }) => auction.pendingReturns(address))
+			);
+			const held = (await auction.ended())
+				? ethers.constants.Zero
+				: await auction.highestBid();
+
+			expect(await ethers.provider.getBalance(auction.address)).to.eq(
+				pendingReturns.reduce((sum, amount) => sum.add(amount), held)
+			);
+		};
+
+		it('balance should match highest bid and pending returns', async () => {
+			await fc.assert(
+				chainProperty(
+					[bidCommand, withdrawCommand, endCommand, waitCommand],
+					setup,
+					balanceInvariant
+				),
+				propertyParams
+			);
+		});
+
+		it('balance should match with bid rules', async () => {
+			const ruled = await deploySimpleAuction(
+				fixtureParams.simpleAuctionBiddingTime,
+				beneficiaryAddress,
+				signers[0],
+				{
+					reservePrice: 500,
+					minIncrement: 10,
+					minIncrementPercent: 5,
+					softCloseWindow: fixtureParams.simpleAuctionSoftCloseWindow,
+				}
+			);
+
+			await fc.assert(
+				chainProperty(
+					[bidCommand, withdrawCommand, endCommand, waitCommand],
+					setupWith(() => ruled),
+					balanceInvariant
+				),
+				propertyParams
+			);
+		});
+
+		it('should shrink a failing sequence', async () => {
+			// wrong on purpose: any bid of 100 wei or more breaks it
+			const details = await fc.check(
+				chainProperty(
+					[bidCommand, withdrawCommand, waitCommand],
+					setup,
+					async (_, { auction }) => {
+						expect(await auction.highestBid()).to.be.lt(100);
+					},
+					5
+				),
+				{ ...propertyParams, seed: 42, path: undefined }
+			);
+
+			expect(details.failed).to.be.true;
+			// a single command, followed by the replay path
+			expect(String(details.counterexample?.[0])).to.match(
+				/^bid\(bidder 0, 100 wei\) \/\*replayPath=/
+			);
+		});
 	});
 });
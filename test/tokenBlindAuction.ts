@@ -0,0 +1,148 @@
+import chai from 'chai';
+import chaiAsPromised from 'chai-as-promised';
+import { solidity } from 'ethereum-waffle';
+import { SignerWithAddress } from '@nomiclabs/hardhat-ethers/signers';
+import { ERC20Mock } from '../typechain/ERC20Mock';
+import { TokenBlindAuction } from '../typechain/TokenBlindAuction';
+import { advanceTo } from '../helpers/time';
+import {
+	deployERC20FeeOnTransferMock,
+	deployTokenBlindAuction,
+	deployTokenFixture,
+	fixtureParams,
+	useFixture,
+} from '../helpers/fixtures';
+import { revertMatcher } from '../helpers/revertMatcher';
+import {
+	BlindBidInterface,
+	computeBlindedBid,
+	generateSecret,
+} from '../helpers/blindBid';
+
+chai.use(solidity);
+chai.use(chaiAsPromised);
+chai.use(revertMatcher);
+const { expect } = chai;
+
+describe('Token Blind Auction', () => {
+	const fixture = useFixture(deployTokenFixture);
+	let auction: TokenBlindAuction;
+	let token: ERC20Mock;
+	let signers: SignerWithAddress[];
+	let beneficiaryAddress: string;
+
+	const bid = async (
+		signer: SignerWithAddress,
+		blindBid: BlindBidInterface,
+		deposit: number
+	) => {
+		await (
+			await token.connect(signer).approve(auction.address, deposit)
+		).wait();
+		await (
+			await auction.connect(signer).bid(computeBlindedBid(blindBid), deposit)
+		).wait();
+	};
+
+	const reveal = async (
+		signer: SignerWithAddress,
+		blindBid: BlindBidInterface
+	) =>
+		(
+			await auction
+				.connect(signer)
+				.reveal([blindBid.value], [blindBid.fake], [blindBid.secret])
+		).wait();
+
+	beforeEach(async () => {
+		const {
+			tokenBlindAuction,
+			token: mockToken,
+			signers: namedSigners,
+		} = fixture();
+		auction = tokenBlindAuction;
+		token = mockToken;
+		signers = namedSigners.all;
+		beneficiaryAddress = namedSigners.beneficiary.address;
+	});
+
+	it('should pull the approved deposit', async () => {
+		await bid(
+			signers[1],
+			{ value: 10, fake: false, secret: generateSecret() },
+			12
+		);
+
+		expect(await auction.token()).to.eq(token.address);
+		expect((await auction.bids(signers[1].address, 0)).deposit).to.eq(12);
+		expect(await token.balanceOf(auction.address)).to.eq(12);
+	});
+
+	it('should refuse a deposit without allowance', async () => {
+		const blindedBid = computeBlindedBid({
+			value: 10,
+			fake: false,
+			secret: generateSecret(),
+		});
+
+		await expect(
+			auction.connect(signers[1]).bid(blindedBid, 10)
+		).to.be.revertedWithError('TokenTransferFailed', [token.address]);
+	});
+
+	it('should refund, return overbids and pay the beneficiary in tokens', async () => {
+		const lowBid = { value: 10, fake: false, secret: generateSecret() };
+		const highBid = { value: 20, fake: false, secret: generateSecret() };
+		await bid(signers[1], lowBid, 15);
+		await bid(signers[2], highBid, 25);
+
+		await advanceTo((await auction.biddingEnd()).add(1));
+		// the excess of each deposit is refunded at reveal
+		await reveal(signers[1], lowBid);
+		await reveal(signers[2], highBid);
+		expect(await token.balanceOf(signers[1].address)).to.eq(
+			fixtureParams.tokenBalance - 10
+		);
+		expect(await token.balanceOf(signers[2].address)).to.eq(
+			fixtureParams.tokenBalance - 20
+		);
+
+		await (await auction.connect(signers[1]).withdraw()).wait();
+		expect(await token.balanceOf(signers[1].address)).to.eq(
+			fixtureParams.tokenBalance
+		);
+
+		await advanceTo((await auction.revealEnd()).add(1));
+		await expect(auction.auctionEnd())
+			.to.emit(auction, 'AuctionEnded')
+			.withArgs(signers[2].address, 20);
+		expect(await token.balanceOf(beneficiaryAddress)).to.eq(
+			fixtureParams.tokenBalance + 20
+		);
+		expect(await token.balanceOf(auction.address)).to.eq(0);
+	});
+
+	it('should refuse a fee-on-transfer token', async () => {
+		const feeToken = await deployERC20FeeOnTransferMock(10, signers[0]);
+		await (await feeToken.mint(signers[1].address, 1000)).wait();
+		auction = await deployTokenBlindAuction(
+			feeToken.address,
+			fixtureParams.blindAuctionBiddingTime,
+			fixtureParams.blindAuctionRevealTime,
+			beneficiaryAddress,
+			signers[0]
+		);
+		await (
+			await feeToken.connect(signers[1]).approve(auction.address, 50)
+		).wait();
+		const blindedBid = computeBlindedBid({
+			value: 50,
+			fake: false,
+			secret: generateSecret(),
+		});
+
+		await expect(
+			auction.connect(signers[1]).bid(blindedBid, 50)
+		).to.be.revertedWithError('TokenAmountMismatch', [50, 45]);
+	});
+});
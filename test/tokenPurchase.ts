@@ -0,0 +1,234 @@
+import { ethers } from 'hardhat';
+import { constants } from 'ethers';
+import chai from 'chai';
+import chaiAsPromised from 'chai-as-promised';
+import { solidity } from 'ethereum-waffle';
+import { ERC20Mock } from '../typechain/ERC20Mock';
+import { TokenPurchase } from '../typechain/TokenPurchase';
+import {
+	deployERC20FeeOnTransferMock,
+	deployTokenFixture,
+	deployTokenPurchase,
+	fixtureParams,
+	NamedSignersInterface,
+	useFixture,
+} from '../helpers/fixtures';
+import { revertMatcher } from '../helpers/revertMatcher';
+import { deployTokenPurchase as deployTokenPurchaseScript } from '../scripts/deploy/tokenPurchase.deploy';
+
+chai.use(solidity);
+chai.use(chaiAsPromised);
+chai.use(revertMatcher);
+const { expect } = chai;
+
+describe('Token Purchase', () => {
+	const fixture = useFixture(deployTokenFixture);
+	const value = fixtureParams.purchaseValue;
+	const balance = fixtureParams.tokenBalance;
+	let purchase: TokenPurchase;
+	let token: ERC20Mock;
+	let signers: NamedSignersInterface;
+
+	const confirmPurchase = async () => {
+		await (
+			await token.connect(signers.buyer).approve(purchase.address, 2 * value)
+		).wait();
+		await (await purchase.connect(signers.buyer).confirmPurchase()).wait();
+	};
+
+	beforeEach(async () => {
+		const {
+			tokenPurchase,
+			token: mockToken,
+			signers: namedSigners,
+		} = fixture();
+		purchase = tokenPurchase;
+		token = mockToken;
+		signers = namedSigners;
+	});
+
+	describe('creation', async () => {
+		it('should pull twice the value from the seller deposit', async () => {
+			expect(await purchase.token()).to.eq(token.address);
+			expect(await purchase.seller()).to.eq(signers.seller.address);
+			expect(await purchase.value()).to.eq(value);
+			expect(await token.balanceOf(purchase.address)).to.eq(2 * value);
+			expect(await token.balanceOf(signers.seller.address)).to.eq(
+				balance - 2 * value
+			);
+		});
+
+		it('should refuse an odd deposit', async () => {
+			const factory = await ethers.getContractFactory(
+				'TokenPurchase',
+				signers.seller
+			);
+
+			await expect(
+				factory.deploy(
+					token.address,
+					signers.seller.address,
+					2 * value + 1,
+					0,
+					0,
+					constants.AddressZero,
+					0
+				)
+			).to.be.revertedWithError('ValueNotEven');
+		});
+
+		it('should wait for the seller deposit', async () => {
+			const factory = await ethers.getContractFactory(
+				'TokenPurchase',
+				signers.seller
+			);
+			purchase = (await factory.deploy(
+				token.address,
+				signers.seller.address,
+				2 * value,
+				0,
+				0,
+				constants.AddressZero,
+				0
+			)) as TokenPurchase;
+			await purchase.deployed();
+			expect(await purchase.state()).to.eq(5); // Unfunded
+			expect(await token.balanceOf(purchase.address)).to.eq(0);
+
+			await expect(purchase.deposit()).to.be.revertedWithError(
+				'TokenTransferFailed',
+				[token.address]
+			);
+			await (
+				await token.connect(signers.buyer).approve(purchase.address, 2 * value)
+			).wait();
+			await expect(
+				purchase.connect(signers.buyer).confirmPurchase()
+			).to.be.revertedWithError('InvalidState');
+			await expect(
+				purchase.connect(signers.buyer).deposit()
+			).to.be.revertedWithError('OnlySeller');
+
+			await (await token.approve(purchase.address, 2 * value)).wait();
+			await expect(purchase.deposit())
+				.to.emit(purchase, 'Deposited')
+				.and.to.emit(token, 'Transfer')
+				.withArgs(signers.seller.address, purchase.address, 2 * value);
+			expect(await purchase.state()).to.eq(0); // Created
+			await expect(purchase.deposit()).to.be.revertedWithError('InvalidState');
+			await confirmPurchase();
+			expect(await token.balanceOf(purchase.address)).to.eq(4 * value);
+		});
+
+		it('should refuse a fee-on-transfer token', async () => {
+			const feeToken = await deployERC20FeeOnTransferMock(20, signers.deployer);
+			await (await feeToken.mint(signers.seller.address, 100)).wait();
+
+			await expect(
+				deployTokenPurchase(feeToken.address, value, signers.seller)
+			).to.be.revertedWithError('TokenAmountMismatch', [10, 8]);
+		});
+
+		it('should deploy with the deploy script', async () => {
+			const { TokenPurchase: deployed } = await deployTokenPurchaseScript(
+				{
+					tokenAddress: token.address,
+					sellerAddress: signers.deployer.address,
+					value: 7,
+				},
+				{ verbose: false, save: false }
+			);
+
+			expect(await token.balanceOf(deployed.address)).to.eq(14);
+			expect(await (deployed as TokenPurchase).state()).to.eq(0); // Created
+			// the deposit is pulled, nothing stays approved
+			expect(
+				await token.allowance(signers.deployer.address, deployed.address)
+			).to.eq(0);
+		});
+	});
+
+	describe('escrow', async () => {
+		it('should pull twice the value from the buyer', async () => {
+			await token.connect(signers.buyer).approve(purchase.address, 2 * value);
+
+			await expect(purchase.connect(signers.buyer).confirmPurchase())
+				.to.emit(purchase, 'PurchaseConfirmed')
+				.and.to.emit(token, 'Transfer')
+				.withArgs(signers.buyer.address, purchase.address, 2 * value);
+			expect(await purchase.buyer()).to.eq(signers.buyer.address);
+			expect(await purchase.state()).to.eq(1); // Locked
+			expect(await token.balanceOf(purchase.address)).to.eq(4 * value);
+		});
+
+		it('should refuse a purchase without allowance', async () => {
+			await expect(
+				purchase.connect(signers.buyer).confirmPurchase()
+			).to.be.revertedWithError('TokenTransferFailed', [token.address]);
+			expect(await purchase.state()).to.eq(0); // Created
+		});
+
+		it('should release the value to the buyer and the rest to the seller', async () => {
+			await confirmPurchase();
+
+			await (await purchase.connect(signers.buyer).confirmReceived()).wait();
+			expect(await token.balanceOf(signers.buyer.address)).to.eq(
+				balance - value
+			);
+
+			await (await purchase.connect(signers.seller).refundSeller()).wait();
+			expect(await token.balanceOf(signers.seller.address)).to.eq(
+				balance + value
+			);
+			expect(await token.balanceOf(purchase.address)).to.eq(0);
+			expect(await purchase.state()).to.eq(3); // Inactive
+		});
+
+		it('should return the deposit on abort', async () => {
+			await expect(purchase.connect(signers.seller).abort()).to.emit(
+				purchase,
+				'Aborted'
+			);
+
+			expect(await token.balanceOf(signers.seller.address)).to.eq(balance);
+			expect(await token.balanceOf(purchase.address)).to.eq(0);
+		});
+
+		it('should settle a dispute in tokens', async () => {
+			const arbiter = signers.all[2];
+			purchase = await deployTokenPurchase(
+				token.address,
+				value,
+				signers.seller,
+				{ arbiterAddress: arbiter.address }
+			);
+			await confirmPurchase();
+			await (await purchase.connect(signers.buyer).dispute()).wait();
+
+			await (await purchase.connect(arbiter).resolveDispute(value)).wait();
+			await (await purchase.connect(signers.buyer).withdraw()).wait();
+			await (await purchase.connect(signers.seller).withdraw()).wait();
+			expect(await token.balanceOf(signers.buyer.address)).to.eq(
+				balance - value
+			);
+			// the deposit of the fixture purchase is still locked
+			expect(await token.balanceOf(signers.seller.address)).to.eq(
+				balance - value
+			);
+			expect(await token.balanceOf(purchase.address)).to.eq(0);
+		});
+
+		it('should keep the escrow rules', async () => {
+			await expect(
+				purchase.connect(signers.buyer).abort()
+			).to.be.revertedWithError('OnlySeller');
+			await confirmPurchase();
+			await expect(
+				purchase.connect(signers.seller).confirmReceived()
+			).to.be.revertedWithError('OnlyBuyer');
+			await expect(
+				purchase.connect(signers.seller).abort()
+			).to.be.revertedWithError('InvalidState');
+		});
+	});
+});
@@ -0,0 +1,165 @@
+import { ethers } from 'hardhat';
+import chai from 'chai';
+import chaiAsPromised from 'chai-as-promised';
+import { solidity } from 'ethereum-waffle';
+import { SignerWithAddress } from '@nomiclabs/hardhat-ethers/signers';
+import { ERC20Mock } from '../typechain/ERC20Mock';
+import { TokenSimpleAuction } from '../typechain/TokenSimpleAuction';
+import { advanceTo } from '../helpers/time';
+import {
+	deployERC20FeeOnTransferMock,
+	deployTokenFixture,
+	deployTokenSimpleAuction,
+	fixtureParams,
+	useFixture,
+} from '../helpers/fixtures';
+import { revertMatcher } from '../helpers/revertMatcher';
+
+chai.use(solidity);
+chai.use(chaiAsPromised);
+chai.use(revertMatcher);
+const { expect } = chai;
+
+describe('Token Simple Auction', () => {
+	const fixture = useFixture(deployTokenFixture);
+	let auction: TokenSimpleAuction;
+	let token: ERC20Mock;
+	let signers: SignerWithAddress[];
+	let beneficiaryAddress: string;
+
+	const bid = async (signer: SignerWithAddress, amount: number) => {
+		await (await token.connect(signer).approve(auction.address, amount)).wait();
+		await (await auction.connect(signer).bid(amount)).wait();
+	};
+
+	beforeEach(async () => {
+		const {
+			tokenSimpleAuction,
+			token: mockToken,
+			signers: namedSigners,
+		} = fixture();
+		auction = tokenSimpleAuction;
+		token = mockToken;
+		signers = namedSigners.all;
+		beneficiaryAddress = namedSigners.beneficiary.address;
+	});
+
+	it('should pull the approved bid', async () => {
+		await token.connect(signers[1]).approve(auction.address, 10);
+
+		await expect(auction.connect(signers[1]).bid(10))
+			.to.emit(auction, 'HighestBidIncreased')
+			.withArgs(signers[1].address, 10)
+			.and.to.emit(token, 'Transfer')
+			.withArgs(signers[1].address, auction.address, 10);
+		expect(await auction.token()).to.eq(token.address);
+		expect(await auction.highestBidder()).to.eq(signers[1].address);
+		expect(await token.balanceOf(auction.address)).to.eq(10);
+		expect(await token.balanceOf(signers[1].address)).to.eq(
+			fixtureParams.tokenBalance - 10
+		);
+	});
+
+	it('should refuse a bid without allowance', async () => {
+		await expect(auction.connect(signers[1]).bid(10)).to.be.revertedWithError(
+			'TokenTransferFailed',
+			[token.address]
+		);
+		expect(await auction.highestBid()).to.eq(0);
+	});
+
+	it('should apply the bid rules', async () => {
+		auction = await deployTokenSimpleAuction(
+			token.address,
+			fixtureParams.simpleAuctionBiddingTime,
+			beneficiaryAddress,
+			signers[0],
+			{ minIncrement: 5 }
+		);
+		await bid(signers[1], 10);
+
+		await token.connect(signers[2]).approve(auction.address, 14);
+		await expect(auction.connect(signers[2]).bid(14)).to.be.revertedWithError(
+			'BidIncrementTooLow',
+			[15]
+		);
+	});
+
+	it('should return overbid tokens', async () => {
+		await bid(signers[1], 10);
+		await bid(signers[2], 15);
+		expect(await auction.pendingReturns(signers[1].address)).to.eq(10);
+
+		expect(await auction.connect(signers[1]).callStatic.withdraw()).to.eq(true);
+		await (await auction.connect(signers[1]).withdraw()).wait();
+		expect(await auction.pendingReturns(signers[1].address)).to.eq(0);
+		expect(await token.balanceOf(signers[1].address)).to.eq(
+			fixtureParams.tokenBalance
+		);
+	});
+
+	it('should keep the pending return when the token refuses the transfer', async () => {
+		await bid(signers[1], 10);
+		await bid(signers[2], 15);
+		await (await token.setFailTransfers(true)).wait();
+
+		expect(await auction.connect(signers[1]).callStatic.withdraw()).to.eq(
+			false
+		);
+		await (await auction.connect(signers[1]).withdraw()).wait();
+		expect(await auction.pendingReturns(signers[1].address)).to.eq(10);
+	});
+
+	it('should pay the beneficiary at the end', async () => {
+		await bid(signers[1], 10);
+		await bid(signers[2], 15);
+		await advanceTo(auction.auctionEndTime());
+
+		await expect(auction.auctionEnd())
+			.to.emit(auction, 'AuctionEnded')
+			.withArgs(signers[2].address, 15);
+		expect(await token.balanceOf(beneficiaryAddress)).to.eq(
+			fixtureParams.tokenBalance + 15
+		);
+		expect(await token.balanceOf(auction.address)).to.eq(10);
+	});
+
+	it('should not end while the token refuses the payment', async () => {
+		await bid(signers[1], 10);
+		await advanceTo(auction.auctionEndTime());
+		await (await token.setFailTransfers(true)).wait();
+
+		await expect(auction.auctionEnd()).to.be.revertedWithError(
+			'TokenTransferFailed',
+			[token.address]
+		);
+		expect(await auction.ended()).to.eq(false);
+	});
+
+	it('should refuse a fee-on-transfer token', async () => {
+		const feeToken = await deployERC20FeeOnTransferMock(1, signers[0]);
+		await (await feeToken.mint(signers[1].address, 1000)).wait();
+		auction = await deployTokenSimpleAuction(
+			feeToken.address,
+			fixtureParams.simpleAuctionBiddingTime,
+			beneficiaryAddress,
+			signers[0]
+		);
+		await (
+			await feeToken.connect(signers[1]).approve(auction.address, 100)
+		).wait();
+
+		// 1% of the bid is burnt on the way
+		await expect(auction.connect(signers[1]).bid(100)).to.be.revertedWithError(
+			'TokenAmountMismatch',
+			[100, 99]
+		);
+		expect(await feeToken.balanceOf(auction.address)).to.eq(0);
+	});
+
+	it('should not accept ether', async () => {
+		await expect(signers[1].sendTransaction({ to: auction.address, value: 10 }))
+			.to.be.rejected;
+		expect(await ethers.provider.getBalance(auction.address)).to.eq(0);
+	});
+});
@@ -0,0 +1,296 @@
+import { ethers } from 'hardhat';
+import chai from 'chai';
+import chaiAsPromised from 'chai-as-promised';
+import { utils } from 'ethers';
+import { BallotUpgradeable } from '../typechain/BallotUpgradeable';
+import { BallotUpgradeableV2Mock } from '../typechain/BallotUpgradeableV2Mock';
+import { ProxyAdmin } from '../typechain/ProxyAdmin';
+import { PurchaseUpgradeable } from '../typechain/PurchaseUpgradeable';
+import { revertMatcher } from '../helpers/revertMatcher';
+import {
+	getImplementationAddress,
+	proxyDeployFunc,
+	upgradeProxy,
+} from '../scripts/deploy/helpers/deploy.proxy';
+import {
+	compareStorageLayouts,
+	getStorageLayout,
+} from '../scripts/deploy/helpers/deploy.layout';
+import { loadDeploymentRecord } from '../scripts/deploy/helpers/deploy.record';
+import { runDeployPipeline } from '../scripts/deploy/helpers/deploy.pipeline';
+import { getPurchaseTermsParams } from '../scripts/deploy/purchase.deploy';
+
+chai.use(chaiAsPromised);
+chai.use(revertMatcher);
+const { expect } = chai;
+
+describe('Upgradeable proxy', () => {
+	const proposalNames = ['name 1', 'name 2'].map((name) =>
+		utils.formatBytes32String(name)
+	);
+	const options = { verbose: false };
+
+	const deployBallot = async () => {
+		const [chairperson] = await ethers.getSigners();
+		const { BallotUpgradeable: ballot } = await proxyDeployFunc(
+			{
+				contractName: 'BallotUpgradeable',
+				contractParams: [chairperson.address, proposalNames, 0, 0],
+			},
+			options
+		);
+		return ballot as BallotUpgradeable;
+	};
+
+	it('should initialize the proxy once', async () => {
+		const [deployer] = await ethers.getSigners();
+		const ballot = await deployBallot();
+		const record = loadDeploymentRecord('BallotUpgradeable');
+
+		expect(await ballot.chairperson()).to.eq(deployer.address);
+		expect((await ballot.proposals(1)).name).to.eq(proposalNames[1]);
+		expect(record?.address).to.eq(ballot.address);
+		expect(record?.proxy?.implementation).to.eq(
+			await getImplementationAddress(ballot.address)
+		);
+		await expect(
+			ballot.initialize(deployer.address, proposalNames, 0, 0)
+		).to.be.revertedWithError('AlreadyInitialized');
+		// nobody can take over the implementation either
+		const implementation = ballot.attach(
+			record?.proxy?.implementation as string
+		);
+		await expect(
+			implementation.initialize(deployer.address, proposalNames, 0, 0)
+		).to.be.revertedWithError('AlreadyInitialized');
+	});
+
+	it('should keep the state across upgrades', async () => {
+		const [chairperson, voter] = await ethers.getSigners();
+		const ballot = await deployBallot();
+		await (await ballot.giveRightToVote(voter.address)).wait();
+		await (await ballot.connect(voter).vote(1)).wait();
+
+		await upgradeProxy(
+			{
+				contractName: 'BallotUpgradeable',
+				implementation: 'BallotUpgradeableV2Mock',
+			},
+			options
+		);
+
+		const upgraded = (await ethers.getContractAt(
+			'BallotUpgradeableV2Mock',
+			ballot.address
+		)) as BallotUpgradeableV2Mock;
+		expect(await upgraded.chairperson()).to.eq(chairperson.address);
+		expect((await upgraded.voters(voter.address)).voted).to.eq(true);
+		expect((await upgraded.proposals(1)).voteCount).to.eq(1);
+		await (await upgraded.close()).wait();
+		expect(await upgraded.closedAt()).to.be.gt(0);
+
+		const { proxy } = loadDeploymentRecord('BallotUpgradeable') ?? {};
+		expect(
+			proxy?.implementations.map(({ contractName }) => contractName)
+		).to.deep.eq(['BallotUpgradeable', 'BallotUpgradeableV2Mock']);
+		expect(proxy?.implementations[1].upgradeTransactionHash).to.match(
+			/^0x[0-9a-f]{64}$/
+		);
+		expect(proxy?.implementation).to.eq(
+			await getImplementationAddress(ballot.address)
+		);
+	});
+
+	it('should refuse an upgrade corrupting the storage', async () => {
+		const ballot = await deployBallot();
+		const implementation = await getImplementationAddress(ballot.address);
+
+		await expect(
+			upgradeProxy(
+				{
+					contractName: 'BallotUpgradeable',
+					implementation: 'BallotUpgradeableUnsafeMock',
+				},
+				options
+			)
+		).to.be.rejectedWith(
+			[
+				'Upgrade of BallotUpgradeable to BallotUpgradeableUnsafeMock would corrupt its storage:',
+				'`chairperson` moved from slot 0 to slot 1',
+				'`voters` moved from slot 1 to slot 2',
+				'`proposals` was removed or renamed',
+				'`votingEndTime` was removed or renamed',
+				'`quorum` was removed or renamed',
+				'`totalVotes` was removed or renamed',
+				'`deadline` was inserted at slot 0, before existing variables',
+			].join('\n  ')
+		);
+		expect(await getImplementationAddress(ballot.address)).to.eq(
+			implementation
+		);
+	});
+
+	it('should refuse an upgrade by another owner', async () => {
+		const [deployer, other] = await ethers.getSigners();
+		const ballot = await deployBallot();
+		const { proxy } = loadDeploymentRecord('BallotUpgradeable') ?? {};
+		const admin = (await ethers.getContractAt(
+			'ProxyAdmin',
+			proxy?.admin as string
+		)) as ProxyAdmin;
+		await (await admin.transferOwnership(other.address)).wait();
+
+		try {
+			const nonce = await deployer.getTransactionCount();
+			await expect(
+				upgradeProxy({ contractName: 'BallotUpgradeable' }, options)
+			).to.be.rejectedWith(
+				`${deployer.address} cannot upgrade BallotUpgradeable, the ProxyAdmin ${admin.address} is owned by ${other.address}`
+			);
+			// no implementation was deployed
+			expect(await deployer.getTransactionCount()).to.eq(nonce);
+			expect(await getImplementationAddress(ballot.address)).to.eq(
+				proxy?.implementation
+			);
+		} finally {
+			// the ProxyAdmin record is shared by the other tests
+			await (
+				await admin.connect(other).transferOwnership(deployer.address)
+			).wait();
+		}
+	});
+
+	it('should refuse to redeploy a proxy in a pipeline', async () => {
+		const [chairperson] = await ethers.getSigners();
+		const deployStep = (quorum: number) => ({
+			contractName: 'BallotUpgradeable',
+			params: () => ({
+				contractName: 'BallotUpgradeable',
+				contractParams: [chairperson.address, proposalNames, 0, quorum],
+				proxy: true,
+			}),
+		});
+		const ballot = await deployBallot();
+		const message = `BallotUpgradeable is deployed behind the proxy ${ballot.address}, run \`hardhat upgrade --contract BallotUpgradeable\``;
+
+		const [skipped] = await runDeployPipeline([deployStep(0)], options);
+		expect(skipped).to.include({ status: 'skipped', address: ballot.address });
+
+		const [changed] = await runDeployPipeline([deployStep(1)], options);
+		expect(changed.status).to.eq('failed');
+		expect(changed.error?.message).to.include(message);
+
+		const [forced] = await runDeployPipeline([deployStep(0)], {
+			...options,
+			force: true,
+		});
+		expect(forced.status).to.eq('failed');
+		expect(forced.error?.message).to.include(message);
+		expect(loadDeploymentRecord('BallotUpgradeable')?.address).to.eq(
+			ballot.address
+		);
+	});
+
+	it('should compare storage layouts', async () => {
+		const ballot = await getStorageLayout('Ballot');
+		const voters = ballot.storage[1];
+
+		expect(
+			compareStorageLayouts(ballot, await getStorageLayout('BallotUpgradeable'))
+		).to.deep.eq([]);
+		expect(
+			compareStorageLayouts(
+				ballot,
+				await getStorageLayout('BallotUpgradeableV2Mock')
+			)
+		).to.deep.eq([]);
+		// a struct in a mapping can grow, other changes of the struct cannot
+		const voter = ballot.types?.[ballot.types[voters.type].value as string];
+		const grownVoter = {
+			...voter,
+			numberOfBytes: '128',
+			members: [
+				...(voter?.members ?? []),
+				{ ...voter?.members?.[0], label: 'since', slot: '3' },
+			],
+		};
+		const reorderedVoter = {
+			...voter,
+			members: [...(voter?.members ?? [])].reverse(),
+		};
+		const withVoter = (type: any) => ({
+			...ballot,
+			types: {
+				...ballot.types,
+				[ballot.types?.[voters.type].value as string]: type,
+			},
+		});
+		expect(compareStorageLayouts(ballot, withVoter(grownVoter))).to.deep.eq([]);
+		expect(compareStorageLayouts(ballot, withVoter(reorderedVoter))).to.deep.eq(
+			[
+				'`voters[].weight` was removed or moved',
+				'`voters[].voted` was removed or moved',
+				'`voters[].delegate` was removed or moved',
+				'`voters[].vote` was removed or moved',
+			]
+		);
+	});
+
+	it('should deploy Purchase behind a proxy', async () => {
+		const [seller, other] = await ethers.getSigners();
+		const contractParams = [
+			seller.address,
+			...getPurchaseTermsParams({
+				deliveryPeriod: 60,
+				arbiterAddress: other.address,
+				rulingPeriod: 60,
+			}),
+		];
+		const { PurchaseUpgradeable: purchase } = await proxyDeployFunc(
+			{
+				contractName: 'PurchaseUpgradeable',
+				contractParams,
+				overrides: { value: 10 },
+			},
+			options
+		);
+
+		expect(await (purchase as PurchaseUpgradeable).seller()).to.eq(
+			seller.address
+		);
+		expect(await (purchase as PurchaseUpgradeable).value()).to.eq(5);
+		expect(await (purchase as PurchaseUpgradeable).deliveryPeriod()).to.eq(60);
+		expect(await (purchase as PurchaseUpgradeable).arbiter()).to.eq(
+			other.address
+		);
+		expect(await ethers.provider.getBalance(purchase.address)).to.eq(10);
+		await expect(
+			proxyDeployFunc(
+				{
+					contractName: 'PurchaseUpgradeable',
+					contractParams,
+					overrides: { value: 9 },
+				},
+				options
+			)
+		).to.be.rejectedWith(
+			'Initialization of PurchaseUpgradeable reverted with PurchaseUpgradeable.ValueNotEven()'
+		);
+
+		// only the owner of the ProxyAdmin upgrades
+		const record = loadDeploymentRecord('PurchaseUpgradeable');
+		const admin = (await ethers.getContractAt(
+			'ProxyAdmin',
+			record?.proxy?.admin as string
+		)) as ProxyAdmin;
+		await expect(
+			admin
+				.connect(other)
+				.upgradeAndCall(
+					purchase.address,
+					record?.proxy?.implementation as string,
+					'0x'
+				)
+		).to.be.revertedWithError('OnlyOwner');
+	});
+});
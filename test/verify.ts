@@ -0,0 +1,161 @@
+import fs from 'fs';
+import { ethers, run } from 'hardhat';
+import chai, { expect } from 'chai';
+import chaiAsPromised from 'chai-as-promised';
+import { useFixture } from '../helpers/fixtures';
+import {
+	MockVerifyServerInterface,
+	MockVerifyServerOptionsInterface,
+	startMockVerifyServer,
+} from '../helpers/verifyServer';
+import { getVerificationInput } from '../scripts/verify/verify.input';
+import { verifyOnExplorer } from '../scripts/verify/verify.api';
+
+chai.use(chaiAsPromised);
+
+describe('Verify', () => {
+	const fixture = useFixture();
+	const apiKey = 'mock-api-key';
+	let server: MockVerifyServerInterface | undefined;
+
+	const startServer = async (options?: MockVerifyServerOptionsInterface) => {
+		server = await startMockVerifyServer({ apiKey, ...options });
+		return server;
+	};
+
+	const getBallotDeployment = async () => {
+		const { ballot } = fixture();
+		const proposals = [0, 1, 2].map((index) => ballot.proposals(index));
+		const names = (await Promise.all(proposals)).map(({ name }) => name);
+		// fixture ballots have no deadline and no quorum
+		const args = [await ballot.chairperson(), names, 0, 0];
+		return { ballot, args };
+	};
+
+	afterEach(async () => {
+		await server?.close();
+		server = undefined;
+	});
+
+	it('should rebuild the compiler input of a contract', async () => {
+		const { ballot, args } = await getBallotDeployment();
+		const verification = await getVerificationInput('Ballot', args);
+
+		expect(verification).to.include({
+			contractName: 'Ballot',
+			sourceName: 'contracts/voting/Ballot.sol',
+			compilerVersion: 'v0.8.12+commit.f00d7308',
+		});
+		expect(verification.input.language).to.eq('Solidity');
+		// only the sources of Ballot, as they are on disk
+		Object.keys(verification.input.sources).forEach((sourceName) =>
+			expect(verification.input.sources[sourceName].content).to.eq(
+				fs.readFileSync(sourceName, 'utf8')
+			)
+		);
+		expect(verification.input.sources).to.have.property(
+			'contracts/voting/Ballot.sol'
+		);
+		expect(verification.input.sources).not.to.have.property(
+			'contracts/purchase/Purchase.sol'
+		);
+		// the deployment transaction ends with the encoded constructor arguments
+		expect(
+			ballot.deployTransaction.data.endsWith(verification.constructorArguments)
+		).to.eq(true);
+	});
+
+	it('should reject invalid constructor arguments', async () => {
+		await expect(getVerificationInput('Ballot', [])).to.be.rejectedWith(
+			'Invalid constructor arguments of Ballot'
+		);
+	});
+
+	it('should submit and poll until verified', async () => {
+		const { ballot, args } = await getBallotDeployment();
+		const { url, submissions } = await startServer({
+			unindexedSubmissions: 1,
+			pendingChecks: 2,
+		});
+		const verification = await getVerificationInput('Ballot', args);
+
+		const result = await verifyOnExplorer(
+			{ apiUrl: url, apiKey, chainId: 31337 },
+			ballot.address,
+			verification,
+			{ pollingInterval: 10 }
+		);
+
+		expect(result).to.eq('verified');
+		expect(submissions).to.have.length(2);
+		expect(submissions[1]).to.deep.include({
+			chainid: '31337',
+			contractaddress: ballot.address,
+			codeformat: 'solidity-standard-json-input',
+			contractname: 'contracts/voting/Ballot.sol:Ballot',
+			compilerversion: 'v0.8.12+commit.f00d7308',
+			constructorArguements: verification.constructorArguments,
+		});
+		expect(JSON.parse(submissions[1].sourceCode)).to.deep.eq(
+			verification.input
+		);
+	});
+
+	it('should report failed and already verified contracts', async () => {
+		const { ballot, args } = await getBallotDeployment();
+		const verification = await getVerificationInput('Ballot', args);
+		const verify = async (options: MockVerifyServerOptionsInterface) => {
+			const { url, close } = await startMockVerifyServer({
+				apiKey,
+				...options,
+			});
+			try {
+				return await verifyOnExplorer(
+					{ apiUrl: url, apiKey, chainId: 31337 },
+					ballot.address,
+					verification,
+					{ pollingInterval: 10, timeout: 1000 }
+				);
+			} finally {
+				await close();
+			}
+		};
+
+		await expect(verify({ outcome: 'fail' })).to.be.rejectedWith(
+			'Verification failed: Fail - Unable to verify'
+		);
+		await expect(verify({ outcome: 'already verified' })).to.eventually.eq(
+			'already verified'
+		);
+		await expect(verify({ unindexedSubmissions: 1000 })).to.be.rejectedWith(
+			`Verification of Ballot at ${ballot.address} timed out`
+		);
+	});
+
+	it('should verify with the verify task', async () => {
+		const { ballot, args } = await getBallotDeployment();
+		const { url, submissions } = await startServer();
+
+		await expect(
+			run('verify', {
+				contract: 'Ballot',
+				address: ballot.address,
+				args: JSON.stringify(args),
+				apiUrl: url,
+				apiKey,
+				pollingInterval: 10,
+			})
+		).to.eventually.eq('verified');
+		expect(submissions).to.have.length(1);
+
+		await expect(
+			run('verify', {
+				contract: 'Ballot',
+				address: ethers.constants.AddressZero,
+				args: JSON.stringify(args),
+				apiUrl: url,
+				apiKey,
+			})
+		).to.be.rejectedWith(`No contract at ${ethers.constants.AddressZero}`);
+	});
+});